@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from "react";
+
+interface AdminPanelProps {
+  currentUserId: string;
+  onImpersonate: () => void;
+}
+
+interface AdminUser {
+  id: string;
+  username: string;
+  role: "user" | "admin";
+  createdAt: string;
+  disabled: boolean;
+  planId: string;
+  storageQuota: number | null;
+  diskUsage: {
+    used: number;
+    total: number | null;
+    percentage: number;
+  } | null;
+}
+
+interface StoragePlan {
+  id: string;
+  name: string;
+  maxTotalBytes: number | null;
+  maxFileBytes: number | null;
+  maxFileCount: number | null;
+}
+
+interface LoginLockout {
+  id: string;
+  username: string;
+  ipAddress: string | null;
+  failedAttempts: number;
+  lockedAt: string;
+  lockedUntil: string;
+  clearedAt: string | null;
+}
+
+export function AdminPanel({ currentUserId, onImpersonate }: AdminPanelProps) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [plans, setPlans] = useState<StoragePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 사용자 및 잠금 목록 가져오기
+  const fetchAdminData = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [usersResponse, lockoutsResponse, plansResponse] =
+        await Promise.all([
+          fetch("/api/admin/users"),
+          fetch("/api/admin/lockouts?active=true"),
+          fetch("/api/admin/plans"),
+        ]);
+      const usersData = await usersResponse.json();
+      const lockoutsData = await lockoutsResponse.json();
+      const plansData = await plansResponse.json();
+
+      if (!usersResponse.ok) {
+        setError(usersData.error || "사용자 목록을 가져오는데 실패했습니다.");
+        return;
+      }
+
+      setUsers(usersData.users);
+      setLockouts(lockoutsResponse.ok ? lockoutsData.lockouts : []);
+      setPlans(plansResponse.ok ? plansData.plans : []);
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAdminData();
+  }, []);
+
+  // 관리자 API 호출 공통 처리
+  const callAdminApi = async (
+    url: string,
+    method: string,
+    body?: Record<string, unknown>
+  ) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "요청 처리에 실패했습니다.");
+        return null;
+      }
+
+      return data;
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+      return null;
+    }
+  };
+
+  // 계정 활성화/비활성화
+  const toggleDisabled = async (user: AdminUser) => {
+    const data = await callAdminApi(`/api/admin/users/${user.id}`, "PATCH", {
+      disabled: !user.disabled,
+    });
+    if (data) fetchAdminData();
+  };
+
+  // 역할 변경
+  const toggleRole = async (user: AdminUser) => {
+    const role = user.role === "admin" ? "user" : "admin";
+    if (!confirm(`'${user.username}'의 역할을 ${role}(으)로 변경하시겠습니까?`))
+      return;
+
+    const data = await callAdminApi(`/api/admin/users/${user.id}`, "PATCH", {
+      role,
+    });
+    if (data) fetchAdminData();
+  };
+
+  // 요금제 변경
+  const changePlan = async (user: AdminUser, planId: string) => {
+    const data = await callAdminApi(`/api/admin/users/${user.id}`, "PATCH", {
+      planId,
+    });
+    if (data) fetchAdminData();
+  };
+
+  // 저장 공간 한도 변경 (MB 단위 입력, 비우면 요금제 기본값)
+  const changeQuota = async (user: AdminUser) => {
+    const current =
+      user.storageQuota !== null
+        ? String(user.storageQuota / (1024 * 1024))
+        : "";
+    const input = prompt(
+      `'${user.username}'의 저장 공간 한도 (MB, 비우면 요금제 기본값)`,
+      current
+    );
+    if (input === null) return;
+
+    const storageQuota =
+      input.trim() === "" ? null : Math.round(Number(input) * 1024 * 1024);
+    if (storageQuota !== null && (isNaN(storageQuota) || storageQuota < 0)) {
+      setError("올바른 용량을 입력하세요.");
+      return;
+    }
+
+    const data = await callAdminApi(`/api/admin/users/${user.id}`, "PATCH", {
+      storageQuota,
+    });
+    if (data) fetchAdminData();
+  };
+
+  // 비밀번호 초기화
+  const resetPassword = async (user: AdminUser) => {
+    if (!confirm(`'${user.username}'의 비밀번호를 초기화하시겠습니까?`)) return;
+
+    const data = await callAdminApi(
+      `/api/admin/users/${user.id}/reset-password`,
+      "POST"
+    );
+    if (data) {
+      setMessage(
+        `'${user.username}'의 임시 비밀번호: ${data.temporaryPassword} (다시 표시되지 않습니다)`
+      );
+    }
+  };
+
+  // 계정 삭제
+  const deleteAccount = async (user: AdminUser) => {
+    if (
+      !confirm(
+        `'${user.username}' 계정과 모든 파일을 삭제하시겠습니까? 되돌릴 수 없습니다.`
+      )
+    )
+      return;
+
+    const data = await callAdminApi(`/api/admin/users/${user.id}`, "DELETE");
+    if (data) fetchAdminData();
+  };
+
+  // 읽기 전용으로 사용자 가장
+  const impersonate = async (user: AdminUser) => {
+    const data = await callAdminApi(
+      `/api/admin/users/${user.id}/impersonate`,
+      "POST"
+    );
+    if (data) onImpersonate();
+  };
+
+  // 로그인 잠금 해제
+  const clearLockout = async (lockout: LoginLockout) => {
+    const data = await callAdminApi(
+      `/api/admin/lockouts/${lockout.id}`,
+      "DELETE"
+    );
+    if (data) fetchAdminData();
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + " bytes";
+    else if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+    else return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded break-all">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">
+            사용자 관리
+          </h2>
+          <button
+            onClick={fetchAdminData}
+            className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700"
+          >
+            새로고침
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  사용자
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  상태
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  요금제
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  디스크 사용량
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  작업
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 dark:bg-gray-800 dark:divide-gray-700">
+              {users.map((user) => (
+                <tr
+                  key={user.id}
+                  className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap dark:text-gray-200">
+                    <div className="font-medium">{user.username}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(user.createdAt).toLocaleString()}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <span
+                      className={
+                        user.role === "admin"
+                          ? "text-purple-600 font-semibold"
+                          : "text-gray-600 dark:text-gray-300"
+                      }
+                    >
+                      {user.role === "admin" ? "관리자" : "일반"}
+                    </span>
+                    {user.disabled && (
+                      <span className="ml-2 text-red-600">비활성화</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <select
+                      value={user.planId}
+                      onChange={(e) => changePlan(user, e.target.value)}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-200"
+                    >
+                      {plans.map((plan) => (
+                        <option key={plan.id} value={plan.id}>
+                          {plan.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {user.diskUsage && (
+                      <>
+                        {formatFileSize(user.diskUsage.used)} /{" "}
+                        {user.diskUsage.total === null
+                          ? "무제한"
+                          : formatFileSize(user.diskUsage.total)}
+                      </>
+                    )}
+                    {user.storageQuota !== null && " (지정)"}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => changeQuota(user)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        한도
+                      </button>
+                      <button
+                        onClick={() => resetPassword(user)}
+                        className="text-yellow-600 hover:text-yellow-900"
+                      >
+                        비밀번호 초기화
+                      </button>
+                      {user.id !== currentUserId && (
+                        <>
+                          <button
+                            onClick={() => impersonate(user)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            사용자로 보기
+                          </button>
+                          <button
+                            onClick={() => toggleRole(user)}
+                            className="text-purple-600 hover:text-purple-900"
+                          >
+                            {user.role === "admin"
+                              ? "관리자 해제"
+                              : "관리자 지정"}
+                          </button>
+                          <button
+                            onClick={() => toggleDisabled(user)}
+                            className="text-orange-600 hover:text-orange-900"
+                          >
+                            {user.disabled ? "활성화" : "비활성화"}
+                          </button>
+                          <button
+                            onClick={() => deleteAccount(user)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            삭제
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+          로그인 잠금
+        </h2>
+        {lockouts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            현재 잠긴 계정이 없습니다.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {lockouts.map((lockout) => (
+              <li
+                key={lockout.id}
+                className="py-2 flex justify-between items-center text-sm dark:text-gray-300"
+              >
+                <span>
+                  <strong>{lockout.username}</strong> — 실패{" "}
+                  {lockout.failedAttempts}회, IP {lockout.ipAddress || "-"},{" "}
+                  {new Date(lockout.lockedUntil).toLocaleString()}까지
+                </span>
+                <button
+                  onClick={() => clearLockout(lockout)}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  잠금 해제
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
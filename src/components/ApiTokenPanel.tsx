@@ -0,0 +1,257 @@
+import React, { useState, useEffect, FormEvent } from "react";
+
+interface ApiTokenPanelProps {
+  onClose: () => void;
+}
+
+type TokenScope = "read" | "write" | "delete" | "admin";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<TokenScope, string> = {
+  read: "읽기",
+  write: "쓰기",
+  delete: "삭제",
+  admin: "관리",
+};
+
+export function ApiTokenPanel({ onClose }: ApiTokenPanelProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState<string>("30");
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  // 토큰 목록 가져오기
+  const fetchTokens = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/tokens");
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "토큰 목록을 가져오는데 실패했습니다.");
+        return;
+      }
+      setTokens(data.tokens);
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  // 권한 범위 선택 토글
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  // 토큰 발급
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setNewToken(null);
+
+    if (scopes.length === 0) {
+      setError("최소 하나의 권한을 선택해주세요.");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "토큰 발급에 실패했습니다.");
+        return;
+      }
+
+      setNewToken(data.token);
+      setName("");
+      fetchTokens();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // 토큰 폐기
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`'${token.name}' 토큰을 폐기하시겠습니까?`)) return;
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "토큰 폐기에 실패했습니다.");
+        return;
+      }
+      fetchTokens();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    }
+  };
+
+  const formatDate = (dateString: string | null): string => {
+    if (!dateString) return "-";
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 dark:text-gray-200 p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">개인 API 토큰</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          스크립트나 CI에서 <code>Authorization: Bearer &lt;토큰&gt;</code>{" "}
+          헤더로 파일 API에 접근할 수 있습니다.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded">
+            {error}
+          </div>
+        )}
+
+        {newToken && (
+          <div className="mb-4 p-3 bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 rounded">
+            <p className="mb-2 text-sm">
+              토큰이 발급되었습니다. 이 값은 다시 표시되지 않으니 지금
+              복사하세요.
+            </p>
+            <code className="block break-all p-2 bg-white dark:bg-gray-900 rounded text-sm">
+              {newToken}
+            </code>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3 mb-6">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={100}
+            placeholder="토큰 이름 (예: CI 배포)"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            {(Object.keys(SCOPE_LABELS) as TokenScope[]).map((scope) => (
+              <label key={scope} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                {SCOPE_LABELS[scope]}
+              </label>
+            ))}
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700"
+            >
+              <option value="7">7일 후 만료</option>
+              <option value="30">30일 후 만료</option>
+              <option value="90">90일 후 만료</option>
+              <option value="365">1년 후 만료</option>
+              <option value="">만료 없음</option>
+            </select>
+            <button
+              type="submit"
+              disabled={creating}
+              className="ml-auto px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50"
+            >
+              {creating ? "발급 중..." : "토큰 발급"}
+            </button>
+          </div>
+        </form>
+
+        {loading ? (
+          <div>로딩 중...</div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            발급된 토큰이 없습니다.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left">이름</th>
+                <th className="px-3 py-2 text-left">권한</th>
+                <th className="px-3 py-2 text-left">만료</th>
+                <th className="px-3 py-2 text-left">마지막 사용</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {tokens.map((token) => (
+                <tr key={token.id}>
+                  <td className="px-3 py-2">
+                    <div>{token.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {token.tokenPrefix}…
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {token.scopes
+                      .map((scope) => SCOPE_LABELS[scope])
+                      .join(", ")}
+                  </td>
+                  <td className="px-3 py-2">
+                    {token.expiresAt ? formatDate(token.expiresAt) : "없음"}
+                  </td>
+                  <td className="px-3 py-2">{formatDate(token.lastUsedAt)}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      폐기
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,13 @@ import { useEffect, useState } from "react";
 import { LoginForm } from "./LoginForm";
 import { RegisterForm } from "./RegisterForm";
 import { FileList } from "./FileList";
+import { ApiTokenPanel } from "./ApiTokenPanel";
+import { AdminPanel } from "./AdminPanel";
 
 interface User {
   id: string;
   username: string;
+  role: "user" | "admin";
 }
 
 export function App() {
@@ -14,6 +17,9 @@ export function App() {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [showRegisterForm, setShowRegisterForm] = useState<boolean>(false);
+  const [showTokenPanel, setShowTokenPanel] = useState<boolean>(false);
+  const [activeTab, setActiveTab] = useState<"files" | "admin">("files");
+  const [impersonatedBy, setImpersonatedBy] = useState<User | null>(null);
 
   // 사용자 인증 상태 확인
   useEffect(() => {
@@ -25,6 +31,7 @@ export function App() {
         if (data.authenticated && data.user) {
           setIsLoggedIn(true);
           setUser(data.user);
+          setImpersonatedBy(data.impersonatedBy);
         } else {
           setIsLoggedIn(false);
           setUser(null);
@@ -67,6 +74,33 @@ export function App() {
     }
   };
 
+  // 관리자 가장 종료 (관리자 세션으로 복귀)
+  const handleStopImpersonation = async () => {
+    try {
+      await fetch("/api/admin/impersonation/stop", {
+        method: "POST",
+      });
+    } catch (error) {
+      console.error("가장 종료 중 오류 발생:", error);
+    }
+    window.location.reload();
+  };
+
+  // 모든 기기에서 로그아웃 처리
+  const handleLogoutEverywhere = async () => {
+    if (!confirm("모든 기기에서 로그아웃하시겠습니까?")) return;
+
+    try {
+      await fetch("/api/sessions/revoke-all", {
+        method: "POST",
+      });
+      setIsLoggedIn(false);
+      setUser(null);
+    } catch (error) {
+      console.error("전체 로그아웃 중 오류 발생:", error);
+    }
+  };
+
   // 회원가입 폼으로 전환
   const handleGoToRegister = () => {
     setShowRegisterForm(true);
@@ -92,6 +126,21 @@ export function App() {
 
   return (
     <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900">
+      {impersonatedBy && user && (
+        <div className="bg-yellow-300 text-yellow-900 text-sm py-2 px-4 flex justify-center items-center gap-4">
+          <span>
+            관리자 {impersonatedBy.username}님이 {user.username} 계정을 읽기
+            전용으로 보고 있습니다.
+          </span>
+          <button
+            onClick={handleStopImpersonation}
+            className="underline font-semibold"
+          >
+            가장 종료
+          </button>
+        </div>
+      )}
+
       <header className="bg-white dark:bg-gray-800 shadow-md">
         <div className="max-w-full w-full mx-auto py-4 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
           <div className="flex items-center gap-4">
@@ -105,6 +154,18 @@ export function App() {
               <span className="text-gray-600 dark:text-gray-300">
                 안녕하세요, {user.username}님!
               </span>
+              <button
+                onClick={() => setShowTokenPanel(true)}
+                className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+              >
+                API 토큰
+              </button>
+              <button
+                onClick={handleLogoutEverywhere}
+                className="text-sm text-gray-600 hover:text-red-600 hover:underline dark:text-gray-300 dark:hover:text-red-400"
+              >
+                모든 기기에서 로그아웃
+              </button>
               <button
                 onClick={handleLogout}
                 className="bg-red-600 text-white py-1 px-3 rounded-md hover:bg-red-700 focus:outline-none dark:bg-red-700 dark:hover:bg-red-800"
@@ -116,6 +177,10 @@ export function App() {
         </div>
       </header>
 
+      {showTokenPanel && isLoggedIn && (
+        <ApiTokenPanel onClose={() => setShowTokenPanel(false)} />
+      )}
+
       <main className="flex-grow max-w-full w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {!isLoggedIn ? (
           <div className="max-w-md mx-auto">
@@ -160,7 +225,40 @@ export function App() {
             )}
           </div>
         ) : (
-          <FileList />
+          <>
+            {user?.role === "admin" && !impersonatedBy && (
+              <div className="flex gap-2 mb-4 border-b border-gray-200 dark:border-gray-700">
+                {(
+                  [
+                    ["files", "파일 관리"],
+                    ["admin", "관리자"],
+                  ] as const
+                ).map(([tab, label]) => (
+                  <button
+                    key={tab}
+                    onClick={() => setActiveTab(tab)}
+                    className={`px-4 py-2 -mb-px border-b-2 ${
+                      activeTab === tab
+                        ? "border-blue-500 text-blue-600 dark:text-blue-400"
+                        : "border-transparent text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {activeTab === "admin" &&
+            user?.role === "admin" &&
+            !impersonatedBy ? (
+              <AdminPanel
+                currentUserId={user.id}
+                onImpersonate={() => window.location.reload()}
+              />
+            ) : (
+              <FileList />
+            )}
+          </>
         )}
       </main>
 
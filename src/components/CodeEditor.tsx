@@ -26,6 +26,7 @@ import "prismjs/components/prism-cpp";
 import "prismjs/components/prism-csharp";
 import "prismjs/components/prism-jsx";
 import "prismjs/components/prism-tsx";
+import { withSite } from "../services/siteScope";
 
 // 자동완성을 위한 키워드 목록
 const KEYWORDS = {
@@ -197,11 +198,74 @@ const KEYWORDS = {
 // 테마 타입 정의
 type Theme = "light" | "tomorrow" | "okaidia" | "solarized" | "dark";
 
+// 파일 리비전 정보
+interface FileRevision {
+  id: string;
+  hash: string;
+  size: number;
+  createdAt: string;
+}
+
+// 줄 단위 비교 결과
+interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// 비교할 수 있는 최대 크기 (줄 수의 곱, 넘으면 전체 교체로 표시)
+const MAX_DIFF_CELLS = 4_000_000;
+
+// 두 텍스트를 줄 단위로 비교 (최장 공통 부분 수열 기반)
+function computeLineDiff(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map((text) => ({ type: "removed" as const, text })),
+      ...newLines.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = oldLines[i..]와 newLines[j..]의 공통 부분 수열 길이
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "same", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: oldLines[i++] });
+    } else {
+      result.push({ type: "added", text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: "removed", text: oldLines[i++] });
+  while (j < m) result.push({ type: "added", text: newLines[j++] });
+
+  return result;
+}
+
 interface CodeEditorProps {
   fileId: string;
   filename: string;
   initialContent?: string;
   userId?: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
   onSave?: (content: string) => Promise<boolean>;
 }
 
@@ -210,6 +274,7 @@ export function CodeEditor({
   filename,
   initialContent = "",
   userId,
+  siteId,
   onSave,
 }: CodeEditorProps) {
   const [content, setContent] = useState(initialContent);
@@ -238,6 +303,13 @@ export function CodeEditor({
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [cursorPosition, setCursorPosition] = useState({ top: 0, left: 0 });
   const [scrollTop, setScrollTop] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<{
+    revision: FileRevision;
+    content: string;
+  } | null>(null);
 
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const previewRef = useRef<HTMLPreElement>(null);
@@ -561,7 +633,9 @@ export function CodeEditor({
           console.log(
             `사용자 기반 파일 내용 로드: userId=${userId}, filename=${filename}`
           );
-          response = await fetch(`/api/users/${userId}/content/${filename}`);
+          response = await fetch(
+            withSite(`/api/users/${userId}/content/${filename}`, siteId)
+          );
         } else {
           // 레거시 방식 (하위 호환성 유지)
           console.log(`레거시 방식 파일 내용 로드: fileId=${fileId}`);
@@ -601,7 +675,7 @@ export function CodeEditor({
     } else {
       setLoading(false);
     }
-  }, [fileId, userId, filename]);
+  }, [fileId, userId, siteId, filename]);
 
   // 자동 저장 처리
   useEffect(() => {
@@ -651,6 +725,7 @@ export function CodeEditor({
       setSaveSuccess(success);
       if (success) {
         setPreviousContent(content);
+        if (showHistory) fetchRevisions();
       }
     } catch (err) {
       setSaveSuccess(false);
@@ -663,6 +738,102 @@ export function CodeEditor({
     }
   };
 
+  // 리비전 목록 가져오기
+  const fetchRevisions = async () => {
+    if (!userId) return;
+    setHistoryError(null);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/history/${filename}`, siteId)
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setHistoryError(data.error || "기록을 가져오는데 실패했습니다.");
+        return;
+      }
+      setRevisions(data.revisions);
+    } catch (err) {
+      setHistoryError("서버 연결에 실패했습니다.");
+    }
+  };
+
+  // 기록 사이드바 열기/닫기
+  const toggleHistory = () => {
+    if (!showHistory) {
+      fetchRevisions();
+    } else {
+      setComparing(null);
+    }
+    setShowHistory(!showHistory);
+  };
+
+  // 리비전과 현재 내용 비교
+  const compareRevision = async (revision: FileRevision) => {
+    setHistoryError(null);
+
+    try {
+      const response = await fetch(
+        withSite(
+          `/api/users/${userId}/history/${filename}?rev=${revision.id}`,
+          siteId
+        )
+      );
+      if (!response.ok) {
+        setHistoryError("리비전 내용을 가져오는데 실패했습니다.");
+        return;
+      }
+      setComparing({ revision, content: await response.text() });
+    } catch (err) {
+      setHistoryError("서버 연결에 실패했습니다.");
+    }
+  };
+
+  // 리비전 복원 (현재 내용은 새 리비전으로 보관됨)
+  const restoreRevision = async (revision: FileRevision) => {
+    if (
+      !confirm(
+        `${new Date(
+          revision.createdAt
+        ).toLocaleString()} 버전으로 복원하시겠습니까?`
+      )
+    )
+      return;
+
+    setHistoryError(null);
+
+    try {
+      const contentResponse = await fetch(
+        withSite(
+          `/api/users/${userId}/history/${filename}?rev=${revision.id}`,
+          siteId
+        )
+      );
+      const response = await fetch(
+        withSite(`/api/users/${userId}/history/${filename}/restore`, siteId),
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ rev: revision.id }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !contentResponse.ok) {
+        setHistoryError(data.error || "리비전 복원에 실패했습니다.");
+        return;
+      }
+
+      const restored = await contentResponse.text();
+      setContent(restored);
+      setPreviousContent(restored);
+      setComparing(null);
+      fetchRevisions();
+    } catch (err) {
+      setHistoryError("서버 연결에 실패했습니다.");
+    }
+  };
+
   // 폰트 크기 증가
   const increaseFontSize = () => {
     setFontSize((prevSize) => Math.min(prevSize + 2, 28));
@@ -956,10 +1127,24 @@ export function CodeEditor({
             >
               {saving ? "저장 중..." : "저장"}
             </button>
+            {userId && (
+              <button
+                onClick={toggleHistory}
+                className={`px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 ${
+                  showHistory
+                    ? "bg-gray-700 text-white hover:bg-gray-800"
+                    : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                }`}
+              >
+                기록
+              </button>
+            )}
             <a
               href={
                 userId
-                  ? `/static/users/${userId}/${filename}`
+                  ? siteId && siteId !== userId
+                    ? `/static/sites/${siteId}/${filename}`
+                    : `/static/users/${userId}/${filename}`
                   : `/static/${fileId}`
               }
               target="_blank"
@@ -1112,129 +1297,243 @@ export function CodeEditor({
           </div>
         </div>
 
-        {loading ? (
-          <div
-            className={`flex justify-center items-center h-64 shadow-sm rounded ${
-              isDarkMode ? "bg-gray-800" : "bg-white"
-            }`}
-          >
-            <p className={isDarkMode ? "text-gray-300" : "text-gray-700"}>
-              로딩 중...
-            </p>
-          </div>
-        ) : (
-          <div
-            className="relative editor-container"
-            style={{
-              height: "500px",
-              backgroundColor: isDarkMode ? "#1e1e1e" : "white",
-              borderRadius: "0.375rem",
-              overflow: "hidden",
-            }}
-          >
-            {showLineNumbers && (
+        <div className="flex gap-4">
+          <div className="flex-1 min-w-0">
+            {comparing && (
               <div
-                className="absolute left-0 top-0 h-full bg-gray-50 text-gray-400 select-none border-r border-gray-100 line-numbers-container"
-                style={{
-                  width: "60px",
-                  userSelect: "none",
-                  zIndex: 10,
-                  pointerEvents: "none",
-                  backgroundColor: isDarkMode ? "#252526" : "#f9fafb",
-                }}
+                className={`mb-4 rounded shadow-sm overflow-hidden ${
+                  isDarkMode ? "bg-gray-800" : "bg-white"
+                }`}
               >
                 <div
-                  ref={lineNumbersRef}
-                  className="line-number-wrapper"
-                  dangerouslySetInnerHTML={{ __html: getLineNumbers() }}
-                />
+                  className={`flex justify-between items-center px-3 py-2 text-sm ${
+                    isDarkMode ? "text-gray-300" : "text-gray-700"
+                  }`}
+                >
+                  <span>
+                    {new Date(comparing.revision.createdAt).toLocaleString()}{" "}
+                    버전 → 현재 편집 중인 내용
+                  </span>
+                  <button
+                    onClick={() => setComparing(null)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <pre
+                  className="text-xs overflow-auto max-h-80 m-0"
+                  style={{ fontFamily: monospaceFontFamily }}
+                >
+                  {computeLineDiff(comparing.content, content).map(
+                    (line, index) => (
+                      <div
+                        key={index}
+                        className={
+                          line.type === "added"
+                            ? "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+                            : line.type === "removed"
+                            ? "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+                            : isDarkMode
+                            ? "text-gray-400"
+                            : "text-gray-600"
+                        }
+                      >
+                        {line.type === "added"
+                          ? "+ "
+                          : line.type === "removed"
+                          ? "- "
+                          : "  "}
+                        {line.text}
+                      </div>
+                    )
+                  )}
+                </pre>
               </div>
             )}
 
-            <textarea
-              ref={editorRef}
-              value={content}
-              onChange={handleContentChange}
-              onKeyDown={handleKeyDown}
-              onClick={handleCursorChange}
-              onKeyUp={handleCursorChange}
-              onScroll={syncScroll}
-              className="editor-textarea"
-              style={{
-                position: "absolute",
-                top: 0,
-                left: showLineNumbers ? "60px" : 0,
-                right: 0,
-                bottom: 0,
-                height: "100%",
-                width: showLineNumbers ? "calc(100% - 60px)" : "100%",
-                resize: "none",
-                outline: "none",
-                overflowY: "auto",
-                backgroundColor: "transparent",
-                color: "transparent",
-                caretColor: isDarkMode ? "white" : "black",
-                whiteSpace: "pre",
-                zIndex: 20,
-              }}
-              placeholder="여기에 코드를 입력하세요..."
-              spellCheck="false"
-            />
-
-            <pre
-              ref={previewRef}
-              className="editor-preview"
-              style={{
-                position: "absolute",
-                top: 0,
-                left: showLineNumbers ? "60px" : 0,
-                right: 0,
-                bottom: 0,
-                height: "100%",
-                width: showLineNumbers ? "calc(100% - 60px)" : "100%",
-                margin: 0,
-                overflow: "auto",
-                backgroundColor: isDarkMode ? "#282c34" : "white",
-                color: isDarkMode ? "#f8f8f2" : "#333",
-                zIndex: 10,
-                border: "none",
-              }}
-              aria-hidden="true"
-            >
-              <code className={`language-${language}`}>{content}</code>
-            </pre>
-
-            {showSuggestions && suggestions.length > 0 && (
+            {loading ? (
               <div
-                ref={suggestionRef}
-                className="absolute z-30 shadow-sm rounded overflow-hidden max-h-52 bg-white border border-gray-100"
+                className={`flex justify-center items-center h-64 shadow-sm rounded ${
+                  isDarkMode ? "bg-gray-800" : "bg-white"
+                }`}
+              >
+                <p className={isDarkMode ? "text-gray-300" : "text-gray-700"}>
+                  로딩 중...
+                </p>
+              </div>
+            ) : (
+              <div
+                className="relative editor-container"
                 style={{
-                  top: `${cursorPosition.top + 5}px`,
-                  left: `${
-                    cursorPosition.left + (showLineNumbers ? 76 : 16)
-                  }px`,
-                  minWidth: "150px",
+                  height: "500px",
+                  backgroundColor: isDarkMode ? "#1e1e1e" : "white",
+                  borderRadius: "0.375rem",
+                  overflow: "hidden",
                 }}
               >
-                <ul className="py-1">
-                  {suggestions.map((suggestion, index) => (
+                {showLineNumbers && (
+                  <div
+                    className="absolute left-0 top-0 h-full bg-gray-50 text-gray-400 select-none border-r border-gray-100 line-numbers-container"
+                    style={{
+                      width: "60px",
+                      userSelect: "none",
+                      zIndex: 10,
+                      pointerEvents: "none",
+                      backgroundColor: isDarkMode ? "#252526" : "#f9fafb",
+                    }}
+                  >
+                    <div
+                      ref={lineNumbersRef}
+                      className="line-number-wrapper"
+                      dangerouslySetInnerHTML={{ __html: getLineNumbers() }}
+                    />
+                  </div>
+                )}
+
+                <textarea
+                  ref={editorRef}
+                  value={content}
+                  onChange={handleContentChange}
+                  onKeyDown={handleKeyDown}
+                  onClick={handleCursorChange}
+                  onKeyUp={handleCursorChange}
+                  onScroll={syncScroll}
+                  className="editor-textarea"
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: showLineNumbers ? "60px" : 0,
+                    right: 0,
+                    bottom: 0,
+                    height: "100%",
+                    width: showLineNumbers ? "calc(100% - 60px)" : "100%",
+                    resize: "none",
+                    outline: "none",
+                    overflowY: "auto",
+                    backgroundColor: "transparent",
+                    color: "transparent",
+                    caretColor: isDarkMode ? "white" : "black",
+                    whiteSpace: "pre",
+                    zIndex: 20,
+                  }}
+                  placeholder="여기에 코드를 입력하세요..."
+                  spellCheck="false"
+                />
+
+                <pre
+                  ref={previewRef}
+                  className="editor-preview"
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: showLineNumbers ? "60px" : 0,
+                    right: 0,
+                    bottom: 0,
+                    height: "100%",
+                    width: showLineNumbers ? "calc(100% - 60px)" : "100%",
+                    margin: 0,
+                    overflow: "auto",
+                    backgroundColor: isDarkMode ? "#282c34" : "white",
+                    color: isDarkMode ? "#f8f8f2" : "#333",
+                    zIndex: 10,
+                    border: "none",
+                  }}
+                  aria-hidden="true"
+                >
+                  <code className={`language-${language}`}>{content}</code>
+                </pre>
+
+                {showSuggestions && suggestions.length > 0 && (
+                  <div
+                    ref={suggestionRef}
+                    className="absolute z-30 shadow-sm rounded overflow-hidden max-h-52 bg-white border border-gray-100"
+                    style={{
+                      top: `${cursorPosition.top + 5}px`,
+                      left: `${
+                        cursorPosition.left + (showLineNumbers ? 76 : 16)
+                      }px`,
+                      minWidth: "150px",
+                    }}
+                  >
+                    <ul className="py-1">
+                      {suggestions.map((suggestion, index) => (
+                        <li
+                          key={suggestion}
+                          className={`px-3 py-1 cursor-pointer hover:bg-blue-500 hover:text-white ${
+                            index === selectedSuggestion
+                              ? "bg-blue-500 text-white"
+                              : ""
+                          }`}
+                          onClick={() => selectSuggestion(suggestion)}
+                        >
+                          {suggestion}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {showHistory && (
+            <div
+              className={`w-72 shrink-0 rounded shadow-sm p-3 overflow-y-auto ${
+                isDarkMode
+                  ? "bg-gray-800 text-gray-300"
+                  : "bg-white text-gray-700"
+              }`}
+              style={{ maxHeight: "500px" }}
+            >
+              <h3 className="font-semibold mb-2">변경 기록</h3>
+              {historyError && (
+                <div className="mb-2 p-2 text-sm bg-red-100 text-red-700 rounded">
+                  {historyError}
+                </div>
+              )}
+              {revisions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  저장된 이전 버전이 없습니다.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {revisions.map((revision) => (
                     <li
-                      key={suggestion}
-                      className={`px-3 py-1 cursor-pointer hover:bg-blue-500 hover:text-white ${
-                        index === selectedSuggestion
-                          ? "bg-blue-500 text-white"
-                          : ""
+                      key={revision.id}
+                      className={`p-2 rounded text-sm border ${
+                        comparing?.revision.id === revision.id
+                          ? "border-blue-500"
+                          : isDarkMode
+                          ? "border-gray-700"
+                          : "border-gray-200"
                       }`}
-                      onClick={() => selectSuggestion(suggestion)}
                     >
-                      {suggestion}
+                      <div>{new Date(revision.createdAt).toLocaleString()}</div>
+                      <div className="text-xs text-gray-500">
+                        {revision.size} bytes
+                      </div>
+                      <div className="flex gap-3 mt-1">
+                        <button
+                          onClick={() => compareRevision(revision)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          비교
+                        </button>
+                        <button
+                          onClick={() => restoreRevision(revision)}
+                          className="text-orange-600 hover:text-orange-800"
+                        >
+                          복원
+                        </button>
+                      </div>
                     </li>
                   ))}
                 </ul>
-              </div>
-            )}
-          </div>
-        )}
+              )}
+            </div>
+          )}
+        </div>
 
         <div
           className={`mt-2 text-xs p-2 ${
@@ -1,9 +1,11 @@
 import React, { useState } from "react";
+import { withSite } from "../services/siteScope";
 
 interface FileCreatorProps {
   onFileCreated: (fileId: string) => void;
   onCancel: () => void;
   userId: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
   currentPath: string;
 }
 
@@ -18,6 +20,7 @@ export function FileCreator({
   onFileCreated,
   onCancel,
   userId,
+  siteId,
   currentPath,
 }: FileCreatorProps) {
   const [filename, setFilename] = useState("");
@@ -148,17 +151,20 @@ document.addEventListener('DOMContentLoaded', function() {
           ? `${currentPath}${filename}`
           : `${currentPath}/${filename}`;
 
-      const response = await fetch(`/api/users/${userId}/files/create`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          path,
-          content,
-          mimeType,
-        }),
-      });
+      const response = await fetch(
+        withSite(`/api/users/${userId}/files/create`, siteId),
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            path,
+            content,
+            mimeType,
+          }),
+        }
+      );
 
       const data = await response.json();
 
@@ -169,8 +175,15 @@ document.addEventListener('DOMContentLoaded', function() {
             ? formatFileSize(data.diskUsage.required)
             : "추가 공간";
 
+          // 삭제한 파일은 휴지통을 비워야 용량이 확보됨
+          const freeSpaceHint = data.diskUsage?.trashBytes
+            ? `휴지통에 있는 ${formatFileSize(
+                data.diskUsage.trashBytes
+              )}도 용량에 포함되므로 휴지통을 비워 공간을 확보하세요.`
+            : "일부 파일을 삭제하고 휴지통을 비워 공간을 확보하세요.";
+
           setError(
-            `디스크 용량 부족: 파일 생성을 위해 ${requiredSpace}이(가) 필요합니다. 일부 파일을 삭제하여 공간을 확보하세요.`
+            `디스크 용량 부족: 파일 생성을 위해 ${requiredSpace}이(가) 필요합니다. ${freeSpaceHint}`
           );
         } else {
           setError(data.error || "파일 생성에 실패했습니다.");
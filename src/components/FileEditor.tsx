@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { CodeEditor } from "./CodeEditor";
+import { lookupMimeType } from "../services/mime";
+import { withSite } from "../services/siteScope";
 
 interface FileEditorProps {
   fileId?: string | null;
   contentPath?: string;
   onClose: () => void;
   userId?: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
   filename?: string;
 }
 
@@ -21,11 +24,18 @@ interface User {
   username: string;
 }
 
+// 사이트 설정 파일(_headers, _redirects) 저장 시 서버가 알려주는 줄별 오류
+interface SaveLineError {
+  line: number;
+  message: string;
+}
+
 export function FileEditor({
   fileId,
   contentPath,
   onClose,
   userId,
+  siteId,
   filename,
 }: FileEditorProps) {
   const [file, setFile] = useState<FileDetails | null>(null);
@@ -33,6 +43,7 @@ export function FileEditor({
   const [error, setError] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isDarkTheme, setIsDarkTheme] = useState(false);
+  const [saveErrors, setSaveErrors] = useState<SaveLineError[]>([]);
 
   // 현재 사용자 정보 가져오기
   useEffect(() => {
@@ -89,7 +100,7 @@ export function FileEditor({
       console.log(`파일 검색: 원본=${fname}, 디코딩=${decodedFileName}`);
 
       // 사용자별 파일 API에서 파일 목록 가져오기
-      const response = await fetch(`/api/users/${uid}/files`);
+      const response = await fetch(withSite(`/api/users/${uid}/files`, siteId));
       if (!response.ok) {
         throw new Error("파일 정보를 가져오는데 실패했습니다");
       }
@@ -131,27 +142,9 @@ export function FileEditor({
     }
   };
 
-  // 파일 확장자에 따른 MIME 타입 추론
-  const getMimeTypeFromFileName = (filename: string): string => {
-    const extension = filename.split(".").pop()?.toLowerCase() || "";
-    const mimeTypes: Record<string, string> = {
-      txt: "text/plain",
-      html: "text/html",
-      css: "text/css",
-      js: "application/javascript",
-      json: "application/json",
-      xml: "application/xml",
-      png: "image/png",
-      jpg: "image/jpeg",
-      jpeg: "image/jpeg",
-      gif: "image/gif",
-      pdf: "application/pdf",
-      md: "text/markdown",
-      csv: "text/csv",
-    };
-
-    return mimeTypes[extension] || "text/plain";
-  };
+  // 파일 확장자에 따른 MIME 타입 추론 (모르는 확장자는 텍스트로 편집)
+  const getMimeTypeFromFileName = (filename: string): string =>
+    lookupMimeType(filename) || "text/plain";
 
   // 파일 정보 가져오기 (fileId 방식)
   useEffect(() => {
@@ -176,7 +169,9 @@ export function FileEditor({
         console.log(`파일 ID 검색: 원본=${fileId}, 디코딩=${decodedFileId}`);
 
         // 사용자별 파일 API에서 파일 목록 가져오기
-        const response = await fetch(`/api/users/${currentUser.id}/files`);
+        const response = await fetch(
+          withSite(`/api/users/${currentUser.id}/files`, siteId)
+        );
         if (!response.ok) {
           throw new Error("파일 정보를 가져오는데 실패했습니다");
         }
@@ -272,7 +267,7 @@ export function FileEditor({
     try {
       // 사용자 기반 경로로 저장
       const response = await fetch(
-        `/api/users/${file.userId}/content/${file.filename}`,
+        withSite(`/api/users/${file.userId}/content/${file.filename}`, siteId),
         {
           method: "PUT",
           headers: {
@@ -282,7 +277,14 @@ export function FileEditor({
         }
       );
 
-      return response.ok;
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setSaveErrors(Array.isArray(data?.errors) ? data.errors : []);
+        return false;
+      }
+
+      setSaveErrors([]);
+      return true;
     } catch (error) {
       console.error("파일 저장 중 오류 발생:", error);
       return false;
@@ -346,6 +348,21 @@ export function FileEditor({
           </div>
         )}
 
+        {saveErrors.length > 0 && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 rounded dark:bg-red-900 dark:text-red-200">
+            <p className="font-medium mb-1">
+              설정 파일 형식이 잘못되어 저장하지 않았습니다
+            </p>
+            <ul className="text-sm list-disc list-inside">
+              {saveErrors.map((saveError) => (
+                <li key={`${saveError.line}-${saveError.message}`}>
+                  {saveError.line}번째 줄: {saveError.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {loading ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 dark:border-blue-400"></div>
@@ -356,6 +373,7 @@ export function FileEditor({
               fileId={file.id}
               filename={file.filename}
               userId={file.userId}
+              siteId={siteId}
               onSave={handleSaveContent}
             />
           </div>
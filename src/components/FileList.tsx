@@ -1,7 +1,22 @@
 import React, { useState, useEffect } from "react";
 import { FileEditor } from "./FileEditor";
 import { FileCreator } from "./FileCreator";
-import { FileUploader } from "./FileUploader";
+import {
+  FileUploader,
+  collectDroppedItems,
+  type UploadItem,
+} from "./FileUploader";
+import { TrashList } from "./TrashList";
+import { FolderPicker, type ConflictPolicy } from "./FolderPicker";
+import { SiteSettingsPanel } from "./SiteSettingsPanel";
+import { ShareDialog } from "./ShareDialog";
+import {
+  VisibilitySettings,
+  VISIBILITY_OPTIONS,
+  type AccessRule,
+} from "./VisibilitySettings";
+import { getMimeType, isTextMimeType } from "../services/mime";
+import { withSite } from "../services/siteScope";
 
 interface FileEntry {
   name: string;
@@ -23,10 +38,44 @@ interface User {
   username: string;
 }
 
+// 사용자의 사이트 (기본 사이트의 ID는 사용자 ID와 같음)
+interface Site {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  slug: string | null;
+  siteUrl: string;
+}
+
+// 방금 삭제한 항목 (실행 취소용)
+interface DeletedItem {
+  trashIds: string[];
+  label: string; // 알림에 표시할 이름 (예: 'index.html', 3개 항목)
+}
+
+// 일괄 작업 항목별 결과
+interface BatchResult {
+  action: "delete" | "move" | "copy";
+  path: string;
+  status: number;
+  error?: string;
+  trashItem?: { id: string };
+}
+
+// 삭제 후 실행 취소 알림을 표시하는 시간 (밀리초)
+const UNDO_TIMEOUT = 8000;
+
 interface DiskUsage {
   used: number;
-  total: number;
+  trashBytes?: number; // 사용량 중 휴지통이 차지하는 용량
+  total: number | null; // null이면 무제한
   percentage: number;
+  fileCount?: number;
+  maxFileCount?: number | null;
+  plan?: {
+    id: string;
+    name: string;
+  };
 }
 
 export function FileList() {
@@ -39,16 +88,36 @@ export function FileList() {
   const [editingPath, setEditingPath] = useState<string | null>(null);
   const [isCreatingFile, setIsCreatingFile] = useState(false);
   const [isUploadingFile, setIsUploadingFile] = useState(false);
+  const [droppedItems, setDroppedItems] = useState<UploadItem[] | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [diskUsage, setDiskUsage] = useState<DiskUsage | null>(null);
+  const [isViewingTrash, setIsViewingTrash] = useState(false);
+  const [showSiteSettings, setShowSiteSettings] = useState(false);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [currentSiteId, setCurrentSiteId] = useState<string | null>(null); // null이면 기본 사이트
+  const [accessRules, setAccessRules] = useState<AccessRule[]>([]);
+  const [sharingEntry, setSharingEntry] = useState<FileEntry | null>(null);
+  const [visibilityPath, setVisibilityPath] = useState<string | null>(null); // 공개 범위를 바꿀 경로 ("/"이면 사이트 전체)
+  const [lastDeleted, setLastDeleted] = useState<DeletedItem | null>(null);
 
   // 모달 관련 상태 추가
   const [showCreateFolderModal, setShowCreateFolderModal] = useState(false);
   const [newFolderName, setNewFolderName] = useState("");
   const [showRenameModal, setShowRenameModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [transferMode, setTransferMode] = useState<"move" | "copy" | null>(
+    null
+  );
   const [newName, setNewName] = useState("");
   const [selectedEntry, setSelectedEntry] = useState<FileEntry | null>(null);
+  const [isBulkTransfer, setIsBulkTransfer] = useState(false);
+
+  // 다중 선택 상태 (shift 클릭 범위 선택을 위해 마지막으로 클릭한 위치 보관)
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set());
+  const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(
+    null
+  );
 
   // 정렬 상태를 관리하는 상태 추가
   const [sortConfig, setSortConfig] = useState<{
@@ -89,6 +158,86 @@ export function FileList() {
     }
   };
 
+  // 사이트 목록 가져오기 (현재 사이트가 없어졌으면 기본 사이트로 전환)
+  const fetchSites = async () => {
+    if (!currentUser) return;
+
+    try {
+      const response = await fetch(`/api/users/${currentUser.id}/sites`);
+      if (response.ok) {
+        const data = await response.json();
+        setSites(data.sites);
+        if (
+          currentSiteId &&
+          !data.sites.some((site: Site) => site.id === currentSiteId)
+        ) {
+          setCurrentSiteId(null);
+        }
+      }
+    } catch (error) {
+      console.error("사이트 목록을 가져오는데 실패했습니다:", error);
+    }
+  };
+
+  // 현재 사이트의 공개 범위 규칙 가져오기
+  const fetchAccessRules = async () => {
+    if (!currentUser) return;
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${currentUser.id}/site/access`, currentSiteId)
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setAccessRules(data.rules);
+      }
+    } catch (error) {
+      console.error("공개 범위 규칙을 가져오는데 실패했습니다:", error);
+    }
+  };
+
+  // 경로에 직접 지정한 공개 범위 규칙 (앞뒤 /는 무시하고 비교)
+  const getAccessRule = (path: string) => {
+    const normalized = path.replace(/^\/+|\/+$/g, "");
+    return (
+      accessRules.find(
+        (rule) => rule.path.replace(/^\/+|\/+$/g, "") === normalized
+      ) || null
+    );
+  };
+
+  // 공개 범위 표시 이름
+  const getVisibilityLabel = (rule: AccessRule | null) =>
+    VISIBILITY_OPTIONS.find((option) => option.value === rule?.visibility)
+      ?.label || "공개";
+
+  // 새 사이트 만들기
+  const createSite = async () => {
+    if (!currentUser) return;
+
+    const name = prompt("새 사이트 이름을 입력하세요")?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch(`/api/users/${currentUser.id}/sites`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        await handleApiError(response, "사이트 생성");
+        return;
+      }
+
+      const data = await response.json();
+      setSites([...sites, data.site]);
+      setCurrentSiteId(data.site.id);
+    } catch (error) {
+      alert("사이트 생성 중 오류가 발생했습니다.");
+    }
+  };
+
   // 현재 경로의 파일/폴더 목록 가져오기
   const fetchDirectoryContents = async (path = "/") => {
     if (!currentUser) return;
@@ -114,6 +263,7 @@ export function FileList() {
         url = `/api/users/${currentUser.id}/files/${encodedSubPath}`;
       }
 
+      url = withSite(url, currentSiteId);
       console.log(`파일 목록 가져오기: ${url}`); // 디버깅 로그
 
       const response = await fetch(url);
@@ -147,6 +297,8 @@ export function FileList() {
       console.log("받은 데이터:", data); // 응답 데이터 로그
 
       setDirectoryInfo(data);
+      setSelectedNames(new Set());
+      setLastSelectedIndex(null);
       setCurrentPath(data.path);
     } catch (err) {
       console.error("파일 목록 가져오기 오류:", err); // 자세한 오류 로그
@@ -166,13 +318,28 @@ export function FileList() {
     fetchCurrentUser();
   }, []);
 
-  // 사용자 정보가 변경되면 현재 경로의 내용과 디스크 사용량 가져오기
+  // 사용자 정보가 변경되면 사이트 목록 가져오기
+  useEffect(() => {
+    if (currentUser) {
+      fetchSites();
+    }
+  }, [currentUser]);
+
+  // 사용자나 사이트가 바뀌면 사이트 최상위의 내용과 디스크 사용량 가져오기
   useEffect(() => {
     if (currentUser) {
       fetchDirectoryContents("/");
       fetchDiskUsage();
+      fetchAccessRules();
     }
-  }, [currentUser]);
+  }, [currentUser, currentSiteId]);
+
+  // 실행 취소 알림은 일정 시간 후 자동으로 닫기
+  useEffect(() => {
+    if (!lastDeleted) return;
+    const timer = setTimeout(() => setLastDeleted(null), UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [lastDeleted]);
 
   // 특정 경로의 내용 가져오기
   const navigateToPath = (path: string) => {
@@ -232,15 +399,36 @@ export function FileList() {
   // 파일 업로드 모드 종료
   const handleCancelUpload = () => {
     setIsUploadingFile(false);
+    setDroppedItems(null);
   };
 
   // 파일 업로드 완료
   const handleUploadSuccess = () => {
     setIsUploadingFile(false);
+    setDroppedItems(null);
     fetchDirectoryContents(currentPath);
     fetchDiskUsage(); // 디스크 사용량 업데이트
   };
 
+  // 파일 목록에 파일/폴더를 끌어다 놓으면 현재 경로로 업로드
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragOver(false);
+
+    const items = await collectDroppedItems(e.dataTransfer);
+    if (items.length > 0) {
+      setDroppedItems(items);
+      setIsUploadingFile(true);
+    }
+  };
+
   // API 오류 응답 처리
   const handleApiError = async (response: Response, operation: string) => {
     try {
@@ -261,8 +449,15 @@ export function FileList() {
           ? formatFileSize(data.diskUsage.required)
           : "추가 공간";
 
+        // 삭제한 파일은 휴지통을 비워야 용량이 확보됨
+        const freeSpaceHint = data.diskUsage?.trashBytes
+          ? `휴지통에 있는 ${formatFileSize(
+              data.diskUsage.trashBytes
+            )}도 용량에 포함되므로 휴지통을 비워 공간을 확보하세요.`
+          : "일부 파일을 삭제하고 휴지통을 비워 공간을 확보하세요.";
+
         alert(
-          `디스크 용량 부족: ${operation}을(를) 완료하기 위해 ${requiredSpace}이(가) 필요합니다. 일부 파일을 삭제하여 공간을 확보하세요.`
+          `디스크 용량 부족: ${operation}을(를) 완료하기 위해 ${requiredSpace}이(가) 필요합니다. ${freeSpaceHint}`
         );
       } else {
         // 일반 오류
@@ -305,7 +500,10 @@ export function FileList() {
           : `${currentPath}/${newFolderName}`;
 
       const response = await fetch(
-        `/api/users/${currentUser.id}/directory/create`,
+        withSite(
+          `/api/users/${currentUser.id}/directory/create`,
+          currentSiteId
+        ),
         {
           method: "POST",
           headers: {
@@ -360,7 +558,7 @@ export function FileList() {
           : `${currentPath}/${newName}`;
 
       const response = await fetch(
-        `/api/users/${currentUser.id}/files/rename`,
+        withSite(`/api/users/${currentUser.id}/files/rename`, currentSiteId),
         {
           method: "POST",
           headers: {
@@ -384,6 +582,7 @@ export function FileList() {
       // 이름 변경 성공 시 현재 디렉토리 새로고침
       fetchDirectoryContents(currentPath);
       fetchDiskUsage(); // 디스크 사용량 업데이트
+      fetchAccessRules(); // 폴더 공개 범위도 새 이름으로 이동
       setShowRenameModal(false);
     } catch (error) {
       console.error(`이름 변경 중 오류 발생:`, error);
@@ -412,7 +611,7 @@ export function FileList() {
           : `${currentPath}/${selectedEntry.name}`;
 
       const response = await fetch(
-        `/api/users/${currentUser.id}/files/delete`,
+        withSite(`/api/users/${currentUser.id}/files/delete`, currentSiteId),
         {
           method: "POST",
           headers: {
@@ -432,7 +631,14 @@ export function FileList() {
         return;
       }
 
-      // 삭제 성공 시 현재 디렉토리 새로고침
+      // 삭제 성공 시 실행 취소 알림 표시 후 현재 디렉토리 새로고침
+      const data = await response.json();
+      if (data.trashItem) {
+        setLastDeleted({
+          trashIds: [data.trashItem.id],
+          label: `'${selectedEntry.name}'`,
+        });
+      }
       fetchDirectoryContents(currentPath);
       fetchDiskUsage(); // 디스크 사용량 업데이트
       setShowDeleteModal(false);
@@ -442,6 +648,282 @@ export function FileList() {
     }
   };
 
+  // 방금 삭제한 항목 복원 (실행 취소)
+  const undoDelete = async () => {
+    if (!lastDeleted || !currentUser) return;
+
+    const deleted = lastDeleted;
+    setLastDeleted(null);
+
+    try {
+      for (const trashId of deleted.trashIds) {
+        const response = await fetch(
+          `/api/users/${currentUser.id}/trash/${trashId}/restore`,
+          { method: "POST" }
+        );
+
+        if (!response.ok) {
+          await handleApiError(response, `${deleted.label} 복원`);
+          break;
+        }
+      }
+
+      fetchDirectoryContents(currentPath);
+      fetchDiskUsage(); // 디스크 사용량 업데이트
+    } catch (error) {
+      console.error(`복원 중 오류 발생:`, error);
+      alert(`복원 중 오류가 발생했습니다.`);
+    }
+  };
+
+  // 휴지통 보기 종료
+  const handleCloseTrash = () => {
+    setIsViewingTrash(false);
+    fetchDirectoryContents(currentPath);
+  };
+
+  // 이동/복사 폴더 선택 대화상자 표시
+  const openTransferDialog = (entry: FileEntry, mode: "move" | "copy") => {
+    setSelectedEntry(entry);
+    setIsBulkTransfer(false);
+    setTransferMode(mode);
+  };
+
+  // 선택한 여러 항목의 이동/복사 폴더 선택 대화상자 표시
+  const openBulkTransferDialog = (mode: "move" | "copy") => {
+    setIsBulkTransfer(true);
+    setTransferMode(mode);
+  };
+
+  // 현재 폴더 기준 항목 경로
+  const getEntryPath = (name: string) =>
+    currentPath === "/" ? `${currentPath}${name}` : `${currentPath}/${name}`;
+
+  // 항목 선택/해제 (shift 클릭이면 마지막으로 클릭한 항목까지 범위 적용)
+  const toggleSelection = (index: number, shiftKey: boolean) => {
+    const entries = getSortedEntries();
+    const entry = entries[index];
+    if (!entry) return;
+
+    const next = new Set(selectedNames);
+    const select = !next.has(entry.name);
+
+    const [from, to] =
+      shiftKey && lastSelectedIndex !== null
+        ? [
+            Math.min(lastSelectedIndex, index),
+            Math.max(lastSelectedIndex, index),
+          ]
+        : [index, index];
+
+    for (const { name } of entries.slice(from, to + 1)) {
+      if (select) next.add(name);
+      else next.delete(name);
+    }
+
+    setSelectedNames(next);
+    setLastSelectedIndex(index);
+  };
+
+  // 전체 선택/해제
+  const toggleSelectAll = () => {
+    const entries = directoryInfo?.entries || [];
+    setSelectedNames(
+      selectedNames.size === entries.length
+        ? new Set()
+        : new Set(entries.map((entry) => entry.name))
+    );
+    setLastSelectedIndex(null);
+  };
+
+  // 여러 작업을 한 번에 실행하고 실패한 항목만 알림
+  const runBatch = async (
+    operations: {
+      action: "delete" | "move" | "copy";
+      path: string;
+      destination?: string;
+      conflict?: ConflictPolicy;
+    }[],
+    operation: string
+  ): Promise<BatchResult[] | null> => {
+    if (!currentUser) return null;
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${currentUser.id}/files/batch`, currentSiteId),
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ operations }),
+        }
+      );
+
+      if (!response.ok) {
+        await handleApiError(response, operation);
+        return null;
+      }
+
+      const data = await response.json();
+      const results: BatchResult[] = data.results;
+
+      // 일괄 작업 응답에 포함된 최종 사용량으로 갱신
+      if (data.diskUsage) {
+        setDiskUsage(data.diskUsage);
+      }
+
+      const failed = results.filter((result) => result.status !== 200);
+      if (failed.length > 0) {
+        alert(
+          `${operation}: ${failed.length}개 항목 실패\n` +
+            failed
+              .map((result) => `${result.path}: ${result.error || "오류"}`)
+              .join("\n")
+        );
+      }
+
+      fetchDirectoryContents(currentPath);
+      return results;
+    } catch (error) {
+      console.error(`${operation} 중 오류 발생:`, error);
+      alert(`${operation} 중 오류가 발생했습니다.`);
+      return null;
+    }
+  };
+
+  // 선택한 항목 일괄 삭제
+  const deleteSelected = async () => {
+    const names = [...selectedNames];
+    if (names.length === 0) return;
+    if (!confirm(`선택한 ${names.length}개 항목을 삭제하시겠습니까?`)) return;
+
+    const results = await runBatch(
+      names.map((name) => ({ action: "delete", path: getEntryPath(name) })),
+      "일괄 삭제"
+    );
+
+    const deleted = (results || []).filter((result) => result.trashItem);
+    if (deleted.length > 0) {
+      setLastDeleted({
+        trashIds: deleted.map((result) => result.trashItem!.id),
+        label:
+          deleted.length === 1
+            ? `'${deleted[0]!.path.split("/").pop()}'`
+            : `${deleted.length}개 항목`,
+      });
+    }
+  };
+
+  // 선택한 항목 ZIP 다운로드
+  const downloadSelected = () => {
+    if (!currentUser || selectedNames.size === 0) return;
+
+    const params = new URLSearchParams();
+    for (const name of selectedNames) {
+      params.append("path", getEntryPath(name));
+    }
+    window.location.href = withSite(
+      `/api/users/${currentUser.id}/download?${params}`,
+      currentSiteId
+    );
+  };
+
+  // 폴더 전체를 ZIP으로 다운로드 (경로가 "/"이면 전체 사이트)
+  const downloadFolder = (path: string) => {
+    if (!currentUser) return;
+
+    const encodedPath = path
+      .split("/")
+      .filter(Boolean)
+      .map((part) => encodeURIComponent(part))
+      .join("/");
+    window.location.href = withSite(
+      encodedPath
+        ? `/api/users/${currentUser.id}/archive/${encodedPath}`
+        : `/api/users/${currentUser.id}/archive`,
+      currentSiteId
+    );
+  };
+
+  // 선택한 폴더로 항목 이동 또는 복사 실행
+  const transferEntry = async (
+    destination: string,
+    conflict: ConflictPolicy
+  ) => {
+    if (!transferMode || !currentUser) {
+      setTransferMode(null);
+      return;
+    }
+
+    const label = transferMode === "move" ? "이동" : "복사";
+
+    // 여러 항목은 일괄 작업 API로 처리
+    if (isBulkTransfer) {
+      const results = await runBatch(
+        [...selectedNames].map((name) => ({
+          action: transferMode,
+          path: getEntryPath(name),
+          destination,
+          conflict,
+        })),
+        `일괄 ${label}`
+      );
+      if (results) {
+        fetchAccessRules();
+        setTransferMode(null);
+      }
+      return;
+    }
+
+    if (!selectedEntry) {
+      setTransferMode(null);
+      return;
+    }
+
+    try {
+      const itemPath =
+        currentPath === "/"
+          ? `${currentPath}${selectedEntry.name}`
+          : `${currentPath}/${selectedEntry.name}`;
+
+      const response = await fetch(
+        withSite(
+          `/api/users/${currentUser.id}/files/${transferMode}`,
+          currentSiteId
+        ),
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            path: itemPath,
+            destination,
+            conflict,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        await handleApiError(
+          response,
+          `${selectedEntry.isDirectory ? "폴더" : "파일"} ${label}`
+        );
+        return;
+      }
+
+      // 성공 시 현재 디렉토리 새로고침
+      fetchDirectoryContents(currentPath);
+      fetchDiskUsage(); // 디스크 사용량 업데이트
+      fetchAccessRules(); // 폴더 공개 범위도 함께 이동/복사
+      setTransferMode(null);
+    } catch (error) {
+      console.error(`${label} 중 오류 발생:`, error);
+      alert(`${label} 중 오류가 발생했습니다.`);
+    }
+  };
+
   // 기존 handleRename 함수 수정
   const handleRename = (name: string, isDirectory: boolean) => {
     const entry = directoryInfo?.entries.find((e) => e.name === name);
@@ -460,19 +942,23 @@ export function FileList() {
 
   // 파일 타입에 따른 아이콘 반환
   const getFileIcon = (name: string): string => {
-    const extension = name.split(".").pop()?.toLowerCase() || "";
+    const mimeType = getMimeType(name);
 
-    if (extension === "html" || extension === "htm") {
+    if (mimeType === "text/html") {
       return "📄";
-    } else if (extension === "css") {
+    } else if (mimeType === "text/css") {
       return "🎨";
-    } else if (extension === "js") {
+    } else if (mimeType === "text/javascript") {
       return "📜";
-    } else if (
-      ["jpg", "jpeg", "png", "gif", "webp", "svg"].includes(extension)
-    ) {
+    } else if (mimeType.startsWith("image/")) {
       return "🖼️";
-    } else if (["txt", "md", "json", "xml"].includes(extension)) {
+    } else if (mimeType.startsWith("video/")) {
+      return "🎬";
+    } else if (mimeType.startsWith("audio/")) {
+      return "🎵";
+    } else if (mimeType.startsWith("font/")) {
+      return "🔤";
+    } else if (isTextMimeType(mimeType)) {
       return "📝";
     } else {
       return "📄";
@@ -582,6 +1068,11 @@ export function FileList() {
     });
   };
 
+  // 현재 선택한 사이트 (목록을 불러오기 전이면 undefined)
+  const currentSite = sites.find(
+    (site) => site.id === (currentSiteId || currentUser?.id)
+  );
+
   // 에디터 모드일 때 렌더링
   if (editingPath) {
     if (!currentUser) return null;
@@ -590,6 +1081,7 @@ export function FileList() {
       <FileEditor
         contentPath={editingPath}
         userId={currentUser.id}
+        siteId={currentSiteId}
         onClose={handleCloseEditor}
       />
     );
@@ -602,6 +1094,7 @@ export function FileList() {
     return (
       <FileCreator
         userId={currentUser.id}
+        siteId={currentSiteId}
         currentPath={currentPath}
         onFileCreated={handleFileCreated}
         onCancel={handleCancelCreateFile}
@@ -616,9 +1109,11 @@ export function FileList() {
     return (
       <FileUploader
         userId={currentUser.id}
+        siteId={currentSiteId}
         currentPath={currentPath}
         onUploadSuccess={handleUploadSuccess}
         onCancel={handleCancelUpload}
+        initialItems={droppedItems || undefined}
       />
     );
   }
@@ -648,7 +1143,8 @@ export function FileList() {
 
     const percentage = Math.min(diskUsage.percentage, 100); // 100% 초과하지 않도록
     const usedSize = formatFileSize(diskUsage.used);
-    const totalSize = formatFileSize(diskUsage.total);
+    const totalSize =
+      diskUsage.total === null ? "무제한" : formatFileSize(diskUsage.total);
 
     // 퍼센트에 따른 색상 결정
     let barColor = "bg-green-500 dark:bg-green-600";
@@ -660,6 +1156,11 @@ export function FileList() {
         <div className="flex justify-between mb-1">
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
             디스크 사용량
+            {diskUsage.plan && (
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                ({diskUsage.plan.name} 요금제)
+              </span>
+            )}
           </span>
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
             {percentage.toFixed(1)}%
@@ -672,13 +1173,38 @@ export function FileList() {
           ></div>
         </div>
         <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
-          <span>{usedSize} 사용 중</span>
+          <span>
+            {usedSize} 사용 중
+            {!!diskUsage.trashBytes &&
+              ` (휴지통 ${formatFileSize(diskUsage.trashBytes)} 포함)`}
+            {diskUsage.fileCount !== undefined &&
+              ` · 파일 ${diskUsage.fileCount}${
+                diskUsage.maxFileCount ? `/${diskUsage.maxFileCount}` : ""
+              }개`}
+          </span>
           <span>총 {totalSize}</span>
         </div>
       </div>
     );
   };
 
+  // 휴지통 보기 모드일 때 렌더링
+  if (isViewingTrash) {
+    if (!currentUser) return null;
+
+    return (
+      <div className="space-y-4">
+        <DiskUsageBar />
+        <TrashList
+          userId={currentUser.id}
+          siteId={currentSiteId}
+          onClose={handleCloseTrash}
+          onChanged={fetchDiskUsage}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       {/* 디스크 사용량 표시 */}
@@ -691,6 +1217,30 @@ export function FileList() {
             <h2 className="text-xl font-semibold text-gray-800 dark:text-white">
               파일 목록
             </h2>
+            {sites.length > 0 && (
+              <select
+                value={currentSite?.id || ""}
+                onChange={(e) =>
+                  setCurrentSiteId(
+                    e.target.value === currentUser?.id ? null : e.target.value
+                  )
+                }
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+                title="사이트 전환"
+              >
+                {sites.map((site) => (
+                  <option key={site.id} value={site.id}>
+                    {site.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={createSite}
+              className="px-2 py-1 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              + 새 사이트
+            </button>
             <span className="text-sm text-gray-500 dark:text-gray-400">
               현재 경로: {currentPath || "/"}
             </span>
@@ -738,13 +1288,96 @@ export function FileList() {
           >
             파일 업로드
           </button>
+          <button
+            onClick={() => downloadFolder("/")}
+            className="px-3 py-1 bg-indigo-500 text-white rounded-md hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700"
+          >
+            전체 다운로드
+          </button>
+          <button
+            onClick={() => setIsViewingTrash(true)}
+            className="px-3 py-1 bg-gray-500 text-white rounded-md hover:bg-gray-600 dark:bg-gray-600 dark:hover:bg-gray-700"
+          >
+            휴지통
+          </button>
+          <button
+            onClick={() => setShowSiteSettings(true)}
+            className="px-3 py-1 bg-teal-500 text-white rounded-md hover:bg-teal-600 dark:bg-teal-600 dark:hover:bg-teal-700"
+          >
+            사이트 설정
+          </button>
+          <button
+            onClick={() => setVisibilityPath("/")}
+            className="px-3 py-1 bg-pink-500 text-white rounded-md hover:bg-pink-600 dark:bg-pink-600 dark:hover:bg-pink-700"
+          >
+            공개 범위: {getVisibilityLabel(getAccessRule("/"))}
+          </button>
         </div>
 
-        {/* 파일 목록 테이블 */}
-        <div className="overflow-x-auto">
+        {/* 선택 항목 일괄 작업 */}
+        {selectedNames.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 px-3 py-2 bg-blue-50 dark:bg-blue-900/30 rounded-md">
+            <span className="text-sm text-gray-700 dark:text-gray-300 mr-2">
+              {selectedNames.size}개 선택됨
+            </span>
+            <button
+              onClick={deleteSelected}
+              className="px-3 py-1 text-sm bg-red-500 text-white rounded-md hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700"
+            >
+              삭제
+            </button>
+            <button
+              onClick={() => openBulkTransferDialog("move")}
+              className="px-3 py-1 text-sm bg-teal-500 text-white rounded-md hover:bg-teal-600 dark:bg-teal-600 dark:hover:bg-teal-700"
+            >
+              이동
+            </button>
+            <button
+              onClick={() => openBulkTransferDialog("copy")}
+              className="px-3 py-1 text-sm bg-cyan-500 text-white rounded-md hover:bg-cyan-600 dark:bg-cyan-600 dark:hover:bg-cyan-700"
+            >
+              복사
+            </button>
+            <button
+              onClick={downloadSelected}
+              className="px-3 py-1 text-sm bg-indigo-500 text-white rounded-md hover:bg-indigo-600 dark:bg-indigo-600 dark:hover:bg-indigo-700"
+            >
+              ZIP 다운로드
+            </button>
+            <button
+              onClick={() => setSelectedNames(new Set())}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              선택 해제
+            </button>
+          </div>
+        )}
+
+        {/* 파일 목록 테이블 (파일/폴더를 끌어다 놓아 업로드) */}
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+          className={`overflow-x-auto rounded-md ${
+            isDragOver
+              ? "ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/20"
+              : ""
+          }`}
+        >
           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
             <thead className="bg-gray-50 dark:bg-gray-700">
               <tr>
+                <th scope="col" className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label="전체 선택"
+                    checked={
+                      !!directoryInfo?.entries.length &&
+                      selectedNames.size === directoryInfo.entries.length
+                    }
+                    onChange={toggleSelectAll}
+                  />
+                </th>
                 <th
                   scope="col"
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
@@ -776,8 +1409,25 @@ export function FileList() {
               {getSortedEntries().map((entry, index) => (
                 <tr
                   key={index}
-                  className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                  className={
+                    selectedNames.has(entry.name)
+                      ? "bg-blue-50 dark:bg-blue-900/30"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }
                 >
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      aria-label={`${entry.name} 선택`}
+                      checked={selectedNames.has(entry.name)}
+                      onChange={(e) =>
+                        toggleSelection(
+                          index,
+                          (e.nativeEvent as MouseEvent).shiftKey
+                        )
+                      }
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {entry.isDirectory ? (
                       <button
@@ -793,6 +1443,13 @@ export function FileList() {
                         className="flex items-center text-blue-600 hover:underline"
                       >
                         <span className="mr-2">📁</span> {entry.name}
+                        {getAccessRule(getEntryPath(entry.name)) && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-pink-100 text-pink-800 dark:bg-pink-900/50 dark:text-pink-300">
+                            {getVisibilityLabel(
+                              getAccessRule(getEntryPath(entry.name))
+                            )}
+                          </span>
+                        )}
                       </button>
                     ) : (
                       <a
@@ -824,6 +1481,26 @@ export function FileList() {
                             편집
                           </button>
                         )}
+                      {entry.isDirectory && (
+                        <button
+                          onClick={() =>
+                            downloadFolder(getEntryPath(entry.name))
+                          }
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          다운로드
+                        </button>
+                      )}
+                      {entry.isDirectory && (
+                        <button
+                          onClick={() =>
+                            setVisibilityPath(getEntryPath(entry.name))
+                          }
+                          className="text-pink-600 hover:text-pink-900"
+                        >
+                          공개 범위
+                        </button>
+                      )}
                       <button
                         onClick={() =>
                           handleRename(entry.name, entry.isDirectory)
@@ -832,6 +1509,24 @@ export function FileList() {
                       >
                         이름변경
                       </button>
+                      <button
+                        onClick={() => openTransferDialog(entry, "move")}
+                        className="text-teal-600 hover:text-teal-900"
+                      >
+                        이동
+                      </button>
+                      <button
+                        onClick={() => openTransferDialog(entry, "copy")}
+                        className="text-cyan-600 hover:text-cyan-900"
+                      >
+                        복사
+                      </button>
+                      <button
+                        onClick={() => setSharingEntry(entry)}
+                        className="text-green-600 hover:text-green-900"
+                      >
+                        공유
+                      </button>
                       <button
                         onClick={() =>
                           handleDelete(entry.name, entry.isDirectory)
@@ -913,6 +1608,71 @@ export function FileList() {
         </div>
       )}
 
+      {/* 이동/복사 폴더 선택 대화상자 */}
+      {transferMode && currentUser && (isBulkTransfer || selectedEntry) && (
+        <FolderPicker
+          userId={currentUser.id}
+          siteId={currentSiteId}
+          title={`${
+            isBulkTransfer
+              ? `선택한 ${selectedNames.size}개 항목`
+              : `'${selectedEntry!.name}'`
+          } ${transferMode === "move" ? "이동" : "복사"}`}
+          confirmLabel={transferMode === "move" ? "여기로 이동" : "여기에 복사"}
+          initialPath={currentPath}
+          onConfirm={transferEntry}
+          onCancel={() => setTransferMode(null)}
+        />
+      )}
+
+      {/* 공유 링크 대화상자 */}
+      {sharingEntry && currentUser && (
+        <ShareDialog
+          userId={currentUser.id}
+          siteId={currentSiteId}
+          path={getEntryPath(sharingEntry.name)}
+          name={sharingEntry.name}
+          onClose={() => setSharingEntry(null)}
+        />
+      )}
+
+      {/* 공개 범위 설정 대화상자 */}
+      {visibilityPath && currentUser && (
+        <VisibilitySettings
+          userId={currentUser.id}
+          siteId={currentSiteId}
+          path={visibilityPath}
+          title={
+            visibilityPath === "/"
+              ? "사이트 공개 범위"
+              : `'${visibilityPath}' 폴더 공개 범위`
+          }
+          rule={getAccessRule(visibilityPath)}
+          onClose={() => setVisibilityPath(null)}
+          onSaved={() => {
+            setVisibilityPath(null);
+            fetchAccessRules();
+          }}
+        />
+      )}
+
+      {/* 사이트 설정 대화상자 */}
+      {showSiteSettings && currentUser && currentSite && (
+        <SiteSettingsPanel
+          userId={currentUser.id}
+          siteId={currentSite.id}
+          siteName={currentSite.name}
+          isDefaultSite={currentSite.isDefault}
+          onClose={() => setShowSiteSettings(false)}
+          onSiteChanged={fetchSites}
+          onSiteDeleted={() => {
+            setShowSiteSettings(false);
+            setCurrentSiteId(null);
+            fetchSites();
+          }}
+        />
+      )}
+
       {/* 삭제 확인 모달 */}
       {showDeleteModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -923,6 +1683,7 @@ export function FileList() {
             <p className="mb-4 text-gray-700 dark:text-gray-300">
               '{selectedEntry?.name}'을(를) 삭제하시겠습니까?
               {selectedEntry?.isDirectory && " 폴더 내 모든 파일이 삭제됩니다."}
+              {" 삭제한 항목은 휴지통에서 복원할 수 있습니다."}
             </p>
             <div className="flex justify-end gap-2">
               <button
@@ -941,6 +1702,28 @@ export function FileList() {
           </div>
         </div>
       )}
+
+      {/* 삭제 실행 취소 알림 */}
+      {lastDeleted && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 text-white px-4 py-3 rounded-lg shadow-lg dark:bg-gray-700">
+          <span className="text-sm">
+            {lastDeleted.label}을(를) 휴지통으로 이동했습니다.
+          </span>
+          <button
+            onClick={undoDelete}
+            className="text-sm font-semibold text-blue-300 hover:text-blue-200"
+          >
+            실행 취소
+          </button>
+          <button
+            onClick={() => setLastDeleted(null)}
+            className="text-gray-400 hover:text-gray-200"
+            aria-label="닫기"
+          >
+            ✕
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,21 +1,188 @@
-import React, { useState, FormEvent, useRef } from "react";
+import React, { useState, useEffect, FormEvent, useRef } from "react";
+import { withSite } from "../services/siteScope";
 
 interface FileUploaderProps {
   onUploadSuccess: (fileId?: string, filename?: string) => void;
   onCancel: () => void;
   userId: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
   currentPath: string;
+  initialItems?: UploadItem[]; // 파일 목록에 끌어다 놓은 파일 (바로 업로드 시작)
+}
+
+// 업로드할 파일과 현재 경로 기준 상대 경로 (폴더 업로드 시 하위 경로 유지)
+export interface UploadItem {
+  file: File;
+  relativePath: string;
+}
+
+// 파일별 업로드 상태
+interface UploadStatus {
+  state: "uploading" | "done" | "error";
+  progress: number; // 0 ~ 100
+  error?: string;
+}
+
+// 업로드 API 응답 (실패하면 error와 용량 정보, 성공하면 파일별 결과)
+interface UploadResponse {
+  error?: string;
+  diskUsage?: { required?: number; trashBytes?: number };
+  files?: { status: number; error?: string }[];
+  failed?: number;
+}
+
+// 끌어다 놓은 항목에서 파일 목록 추출 (폴더는 하위 파일까지 재귀적으로 읽음)
+export async function collectDroppedItems(
+  dataTransfer: DataTransfer
+): Promise<UploadItem[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // 파일 시스템 API를 지원하지 않으면 파일만 업로드
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({
+      file,
+      relativePath: file.name,
+    }));
+  }
+
+  const items: UploadItem[] = [];
+
+  const readEntry = async (entry: FileSystemEntry, prefix: string) => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      items.push({ file, relativePath: prefix + file.name });
+      return;
+    }
+
+    // readEntries는 한 번에 일부만 반환하므로 빈 배열이 나올 때까지 반복
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    while (true) {
+      const children = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      );
+      if (children.length === 0) break;
+      for (const child of children) {
+        await readEntry(child, `${prefix}${entry.name}/`);
+      }
+    }
+  };
+
+  for (const entry of entries) {
+    await readEntry(entry, "");
+  }
+  return items;
+}
+
+// 이 크기를 넘는 파일은 조각으로 나누어 이어 올리기 업로드 사용
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+// 조각 하나의 크기
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// 연결이 끊겼을 때 같은 위치에서 다시 시도하는 횟수
+const MAX_CHUNK_RETRIES = 5;
+
+// 페이지를 새로 열어도 이어 올릴 수 있도록 업로드 ID를 보관하는 키 (기본 사이트의 ID는 사용자 ID와 같음)
+function getUploadStorageKey(siteId: string, path: string, file: File) {
+  return `upload:${siteId}:${path}:${file.size}:${file.lastModified}`;
+}
+
+// 서버가 지금까지 받은 위치 조회
+async function getUploadOffset(uploadUrl: string): Promise<number> {
+  const response = await fetch(uploadUrl, { method: "HEAD" });
+  if (!response.ok) {
+    throw new Error("업로드를 찾을 수 없습니다");
+  }
+  return Number(response.headers.get("Upload-Offset")) || 0;
+}
+
+// 같은 파일의 중단된 업로드가 있으면 이어서, 없으면 새로 생성 (업로드 URL 반환)
+async function resumeOrCreateUpload(
+  userId: string,
+  siteId: string | null | undefined,
+  path: string,
+  file: File
+): Promise<string> {
+  const key = getUploadStorageKey(siteId || userId, path, file);
+  const savedId = localStorage.getItem(key);
+  if (savedId) {
+    const uploadUrl = `/api/users/${userId}/uploads/${savedId}`;
+    const response = await fetch(uploadUrl, { method: "HEAD" });
+    if (response.ok) {
+      return uploadUrl;
+    }
+    localStorage.removeItem(key);
+  }
+
+  const response = await fetch(
+    withSite(`/api/users/${userId}/uploads`, siteId),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ path, size: file.size }),
+    }
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "업로드를 시작하지 못했습니다");
+  }
+
+  localStorage.setItem(key, data.upload.id);
+  return `/api/users/${userId}/uploads/${data.upload.id}`;
+}
+
+// 완료한 업로드 ID 삭제
+function forgetUpload(
+  userId: string,
+  siteId: string | null | undefined,
+  path: string,
+  file: File
+) {
+  localStorage.removeItem(getUploadStorageKey(siteId || userId, path, file));
 }
 
 export function FileUploader({
   onUploadSuccess,
   onCancel,
   userId,
+  siteId,
   currentPath,
+  initialItems,
 }: FileUploaderProps) {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [maxFileSize, setMaxFileSize] = useState<number | null>(null);
+  const [items, setItems] = useState<UploadItem[]>(initialItems || []);
+  const [statuses, setStatuses] = useState<UploadStatus[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [extractZip, setExtractZip] = useState(false);
+  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // 요금제의 파일당 최대 크기 가져오기
+  useEffect(() => {
+    fetch("/api/storage/usage")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setMaxFileSize(data?.maxFileSize ?? null))
+      .catch(() => setMaxFileSize(null));
+  }, []);
+
+  // 폴더 선택 입력 활성화 (React 속성으로 지정할 수 없어 직접 설정)
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  // 끌어다 놓은 파일이 있으면 바로 업로드
+  useEffect(() => {
+    if (initialItems && initialItems.length > 0) {
+      uploadItems(initialItems);
+    }
+  }, []);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " bytes";
@@ -23,83 +190,132 @@ export function FileUploader({
     else return (bytes / (1024 * 1024)).toFixed(1) + " MB";
   };
 
-  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  // 파일/폴더 선택 입력에서 업로드 목록 만들기
+  const selectFiles = (fileList: FileList | null) => {
+    const selected = Array.from(fileList || []).map((file) => ({
+      file,
+      // 폴더 선택 시 webkitRelativePath에 선택한 폴더 이름부터의 경로가 들어 있음
+      relativePath: file.webkitRelativePath || file.name,
+    }));
+    setItems(selected);
+    setStatuses([]);
     setError(null);
+    setExtractZip(false);
+  };
 
-    const fileInput = fileInputRef.current;
-    if (!fileInput || !fileInput.files || fileInput.files.length === 0) {
-      setError("파일을 선택해주세요.");
-      return;
-    }
+  // 파일별 상태 일부 갱신
+  const updateStatuses = (
+    update: (status: UploadStatus, index: number) => UploadStatus
+  ) => {
+    setStatuses((previous) => previous.map(update));
+  };
 
-    const file = fileInput.files[0];
+  // 파일 하나의 상태 갱신
+  const updateStatus = (index: number, status: Partial<UploadStatus>) => {
+    updateStatuses((current, i) =>
+      i === index ? { ...current, ...status } : current
+    );
+  };
 
-    // 10MB 크기 제한 검사
-    const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-    if (file.size > MAX_SIZE) {
-      setError("파일 크기는 10MB를 초과할 수 없습니다.");
-      return;
+  // 작은 파일들을 한 번의 요청으로 업로드 (진행률은 요청 본문에서의 파일 위치로 계산)
+  // 실패한 파일 수를 반환
+  const uploadBatch = async (
+    uploadList: UploadItem[],
+    indices: number[]
+  ): Promise<number> => {
+    const formData = new FormData();
+    for (const index of indices) {
+      formData.append("file", uploadList[index]!.file);
+      formData.append("relativePath", uploadList[index]!.relativePath);
     }
 
-    setLoading(true);
+    // 사용자 ID와 현재 경로 추가
+    formData.append("userId", userId);
+    formData.append("path", currentPath);
+
+    // 각 파일이 요청 본문에서 끝나는 위치 (진행률 계산용)
+    const ends: number[] = [];
+    indices.reduce((offset, index) => {
+      ends.push(offset + uploadList[index]!.file.size);
+      return offset + uploadList[index]!.file.size;
+    }, 0);
+    const totalSize = ends[ends.length - 1] || 0;
 
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      // 사용자 ID와 현재 경로 추가
-      formData.append("userId", userId);
-      formData.append("path", currentPath);
-
-      // 디버깅 로그 추가
-      console.log("업로드 요청 정보:", {
-        url: `/api/users/${userId}/upload`,
-        파일명: file.name,
-        파일크기: file.size,
-        경로: currentPath,
-      });
+      const { status, data } = await new Promise<{
+        status: number;
+        data: UploadResponse;
+      }>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open("POST", withSite(`/api/users/${userId}/upload`, siteId));
 
-      // 사용자별 API 엔드포인트 사용
-      const response = await fetch(`/api/users/${userId}/upload`, {
-        method: "POST",
-        body: formData,
-      });
+        xhr.upload.onprogress = (event) => {
+          if (!event.lengthComputable || totalSize === 0) return;
+          const sent = (event.loaded / event.total) * totalSize;
+          updateStatuses((current, index) => {
+            const position = indices.indexOf(index);
+            if (position === -1) return current;
+            const start = position === 0 ? 0 : ends[position - 1]!;
+            const size = ends[position]! - start;
+            const ratio = size === 0 ? 1 : (sent - start) / size;
+            return {
+              ...current,
+              progress: Math.round(Math.min(Math.max(ratio, 0), 1) * 100),
+            };
+          });
+        };
 
-      // 응답 상태 디버깅
-      console.log("업로드 응답 상태:", {
-        상태코드: response.status,
-        상태텍스트: response.statusText,
+        xhr.onload = () => {
+          try {
+            resolve({ status: xhr.status, data: JSON.parse(xhr.responseText) });
+          } catch (e) {
+            reject(new Error("서버 응답을 처리할 수 없습니다"));
+          }
+        };
+        xhr.onerror = () => reject(new Error("네트워크 오류"));
+        xhr.send(formData);
       });
 
-      const data = await response.json();
-      console.log("업로드 응답 데이터:", data);
-
-      if (!response.ok) {
+      if (status < 200 || status >= 300) {
         // 디스크 용량 초과 오류 처리
         if (data.error && data.error.includes("디스크 용량 초과")) {
           const requiredSpace = data.diskUsage?.required
             ? formatFileSize(data.diskUsage.required)
             : "추가 공간";
 
+          // 삭제한 파일은 휴지통을 비워야 용량이 확보됨
+          const freeSpaceHint = data.diskUsage?.trashBytes
+            ? `휴지통에 있는 ${formatFileSize(
+                data.diskUsage.trashBytes
+              )}도 용량에 포함되므로 휴지통을 비워 공간을 확보하세요.`
+            : "일부 파일을 삭제하고 휴지통을 비워 공간을 확보하세요.";
+
           setError(
-            `디스크 용량 부족: 파일 업로드를 위해 ${requiredSpace}이(가) 필요합니다. 일부 파일을 삭제하여 공간을 확보하세요.`
+            `디스크 용량 부족: 파일 업로드를 위해 ${requiredSpace}이(가) 필요합니다. ${freeSpaceHint}`
           );
         } else {
           setError(data.error || "파일 업로드에 실패했습니다.");
         }
-        return;
-      }
-
-      if (data.success) {
-        onUploadSuccess();
-        // 업로드 후 입력 필드 초기화
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
+        for (const index of indices) {
+          updateStatus(index, { state: "error", error: data.error });
         }
-      } else {
-        setError("알 수 없는 오류가 발생했습니다.");
+        return indices.length;
       }
+
+      // 파일별 결과 반영
+      const results = data.files || [];
+      indices.forEach((index, position) => {
+        updateStatus(
+          index,
+          results[position]?.status === 200
+            ? { state: "done", progress: 100 }
+            : {
+                state: "error",
+                error: results[position]?.error || "업로드 실패",
+              }
+        );
+      });
+      return data.failed || 0;
     } catch (err) {
       console.error("파일 업로드 오류:", err);
       let errorMessage = "서버 연결에 실패했습니다";
@@ -107,17 +323,234 @@ export function FileUploader({
         errorMessage += ` (${err.message})`;
       }
       setError(errorMessage);
+      for (const index of indices) {
+        updateStatus(index, { state: "error" });
+      }
+      return indices.length;
+    }
+  };
+
+  // 큰 파일은 조각으로 나누어 업로드 (연결이 끊기면 서버가 받은 위치부터 다시 전송)
+  const uploadChunked = async (item: UploadItem, index: number) => {
+    const targetPath = currentPath.endsWith("/")
+      ? `${currentPath}${item.relativePath}`
+      : `${currentPath}/${item.relativePath}`;
+    const uploadUrl = await resumeOrCreateUpload(
+      userId,
+      siteId,
+      targetPath,
+      item.file
+    );
+
+    let offset = await getUploadOffset(uploadUrl);
+    let retries = 0;
+    while (offset < item.file.size) {
+      updateStatus(index, {
+        progress: Math.round((offset / item.file.size) * 100),
+      });
+
+      try {
+        const response = await fetch(uploadUrl, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/offset+octet-stream",
+            "Upload-Offset": String(offset),
+          },
+          body: item.file.slice(offset, offset + CHUNK_SIZE),
+        });
+        const data = await response.json();
+
+        if (response.ok) {
+          offset = data.offset;
+          retries = 0;
+          continue;
+        }
+
+        // 서버가 받은 위치가 다르면 그 위치부터 이어서 전송
+        if (response.status === 409 && typeof data.offset === "number") {
+          offset = data.offset;
+        } else if (response.status < 500) {
+          throw new Error(data.error || "업로드 실패");
+        }
+      } catch (err) {
+        if (!(err instanceof TypeError)) throw err;
+        // 네트워크 오류는 아래에서 재시도
+      }
+
+      if (++retries > MAX_CHUNK_RETRIES) {
+        throw new Error("연결이 계속 끊겨 업로드를 중단했습니다");
+      }
+      await new Promise((resolve) => setTimeout(resolve, retries * 1000));
+      offset = await getUploadOffset(uploadUrl);
+    }
+
+    const response = await fetch(`${uploadUrl}/complete`, { method: "POST" });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "업로드 완료 처리 실패");
+    }
+    forgetUpload(userId, siteId, targetPath, item.file);
+    updateStatus(index, { state: "done", progress: 100 });
+  };
+
+  // 여러 파일 업로드 (큰 파일은 조각 업로드, 나머지는 한 번의 요청으로)
+  const uploadItems = async (uploadList: UploadItem[]) => {
+    setError(null);
+
+    if (uploadList.length === 0) {
+      setError("파일을 선택해주세요.");
+      return;
+    }
+
+    // 요금제의 파일당 크기 제한 검사 (서버에서도 다시 검사)
+    const tooLarge =
+      maxFileSize !== null &&
+      uploadList.find((item) => item.file.size > maxFileSize);
+    if (tooLarge) {
+      setError(
+        `'${tooLarge.relativePath}' 파일 크기는 ${formatFileSize(
+          maxFileSize!
+        )}를 초과할 수 없습니다.`
+      );
+      return;
+    }
+
+    setLoading(true);
+    setStatuses(uploadList.map(() => ({ state: "uploading", progress: 0 })));
+
+    const indices = uploadList.map((_, index) => index);
+    const batchIndices = indices.filter(
+      (index) => uploadList[index]!.file.size <= CHUNKED_UPLOAD_THRESHOLD
+    );
+    const chunkedIndices = indices.filter(
+      (index) => uploadList[index]!.file.size > CHUNKED_UPLOAD_THRESHOLD
+    );
+
+    try {
+      let failed =
+        batchIndices.length > 0
+          ? await uploadBatch(uploadList, batchIndices)
+          : 0;
+
+      for (const index of chunkedIndices) {
+        try {
+          await uploadChunked(uploadList[index]!, index);
+        } catch (err) {
+          failed++;
+          updateStatus(index, {
+            state: "error",
+            error: err instanceof Error ? err.message : "업로드 실패",
+          });
+        }
+      }
+
+      if (failed === 0) {
+        onUploadSuccess();
+        // 업로드 후 입력 필드 초기화
+        if (fileInputRef.current) fileInputRef.current.value = "";
+        if (folderInputRef.current) folderInputRef.current.value = "";
+      } else if (uploadList.length > 1) {
+        setError(`${failed}개 파일을 업로드하지 못했습니다.`);
+      } else if (chunkedIndices.length > 0) {
+        setError("파일 업로드에 실패했습니다.");
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  // ZIP 파일을 현재 경로에 압축 풀기
+  const importZip = async (file: File) => {
+    setError(null);
+
+    if (
+      importMode === "replace" &&
+      !confirm(
+        `'${currentPath}'의 기존 항목을 모두 휴지통으로 옮기고 압축을 푸시겠습니까?`
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setStatuses([{ state: "uploading", progress: 0 }]);
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("path", currentPath);
+    formData.append("mode", importMode);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/import`, siteId),
+        {
+          method: "POST",
+          body: formData,
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "압축 풀기에 실패했습니다.");
+        setStatuses([{ state: "error", progress: 0, error: data.error }]);
+        return;
+      }
+
+      if (data.success) {
+        setStatuses([{ state: "done", progress: 100 }]);
+        onUploadSuccess();
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      } else {
+        const failed: { path: string; error: string }[] = data.failed;
+        setError(
+          `${failed.length}개 파일의 압축을 풀지 못했습니다: ${failed
+            .map((item) => `${item.path} (${item.error})`)
+            .join(", ")}`
+        );
+        setStatuses([{ state: "done", progress: 100 }]);
+      }
+    } catch (err) {
+      console.error("압축 풀기 오류:", err);
+      setError("서버 연결에 실패했습니다");
+      setStatuses([{ state: "error", progress: 0 }]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isZipSelected && extractZip) {
+      await importZip(items[0]!.file);
+      return;
+    }
+    await uploadItems(items);
+  };
+
+  // 업로드 화면에 끌어다 놓은 파일 추가
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = await collectDroppedItems(e.dataTransfer);
+    setItems(dropped);
+    setStatuses([]);
+    setError(null);
+    setExtractZip(false);
+  };
+
+  // ZIP 파일 하나만 선택한 경우 압축 풀기 옵션 표시
+  const isZipSelected =
+    items.length === 1 && /\.zip$/i.test(items[0]!.file.name);
+
+  // 일부 파일이 실패한 뒤에는 성공한 파일을 반영하도록 목록을 새로고침하며 닫음
+  const hasFinished = statuses.some((status) => status.state === "done");
+
   return (
     <div className="bg-white dark:bg-gray-800 dark:text-gray-200 p-6 rounded-lg shadow-md">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">파일 업로드</h2>
         <button
-          onClick={onCancel}
+          onClick={hasFinished ? () => onUploadSuccess() : onCancel}
           className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
         >
           ✕
@@ -137,38 +570,148 @@ export function FileUploader({
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`p-4 border-2 border-dashed rounded-md ${
+            isDragging
+              ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+              : "border-gray-300 dark:border-gray-600"
+          }`}
+        >
           <label
             htmlFor="file"
             className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
           >
-            파일 선택 (최대 10MB)
+            파일 선택
+            {maxFileSize !== null &&
+              ` (파일당 최대 ${formatFileSize(maxFileSize)})`}
           </label>
           <input
             id="file"
             type="file"
+            multiple
             ref={fileInputRef}
+            onChange={(e) => selectFiles(e.target.files)}
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:file:bg-gray-600 dark:file:text-gray-200 dark:file:border-gray-500"
           />
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-            허용되는 파일 유형: 모든 유형 (최대 크기: 10MB)
+          <label
+            htmlFor="folder"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-3 mb-1"
+          >
+            폴더 선택
+          </label>
+          <input
+            id="folder"
+            type="file"
+            multiple
+            ref={folderInputRef}
+            onChange={(e) => selectFiles(e.target.files)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:file:bg-gray-600 dark:file:text-gray-200 dark:file:border-gray-500"
+          />
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            파일이나 폴더를 이곳에 끌어다 놓을 수도 있습니다. 폴더 구조는 현재
+            경로 아래에 그대로 유지됩니다.
           </p>
         </div>
 
+        {/* ZIP 파일 압축 풀기 옵션 */}
+        {isZipSelected && (
+          <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md space-y-2">
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={extractZip}
+                onChange={(e) => setExtractZip(e.target.checked)}
+                className="mr-2"
+              />
+              여기에 압축 풀기
+            </label>
+            {extractZip && (
+              <select
+                value={importMode}
+                onChange={(e) =>
+                  setImportMode(e.target.value as "merge" | "replace")
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="merge">
+                  합치기 (같은 이름의 파일은 덮어쓰고 이전 버전 보관)
+                </option>
+                <option value="replace">
+                  바꾸기 (기존 항목은 휴지통으로 옮김)
+                </option>
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* 파일별 업로드 진행 상황 */}
+        {items.length > 0 && (
+          <ul className="max-h-64 overflow-y-auto space-y-2">
+            {items.map((item, index) => {
+              const status = statuses[index];
+              return (
+                <li key={`${item.relativePath}-${index}`} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="truncate mr-2">{item.relativePath}</span>
+                    <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {status?.state === "done"
+                        ? "완료"
+                        : status?.state === "error"
+                        ? "실패"
+                        : formatFileSize(item.file.size)}
+                    </span>
+                  </div>
+                  {status && (
+                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-1">
+                      <div
+                        className={`h-1.5 rounded-full ${
+                          status.state === "error"
+                            ? "bg-red-500"
+                            : status.state === "done"
+                            ? "bg-green-500"
+                            : "bg-blue-500"
+                        }`}
+                        style={{ width: `${status.progress}%` }}
+                      ></div>
+                    </div>
+                  )}
+                  {status?.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">
+                      {status.error}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
         <div className="flex justify-end space-x-3">
           <button
             type="button"
-            onClick={onCancel}
+            onClick={hasFinished ? () => onUploadSuccess() : onCancel}
             className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400"
           >
-            취소
+            {hasFinished ? "닫기" : "취소"}
           </button>
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || items.length === 0}
             className="px-4 py-2 bg-green-500 dark:bg-green-600 text-white rounded-md hover:bg-green-600 dark:hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-green-400 disabled:opacity-50"
           >
-            {loading ? "업로드 중..." : "업로드"}
+            {loading
+              ? "업로드 중..."
+              : isZipSelected && extractZip
+              ? "압축 풀기"
+              : items.length > 1
+              ? `${items.length}개 파일 업로드`
+              : "업로드"}
           </button>
         </div>
       </form>
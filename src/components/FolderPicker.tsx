@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from "react";
+import { withSite } from "../services/siteScope";
+
+export type ConflictPolicy = "fail" | "replace" | "keep_both";
+
+interface FolderPickerProps {
+  userId: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
+  title: string;
+  confirmLabel: string;
+  initialPath: string;
+  onConfirm: (destination: string, conflict: ConflictPolicy) => void;
+  onCancel: () => void;
+}
+
+interface FolderEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+export function FolderPicker({
+  userId,
+  siteId,
+  title,
+  confirmLabel,
+  initialPath,
+  onConfirm,
+  onCancel,
+}: FolderPickerProps) {
+  const [path, setPath] = useState(initialPath || "/");
+  const [folders, setFolders] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<ConflictPolicy>("fail");
+
+  // 선택한 경로의 하위 폴더 목록 가져오기
+  useEffect(() => {
+    const fetchFolders = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const encodedPath = path
+          .split("/")
+          .filter(Boolean)
+          .map((part) => encodeURIComponent(part))
+          .join("/");
+        const url = encodedPath
+          ? `/api/users/${userId}/files/${encodedPath}`
+          : `/api/users/${userId}/files`;
+
+        const response = await fetch(withSite(url, siteId));
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || "폴더 목록을 불러오지 못했습니다.");
+          setFolders([]);
+          return;
+        }
+
+        setFolders(
+          (data.entries as FolderEntry[])
+            .filter((entry) => entry.isDirectory)
+            .map((entry) => entry.name)
+            .sort((a, b) => a.localeCompare(b, "ko", { sensitivity: "base" }))
+        );
+      } catch (err) {
+        setError("서버 연결에 실패했습니다.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFolders();
+  }, [userId, siteId, path]);
+
+  // 하위 폴더로 이동
+  const openFolder = (name: string) => {
+    setPath(path === "/" ? `/${name}` : `${path}/${name}`);
+  };
+
+  // 상위 폴더로 이동
+  const openParent = () => {
+    const parts = path.split("/").filter(Boolean);
+    parts.pop();
+    setPath("/" + parts.join("/"));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96">
+        <h3 className="text-lg font-medium mb-2 text-gray-900 dark:text-white">
+          {title}
+        </h3>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-gray-500 dark:text-gray-400 truncate">
+            대상 폴더: {path}
+          </span>
+          <button
+            onClick={openParent}
+            disabled={path === "/"}
+            className="text-sm text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            상위 폴더
+          </button>
+        </div>
+
+        <div className="h-48 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md mb-4">
+          {loading ? (
+            <div className="flex justify-center items-center h-full">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : error ? (
+            <p className="p-3 text-sm text-red-600">{error}</p>
+          ) : folders.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">
+              하위 폴더가 없습니다.
+            </p>
+          ) : (
+            <ul>
+              {folders.map((name) => (
+                <li key={name}>
+                  <button
+                    onClick={() => openFolder(name)}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-800 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-700"
+                  >
+                    <span className="mr-2">📁</span>
+                    {name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">
+          같은 이름이 있을 때
+        </label>
+        <select
+          value={conflict}
+          onChange={(e) => setConflict(e.target.value as ConflictPolicy)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+        >
+          <option value="fail">중단</option>
+          <option value="replace">덮어쓰기 (기존 항목은 휴지통으로)</option>
+          <option value="keep_both">둘 다 유지 (이름 뒤에 번호 추가)</option>
+        </select>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            취소
+          </button>
+          <button
+            onClick={() => onConfirm(path, conflict)}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
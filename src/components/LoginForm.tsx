@@ -30,6 +30,13 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
       if (!response.ok) {
         if (response.status === 401) {
           setError("로그인 실패: 잘못된 사용자명 또는 비밀번호입니다.");
+        } else if (response.status === 429) {
+          const retryAfter = Number(response.headers.get("Retry-After"));
+          setError(
+            `${data.error || "로그인 시도가 너무 많습니다"}. ${
+              retryAfter ? `${retryAfter}초 후` : "잠시 후"
+            } 다시 시도하세요.`
+          );
         } else {
           setError(data.error || "로그인에 실패했습니다.");
         }
@@ -100,10 +107,6 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
             {loading ? "로그인 중..." : "로그인"}
           </button>
         </div>
-
-        <p className="text-sm text-center text-gray-500 mt-4">
-          테스트 계정: admin / admin123
-        </p>
       </form>
     </div>
   );
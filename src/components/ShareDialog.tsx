@@ -0,0 +1,261 @@
+import React, { useState, useEffect, FormEvent } from "react";
+import { withSite } from "../services/siteScope";
+
+interface ShareDialogProps {
+  userId: string;
+  siteId?: string | null;
+  path: string; // 공유할 파일이나 폴더 경로
+  name: string;
+  onClose: () => void;
+}
+
+interface ShareLink {
+  id: string;
+  path: string;
+  url: string;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  createdAt: string;
+}
+
+export function ShareDialog({
+  userId,
+  siteId,
+  path,
+  name,
+  onClose,
+}: ShareDialogProps) {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // 이 파일이나 폴더의 공유 링크 목록 가져오기
+  const fetchShares = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        withSite(
+          `/api/users/${userId}/shares?path=${encodeURIComponent(path)}`,
+          siteId
+        )
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "공유 링크 목록을 가져오는데 실패했습니다.");
+        return;
+      }
+      setShares(data.shares);
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchShares();
+  }, [userId, siteId, path]);
+
+  // 공유 링크 만들기
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setCreating(true);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/shares`, siteId),
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            path,
+            expiresInDays: Number(expiresInDays),
+            maxDownloads: maxDownloads ? Number(maxDownloads) : null,
+            password: password || undefined,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "공유 링크를 만들지 못했습니다.");
+        return;
+      }
+
+      setMaxDownloads("");
+      setPassword("");
+      fetchShares();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // 공유 링크 취소
+  const handleRevoke = async (share: ShareLink) => {
+    if (!confirm("이 공유 링크를 취소하시겠습니까? 더 이상 열 수 없게 됩니다."))
+      return;
+
+    try {
+      const response = await fetch(`/api/users/${userId}/shares/${share.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "공유 링크 취소에 실패했습니다.");
+        return;
+      }
+      fetchShares();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    }
+  };
+
+  // 공유 링크 전체 주소
+  const getShareLink = (share: ShareLink) =>
+    `${window.location.origin}${share.url}`;
+
+  // 링크 주소 복사
+  const copyLink = async (share: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLink(share));
+      setCopiedId(share.id);
+    } catch (err) {
+      setError("클립보드에 복사하지 못했습니다.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 dark:text-gray-200 p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">'{name}' 공유</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          링크를 받은 사람은 사이트 공개 범위와 관계없이 로그인 없이 이 항목을
+          볼 수 있습니다.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded">
+            {error}
+          </div>
+        )}
+
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-center gap-2 mb-6"
+        >
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700"
+          >
+            <option value="1">1일 후 만료</option>
+            <option value="7">7일 후 만료</option>
+            <option value="30">30일 후 만료</option>
+            <option value="90">90일 후 만료</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={maxDownloads}
+            onChange={(e) => setMaxDownloads(e.target.value)}
+            placeholder="다운로드 횟수 제한"
+            className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="비밀번호 (선택)"
+            autoComplete="new-password"
+            className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={creating}
+            className="ml-auto px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50"
+          >
+            {creating ? "만드는 중..." : "링크 만들기"}
+          </button>
+        </form>
+
+        {loading ? (
+          <div>로딩 중...</div>
+        ) : shares.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            사용 중인 공유 링크가 없습니다.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left">링크</th>
+                <th className="px-3 py-2 text-left">만료</th>
+                <th className="px-3 py-2 text-left">다운로드</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {shares.map((share) => (
+                <tr key={share.id}>
+                  <td className="px-3 py-2">
+                    <a
+                      href={share.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline dark:text-blue-400 break-all"
+                    >
+                      {getShareLink(share)}
+                    </a>
+                    {share.hasPassword && (
+                      <span className="ml-1 text-xs text-gray-500">🔒</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {new Date(share.expiresAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {share.downloadCount}
+                    {share.maxDownloads !== null && ` / ${share.maxDownloads}`}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => copyLink(share)}
+                      className="mr-2 text-indigo-600 hover:text-indigo-900"
+                    >
+                      {copiedId === share.id ? "복사됨" : "복사"}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(share)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      취소
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from "react";
+import { withSite } from "../services/siteScope";
+
+interface SiteSettingsPanelProps {
+  userId: string;
+  siteId: string;
+  siteName: string;
+  isDefaultSite: boolean;
+  onClose: () => void;
+  onSiteChanged: () => void; // 사이트 이름이나 주소를 바꿨을 때
+  onSiteDeleted: () => void;
+}
+
+interface SiteSettings {
+  spa: boolean;
+}
+
+interface SlugHistoryEntry {
+  slug: string;
+  retiredAt: string;
+}
+
+export function SiteSettingsPanel({
+  userId,
+  siteId,
+  siteName,
+  isDefaultSite,
+  onClose,
+  onSiteChanged,
+  onSiteDeleted,
+}: SiteSettingsPanelProps) {
+  const [name, setName] = useState(siteName);
+  const [settings, setSettings] = useState<SiteSettings>({ spa: false });
+  const [hasNotFoundPage, setHasNotFoundPage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [slug, setSlug] = useState("");
+  const [currentSlug, setCurrentSlug] = useState<string | null>(null);
+  const [slugHistory, setSlugHistory] = useState<SlugHistoryEntry[]>([]);
+  const [siteUrl, setSiteUrl] = useState("");
+  const [siteDomain, setSiteDomain] = useState<string | null>(null);
+  const [slugSaving, setSlugSaving] = useState(false);
+  const [slugError, setSlugError] = useState<string | null>(null);
+
+  // 현재 사이트 설정 가져오기
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          withSite(`/api/users/${userId}/site`, siteId)
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || "사이트 설정을 불러오지 못했습니다.");
+          return;
+        }
+
+        setSettings(data.settings);
+        setHasNotFoundPage(data.notFoundPage);
+        setSlug(data.slug || "");
+        setCurrentSlug(data.slug);
+        setSlugHistory(data.slugHistory);
+        setSiteUrl(data.siteUrl);
+        setSiteDomain(data.siteDomain);
+      } catch (err) {
+        setError("서버 연결에 실패했습니다.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, [userId, siteId]);
+
+  // 사이트 설정 저장 (이름이 바뀌었으면 이름도 변경)
+  const saveSettings = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (name.trim() !== siteName) {
+        const nameResponse = await fetch(
+          `/api/users/${userId}/sites/${siteId}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+          }
+        );
+        const nameData = await nameResponse.json();
+
+        if (!nameResponse.ok) {
+          setError(nameData.error || "사이트 이름을 변경하지 못했습니다.");
+          return;
+        }
+        onSiteChanged();
+      }
+
+      const response = await fetch(
+        withSite(`/api/users/${userId}/site`, siteId),
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(settings),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "사이트 설정을 저장하지 못했습니다.");
+        return;
+      }
+
+      onClose();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 사이트 주소 변경 (이전 주소는 새 주소로 이동)
+  const saveSlug = async () => {
+    setSlugSaving(true);
+    setSlugError(null);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/site/slug`, siteId),
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ slug }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSlugError(data.error || "사이트 주소를 변경하지 못했습니다.");
+        return;
+      }
+
+      if (currentSlug && currentSlug !== data.slug) {
+        setSlugHistory([
+          { slug: currentSlug, retiredAt: new Date().toISOString() },
+          ...slugHistory.filter((entry) => entry.slug !== data.slug),
+        ]);
+      } else {
+        setSlugHistory(slugHistory.filter((entry) => entry.slug !== data.slug));
+      }
+      setSlug(data.slug);
+      setCurrentSlug(data.slug);
+      setSiteUrl(data.siteUrl);
+      onSiteChanged();
+    } catch (err) {
+      setSlugError("서버 연결에 실패했습니다.");
+    } finally {
+      setSlugSaving(false);
+    }
+  };
+
+  // 사이트 삭제 (파일, 휴지통, 기록을 모두 영구 삭제)
+  const deleteSite = async () => {
+    if (
+      !confirm(
+        `'${siteName}' 사이트를 삭제하시겠습니까? 사이트의 모든 파일과 휴지통, 기록이 영구 삭제됩니다.`
+      )
+    )
+      return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/sites/${siteId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "사이트를 삭제하지 못했습니다.");
+        return;
+      }
+
+      onSiteDeleted();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96">
+        <h3 className="text-lg font-medium mb-4 text-gray-900 dark:text-white">
+          사이트 설정
+        </h3>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-4 mb-4">
+            <div>
+              <label className="block font-medium text-gray-700 dark:text-gray-300 mb-1">
+                사이트 이름
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={50}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+
+            <div>
+              <label className="block font-medium text-gray-700 dark:text-gray-300 mb-1">
+                사이트 주소
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  placeholder="my-site"
+                />
+                <button
+                  onClick={saveSlug}
+                  disabled={slugSaving || !slug || slug === currentSlug}
+                  className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 dark:bg-blue-600 dark:hover:bg-blue-700"
+                >
+                  {slugSaving ? "변경 중..." : "변경"}
+                </button>
+              </div>
+              {slugError && (
+                <p className="mt-1 text-sm text-red-600">{slugError}</p>
+              )}
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 break-all">
+                공개 주소:{" "}
+                <a
+                  href={`${siteUrl}/`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {siteUrl}/
+                </a>
+                {currentSlug && siteDomain && (
+                  <span className="block">
+                    하위 도메인: {currentSlug}.{siteDomain}
+                  </span>
+                )}
+              </p>
+              {slugHistory.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  이전 주소 (새 주소로 이동):{" "}
+                  {slugHistory.map((entry) => entry.slug).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <label className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.spa}
+                onChange={(e) =>
+                  setSettings({ ...settings, spa: e.target.checked })
+                }
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">싱글 페이지 앱 (SPA) 모드</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400">
+                  없는 경로를 요청하면 index.html로 응답합니다. 확장자가 있는
+                  파일 요청은 제외됩니다.
+                </span>
+              </span>
+            </label>
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {hasNotFoundPage
+                ? "사이트 최상위의 404.html을 없는 페이지 응답으로 사용합니다."
+                : "사이트 최상위에 404.html을 만들면 없는 페이지 응답으로 사용합니다."}
+            </p>
+          </div>
+        )}
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {!isDefaultSite && (
+            <button
+              onClick={deleteSite}
+              disabled={loading || saving}
+              className="mr-auto px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50 dark:bg-red-600 dark:hover:bg-red-700"
+            >
+              사이트 삭제
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            취소
+          </button>
+          <button
+            onClick={saveSettings}
+            disabled={loading || saving || !name.trim()}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 dark:bg-blue-600 dark:hover:bg-blue-700"
+          >
+            {saving ? "저장 중..." : "저장"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from "react";
+import { withSite } from "../services/siteScope";
+
+interface TrashListProps {
+  userId: string;
+  siteId?: string | null; // 대상 사이트 (없으면 기본 사이트)
+  onClose: () => void;
+  onChanged: () => void; // 복원/삭제로 파일 목록이나 사용량이 바뀌었을 때
+}
+
+interface TrashItem {
+  id: string;
+  originalPath: string;
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  fileCount: number;
+  deletedAt: string;
+}
+
+export function TrashList({
+  userId,
+  siteId,
+  onClose,
+  onChanged,
+}: TrashListProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 휴지통 목록 가져오기
+  const fetchTrash = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/trash`, siteId)
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "휴지통을 불러오지 못했습니다.");
+        return;
+      }
+
+      setItems(data.items);
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, [userId, siteId]);
+
+  // 항목 복원
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const response = await fetch(
+        `/api/users/${userId}/trash/${item.id}/restore`,
+        { method: "POST" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`복원 실패: ${data.error || "알 수 없는 오류"}`);
+        return;
+      }
+
+      fetchTrash();
+      onChanged();
+    } catch (err) {
+      alert("복원 중 오류가 발생했습니다.");
+    }
+  };
+
+  // 항목 영구 삭제
+  const purgeItem = async (item: TrashItem) => {
+    if (!confirm(`'${item.name}'을(를) 영구 삭제하시겠습니까?`)) return;
+
+    try {
+      const response = await fetch(`/api/users/${userId}/trash/${item.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`영구 삭제 실패: ${data.error || "알 수 없는 오류"}`);
+        return;
+      }
+
+      fetchTrash();
+      onChanged();
+    } catch (err) {
+      alert("영구 삭제 중 오류가 발생했습니다.");
+    }
+  };
+
+  // 휴지통 비우기
+  const emptyTrash = async () => {
+    if (!confirm("휴지통의 모든 항목을 영구 삭제하시겠습니까?")) return;
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/trash`, siteId),
+        {
+          method: "DELETE",
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`휴지통 비우기 실패: ${data.error || "알 수 없는 오류"}`);
+        return;
+      }
+
+      fetchTrash();
+      onChanged();
+    } catch (err) {
+      alert("휴지통 비우기 중 오류가 발생했습니다.");
+    }
+  };
+
+  // 파일 크기 포맷팅 함수
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + " bytes";
+    else if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+    else return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">
+          휴지통
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={emptyTrash}
+            disabled={items.length === 0}
+            className="px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-red-600 dark:hover:bg-red-700"
+          >
+            휴지통 비우기
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            파일 목록으로
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        삭제한 항목은 일정 기간이 지나면 자동으로 영구 삭제됩니다. 휴지통에 있는
+        항목도 디스크 사용량에 포함됩니다.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          휴지통이 비어 있습니다.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  이름
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  원래 위치
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  크기
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  삭제일
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  작업
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 dark:bg-gray-800 dark:divide-gray-700">
+              {items.map((item) => (
+                <tr
+                  key={item.id}
+                  className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-800 dark:text-gray-200">
+                    <span className="mr-2">
+                      {item.isDirectory ? "📁" : "📄"}
+                    </span>
+                    {item.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    /{item.originalPath}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatFileSize(item.size)}
+                    {item.isDirectory && ` (파일 ${item.fileCount}개)`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(item.deletedAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => restoreItem(item)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        복원
+                      </button>
+                      <button
+                        onClick={() => purgeItem(item)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        영구 삭제
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { withSite } from "../services/siteScope";
+
+export type Visibility = "public" | "unlisted" | "private" | "password";
+
+// 사이트 전체나 폴더에 지정한 공개 범위 규칙
+export interface AccessRule {
+  path: string; // "/"이면 사이트 전체
+  visibility: Visibility;
+  hasPassword: boolean;
+  updatedAt: string;
+}
+
+interface VisibilitySettingsProps {
+  userId: string;
+  siteId?: string | null;
+  path: string; // "/"이면 사이트 전체, 아니면 폴더 경로
+  title: string;
+  rule: AccessRule | null; // 이 경로에 직접 지정한 규칙 (없으면 상위 설정을 따름)
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// 공개 범위 선택지와 설명
+export const VISIBILITY_OPTIONS: {
+  value: Visibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "public",
+    label: "공개",
+    description: "누구나 볼 수 있습니다.",
+  },
+  {
+    value: "unlisted",
+    label: "링크로만 공개",
+    description:
+      "주소를 아는 사람만 볼 수 있습니다. 폴더 목록을 보여주지 않고 검색 엔진에 노출하지 않습니다.",
+  },
+  {
+    value: "private",
+    label: "비공개",
+    description: "로그인한 소유자만 볼 수 있습니다.",
+  },
+  {
+    value: "password",
+    label: "비밀번호",
+    description: "비밀번호를 입력한 방문자만 볼 수 있습니다.",
+  },
+];
+
+export function VisibilitySettings({
+  userId,
+  siteId,
+  path,
+  title,
+  rule,
+  onClose,
+  onSaved,
+}: VisibilitySettingsProps) {
+  const isSiteRoot = path === "/";
+  const [visibility, setVisibility] = useState<Visibility | "inherit">(
+    rule?.visibility ?? (isSiteRoot ? "public" : "inherit")
+  );
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 비밀번호를 처음 정하는 경우에만 입력 필요 (기존 비밀번호는 비워 두면 유지)
+  const needsPassword =
+    visibility === "password" && !rule?.hasPassword && !password;
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        withSite(`/api/users/${userId}/site/access`, siteId),
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            path,
+            // 사이트 전체를 공개로 바꾸면 규칙을 지워 기본값(공개)으로 되돌림
+            visibility:
+              isSiteRoot && visibility === "public" ? "inherit" : visibility,
+            password: visibility === "password" ? password : undefined,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "공개 범위를 저장하지 못했습니다.");
+        return;
+      }
+
+      onSaved();
+    } catch (err) {
+      setError("서버 연결에 실패했습니다.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96">
+        <h3 className="text-lg font-medium mb-4 text-gray-900 dark:text-white">
+          {title}
+        </h3>
+
+        <div className="space-y-3 mb-4">
+          {!isSiteRoot && (
+            <label className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="visibility"
+                checked={visibility === "inherit"}
+                onChange={() => setVisibility("inherit")}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">상위 폴더 설정 따름</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400">
+                  상위 폴더나 사이트 전체의 공개 범위를 그대로 사용합니다.
+                </span>
+              </span>
+            </label>
+          )}
+          {VISIBILITY_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-start gap-2 text-gray-700 dark:text-gray-300"
+            >
+              <input
+                type="radio"
+                name="visibility"
+                checked={visibility === option.value}
+                onChange={() => setVisibility(option.value)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400">
+                  {option.description}
+                </span>
+              </span>
+            </label>
+          ))}
+
+          {visibility === "password" && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              placeholder={
+                rule?.hasPassword
+                  ? "새 비밀번호 (비워 두면 기존 비밀번호 유지)"
+                  : "비밀번호 (4자 이상)"
+              }
+              autoComplete="new-password"
+            />
+          )}
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            취소
+          </button>
+          <button
+            onClick={save}
+            disabled={saving || needsPassword}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 dark:bg-blue-600 dark:hover:bg-blue-700"
+          >
+            {saving ? "저장 중..." : "저장"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
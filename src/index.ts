@@ -21,14 +21,60 @@ import {
   handleUserFileContentPathUpdate,
   handleDeleteFileOrDirectory,
   handleUserDirectAccess,
+  handleSiteDirectAccess,
+  handleListSites,
+  handleCreateSite,
+  handleUpdateSite,
+  handleDeleteSite,
+  handleGetSiteSettings,
+  handleUpdateSiteSettings,
+  handleUpdateSiteSlug,
+  handleGetSiteAccess,
+  handleUpdateSiteAccess,
+  handleListShares,
+  handleCreateShare,
+  handleDeleteShare,
+  handleShareAccess,
+  handleSiteSlugAccess,
+  handleSiteHostRequest,
   handleGetDiskUsage,
   handleRenameFileOrDirectory,
+  handleListSessions,
+  handleRevokeSession,
+  handleRevokeAllSessions,
+  handleListApiTokens,
+  handleCreateApiToken,
+  handleDeleteApiToken,
+  handleAdminListUsers,
+  handleAdminUpdateUser,
+  handleAdminDeleteUser,
+  handleAdminResetPassword,
+  handleAdminImpersonate,
+  handleStopImpersonation,
+  handleAdminListLockouts,
+  handleAdminClearLockout,
+  handleAdminListPlans,
+  handleFileHistory,
+  handleFileRestore,
+  handleListTrash,
+  handleEmptyTrash,
+  handleRestoreTrashItem,
+  handlePurgeTrashItem,
+  handleMoveFileOrDirectory,
+  handleCopyFileOrDirectory,
+  handleBatchFileOperations,
+  handleDownloadZip,
+  handleImportZip,
+  handleCreateUpload,
+  handleGetUpload,
+  handlePatchUpload,
+  handleCompleteUpload,
+  handleCancelUpload,
+  handleDownloadArchive,
 } from "./services/api";
 import { requireAuth } from "./services/auth";
-import {
-  calculateUserDiskUsage,
-  MAX_USER_STORAGE,
-} from "./services/fileStorage";
+import { calculateUserDiskUsage } from "./services/fileStorage";
+import { SITE_DOMAIN, SITE_PORT } from "./services/siteSlug";
 
 // 데이터베이스 초기화
 await initializeDatabase();
@@ -51,6 +97,73 @@ const server = serve({
       POST: handleRegister,
     },
 
+    // 활성 세션 목록 API
+    "/api/sessions": {
+      GET: handleListSessions,
+    },
+
+    // 모든 세션 폐기 API (모든 기기에서 로그아웃)
+    "/api/sessions/revoke-all": {
+      POST: handleRevokeAllSessions,
+    },
+
+    // 개별 세션 폐기 API
+    "/api/sessions/:id": {
+      DELETE: handleRevokeSession,
+    },
+
+    // 개인 API 토큰 목록 조회 및 발급 API
+    "/api/tokens": {
+      GET: handleListApiTokens,
+      POST: handleCreateApiToken,
+    },
+
+    // 개인 API 토큰 폐기 API
+    "/api/tokens/:id": {
+      DELETE: handleDeleteApiToken,
+    },
+
+    // 관리자: 사용자 목록 API
+    "/api/admin/users": {
+      GET: handleAdminListUsers,
+    },
+
+    // 관리자: 사용자 정보 변경 및 삭제 API
+    "/api/admin/users/:id": {
+      PATCH: handleAdminUpdateUser,
+      DELETE: handleAdminDeleteUser,
+    },
+
+    // 관리자: 비밀번호 초기화 API
+    "/api/admin/users/:id/reset-password": {
+      POST: handleAdminResetPassword,
+    },
+
+    // 관리자: 사용자 가장(읽기 전용) API
+    "/api/admin/users/:id/impersonate": {
+      POST: handleAdminImpersonate,
+    },
+
+    // 관리자: 가장 종료 API
+    "/api/admin/impersonation/stop": {
+      POST: handleStopImpersonation,
+    },
+
+    // 관리자: 저장 공간 요금제 목록 API
+    "/api/admin/plans": {
+      GET: handleAdminListPlans,
+    },
+
+    // 관리자: 로그인 잠금 기록 API
+    "/api/admin/lockouts": {
+      GET: handleAdminListLockouts,
+    },
+
+    // 관리자: 로그인 잠금 해제 API
+    "/api/admin/lockouts/:id": {
+      DELETE: handleAdminClearLockout,
+    },
+
     // 현재 사용자 정보 확인 API
     "/api/me": {
       GET: handleGetMe,
@@ -71,6 +184,29 @@ const server = serve({
       POST: handleFileUpload,
     },
 
+    // 유저별 이어 올리기 업로드 생성 API (큰 파일을 조각으로 나누어 업로드)
+    "/api/users/:userId/uploads": {
+      POST: handleCreateUpload,
+    },
+
+    // 유저별 이어 올리기 업로드 상태 조회, 조각 전송, 취소 API
+    "/api/users/:userId/uploads/:id": {
+      GET: handleGetUpload,
+      HEAD: handleGetUpload,
+      PATCH: handlePatchUpload,
+      DELETE: handleCancelUpload,
+    },
+
+    // 유저별 이어 올리기 업로드 완료 API
+    "/api/users/:userId/uploads/:id/complete": {
+      POST: handleCompleteUpload,
+    },
+
+    // 유저별 ZIP 파일 가져오기 API (선택한 폴더에 압축 풀기)
+    "/api/users/:userId/import": {
+      POST: handleImportZip,
+    },
+
     // 유저별 텍스트 파일 생성 API
     "/api/users/:userId/files/create": {
       POST: handleFileCreate,
@@ -86,20 +222,141 @@ const server = serve({
       POST: handleDeleteFileOrDirectory,
     },
 
+    // 유저별 휴지통 조회 및 비우기 API
+    "/api/users/:userId/trash": {
+      GET: handleListTrash,
+      DELETE: handleEmptyTrash,
+    },
+
+    // 유저별 휴지통 항목 영구 삭제 API
+    "/api/users/:userId/trash/:id": {
+      DELETE: handlePurgeTrashItem,
+    },
+
+    // 유저별 휴지통 항목 복원 API
+    "/api/users/:userId/trash/:id/restore": {
+      POST: handleRestoreTrashItem,
+    },
+
     // 유저별 파일/폴더 이름 변경 API
     "/api/users/:userId/files/rename": {
       POST: handleRenameFileOrDirectory,
     },
 
+    // 유저별 파일/폴더 이동 API
+    "/api/users/:userId/files/move": {
+      POST: handleMoveFileOrDirectory,
+    },
+
+    // 유저별 파일/폴더 복사 API
+    "/api/users/:userId/files/copy": {
+      POST: handleCopyFileOrDirectory,
+    },
+
+    // 유저별 파일/폴더 일괄 작업 API
+    "/api/users/:userId/files/batch": {
+      POST: handleBatchFileOperations,
+    },
+
+    // 유저별 선택 항목 ZIP 다운로드 API (?path=...를 여러 번 지정)
+    "/api/users/:userId/download": {
+      GET: handleDownloadZip,
+    },
+
+    // 유저별 전체 사이트 ZIP 다운로드 API
+    "/api/users/:userId/archive": {
+      GET: handleDownloadArchive,
+    },
+
+    // 유저별 폴더 ZIP 다운로드 API
+    "/api/users/:userId/archive/*": {
+      GET: handleDownloadArchive,
+    },
+
     // 유저별 파일 내용 접근 API
     "/api/users/:userId/content/*": {
       GET: handleUserFileContentPath,
       PUT: handleUserFileContentPathUpdate,
     },
 
-    // 유저별 파일 직접 접근 (/:userId/파일경로)
+    // 유저별 파일 리비전 조회 및 복원 API (POST .../history/파일경로/restore)
+    "/api/users/:userId/history/*": {
+      GET: handleFileHistory,
+      POST: handleFileRestore,
+    },
+
+    // 유저별 사이트 목록 및 생성 API (파일 API는 ?site=<사이트 ID>로 대상 사이트 지정)
+    "/api/users/:userId/sites": {
+      GET: handleListSites,
+      POST: handleCreateSite,
+    },
+
+    // 유저별 사이트 이름 변경 및 삭제 API
+    "/api/users/:userId/sites/:id": {
+      PATCH: handleUpdateSite,
+      DELETE: handleDeleteSite,
+    },
+
+    // 유저별 사이트 설정 API (SPA 모드 등)
+    "/api/users/:userId/site": {
+      GET: handleGetSiteSettings,
+      PUT: handleUpdateSiteSettings,
+    },
+
+    // 유저별 사이트 주소 변경 API
+    "/api/users/:userId/site/slug": {
+      PUT: handleUpdateSiteSlug,
+    },
+
+    // 유저별 사이트 공개 범위 API (사이트 전체와 폴더별)
+    "/api/users/:userId/site/access": {
+      GET: handleGetSiteAccess,
+      PUT: handleUpdateSiteAccess,
+    },
+
+    // 유저별 공유 링크 목록 및 생성 API (파일이나 폴더를 만료 기한까지 공유)
+    "/api/users/:userId/shares": {
+      GET: handleListShares,
+      POST: handleCreateShare,
+    },
+
+    // 유저별 공유 링크 취소 API
+    "/api/users/:userId/shares/:id": {
+      DELETE: handleDeleteShare,
+    },
+
+    // 공유 링크로 파일 접근 (/share/:token/폴더 안 경로, POST는 비밀번호 잠금 해제)
+    "/share/:token": {
+      GET: handleShareAccess,
+      POST: handleShareAccess,
+    },
+
+    "/share/:token/*": {
+      GET: handleShareAccess,
+      POST: handleShareAccess,
+    },
+
+    // 유저별 파일 직접 접근 (/:userId/파일경로, POST는 비밀번호 보호 폴더 잠금 해제)
     "/static/users/:userId/*": {
       GET: handleUserDirectAccess,
+      POST: handleUserDirectAccess,
+    },
+
+    // 기본 사이트가 아닌 사이트의 파일 직접 접근 (/:siteId/파일경로)
+    "/static/sites/:siteId/*": {
+      GET: handleSiteDirectAccess,
+      POST: handleSiteDirectAccess,
+    },
+
+    // 사이트 주소로 파일 접근 (/s/:slug/파일경로)
+    "/s/:slug": {
+      GET: handleSiteSlugAccess,
+      POST: handleSiteSlugAccess,
+    },
+
+    "/s/:slug/*": {
+      GET: handleSiteSlugAccess,
+      POST: handleSiteSlugAccess,
     },
 
     // 사용자 디스크 사용량 확인 API
@@ -128,3 +385,14 @@ const server = serve({
 
 // 서버 실행 메시지
 console.log(`🚀 서버가 http://localhost:3000에서 실행 중입니다.`);
+
+// 하위 도메인 사이트 서버 (SITE_DOMAIN이 설정된 경우 <주소>.<SITE_DOMAIN>으로 사이트 제공)
+if (SITE_DOMAIN) {
+  serve({
+    port: SITE_PORT,
+    fetch: handleSiteHostRequest,
+  });
+  console.log(
+    `🌐 사이트가 http://<주소>.${SITE_DOMAIN}:${SITE_PORT}에서 제공됩니다.`
+  );
+}
@@ -1,4 +1,22 @@
-import { authenticate, createSessionCookie, login, requireAuth } from "./auth";
+import type { Server } from "bun";
+import {
+  authenticate,
+  authenticateRequest,
+  createSessionCookie,
+  createAdminSessionCookie,
+  CLEAR_ADMIN_SESSION_COOKIE,
+  getAdminSessionIdFromCookie,
+  requireAdmin,
+  startImpersonation,
+  login,
+  requireAuth,
+  getClientInfo,
+  getClientIp,
+  getSessionPublicId,
+  getSessionIdFromCookie,
+  generateApiToken,
+  CLEAR_SESSION_COOKIE,
+} from "./auth";
 import {
   initializeStorage,
   saveUploadedFile,
@@ -12,21 +30,303 @@ import {
   isDirectory,
   readFileByPath,
   readBinaryFileByPath,
+  detectMimeType,
   createDirectory,
   writeFileByPath,
-  deleteFileOrDirectoryByPath,
-  calculateUserDiskUsage,
-  MAX_USER_STORAGE,
+  calculateUserStorageUsage,
+  getWriteChange,
+  getSiteRelativePath,
+  reserveUserQuota,
+  releaseUserQuota,
+  deleteUserStorage,
+  deleteSiteStorage,
   renameFileOrDirectory,
+  copyFileOrDirectory,
+  deleteFileOrDirectoryByPath,
+  calculatePathUsage,
+  getAvailablePath,
+  isSubPath,
+  CONFLICT_POLICIES,
+  type ConflictPolicy,
 } from "./fileStorage";
-import { createUser, findUserByUsername, findUserById } from "./database";
-import { access, stat } from "fs/promises";
-import { join } from "path";
+import {
+  createUser,
+  findUserByUsername,
+  findUserById,
+  findSessionById,
+  deleteSession,
+  deleteSessionsByUserId,
+  getActiveSessionsByUserId,
+  getAllUsers,
+  updateUser,
+  deleteUser,
+  countActiveAdmins,
+  findStoragePlanById,
+  getStoragePlans,
+  updateUserPassword,
+  hashPassword,
+  getLoginLockouts,
+  clearLoginLockout,
+  createApiToken,
+  getApiTokensByUserId,
+  deleteApiToken,
+  getFileRevisions,
+  findFileRevisionById,
+  findTrashItemById,
+  getTrashBytesByUserId,
+  getTrashItemsBySiteId,
+  findUploadSessionById,
+  getUploadSessionsByUserId,
+  adjustStorageUsage,
+  findSiteSlug,
+  getCurrentSiteSlug,
+  getSiteSlugHistory,
+  setSiteSlug,
+  createSite,
+  findSiteById,
+  getSitesByUserId,
+  updateSiteName,
+  deleteSite,
+  getSiteAccessRules,
+  findSiteAccessRule,
+  saveSiteAccessRule,
+  deleteSiteAccessRule,
+  transferSiteAccessRules,
+  createShareLink,
+  findShareLinkById,
+  getActiveShareLinks,
+  recordShareLinkDownload,
+  releaseShareLinkDownload,
+  moveShareLinks,
+  deleteShareLink,
+  TOKEN_SCOPES,
+  type ApiToken,
+  type FileRevision,
+  type Site,
+  type SiteAccessRule,
+  type SiteVisibility,
+  type ShareLink,
+  type StorageUsage,
+  type TokenScope,
+  type TrashItem,
+  type UploadSession,
+  type User,
+  type UserUpdate,
+} from "./database";
+import {
+  getUserQuota,
+  getUsagePercentage,
+  type QuotaStatus,
+  type StorageChange,
+  type UserQuota,
+} from "./quota";
+import {
+  reserveLoginAttempt,
+  cancelLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  checkRegisterAllowed,
+  recordRegistration,
+  resetLoginFailures,
+  checkSiteUnlockAllowed,
+  recordSiteUnlockFailure,
+} from "./rateLimit";
+import {
+  prepareRevision,
+  getRevisionBytes,
+  commitRevision,
+  readRevision,
+  purgeSiteHistory,
+  type PendingRevision,
+} from "./history";
+import {
+  createZipStream,
+  collectZipSources,
+  prepareZipSources,
+  getAttachmentHeader,
+  readZipEntries,
+  extractZipEntry,
+  type ZipEntry,
+} from "./zip";
+import {
+  moveToTrash,
+  restoreFromTrash,
+  purgeTrashItem,
+  emptyTrash,
+} from "./trash";
+import {
+  getUploadExpiresAt,
+  startUpload,
+  lockUpload,
+  unlockUpload,
+  writeUploadChunk,
+  readUploadChunk,
+  finishUpload,
+  MAX_UPLOAD_CHUNK_MB,
+  cancelUpload,
+} from "./resumableUpload";
+import {
+  getCacheValidators,
+  isNotModified,
+  getCacheControl,
+} from "./httpCache";
+import {
+  parseRangeHeader,
+  isRangeFresh,
+  createMultipartRanges,
+} from "./httpRange";
+import {
+  isSiteConfigFile,
+  isSpaRoute,
+  getSiteMimeOverrides,
+  getSiteSettings,
+  SITE_NOT_FOUND_PAGE,
+  SITE_SETTINGS_FILE,
+  type SiteSettings,
+} from "./siteConfig";
+import {
+  getCompressedFile,
+  getEncodedETag,
+  isCompressibleMimeType,
+  negotiateEncoding,
+} from "./compression";
+import { getContentType } from "./mime";
+import {
+  getSiteBasePath,
+  getSlugFromHost,
+  validateSiteSlug,
+  SITE_DOMAIN,
+} from "./siteSlug";
+import {
+  findSiteRedirect,
+  getSiteHeaders,
+  validateSiteRulesFile,
+} from "./siteRules";
+import {
+  checkSiteAccess,
+  createUnlockCookie,
+  getAccessRuleUnlockTarget,
+  getEffectiveAccessRule,
+  hasValidUnlockCookie,
+  renderUnlockPage,
+  MAX_SITE_PASSWORD_LENGTH,
+  MIN_SITE_PASSWORD_LENGTH,
+  SITE_VISIBILITIES,
+} from "./siteAccess";
+import {
+  findShareByToken,
+  getShareToken,
+  getShareUnlockTarget,
+  getShareUrl,
+  isShareExhausted,
+  isShareExpired,
+  DEFAULT_SHARE_DAYS,
+  MAX_SHARE_DAYS,
+  MAX_SHARE_DOWNLOADS,
+} from "./shareLinks";
+import type { Stats } from "fs";
+import { randomBytes } from "crypto";
+import { access, exists, stat } from "fs/promises";
+import { basename, join } from "path";
+
+// 요청 제한 초과 응답 (429 + Retry-After)
+function tooManyRequestsResponse(retryAfter: number, reason: string) {
+  return new Response(JSON.stringify({ error: reason, retryAfter }), {
+    status: 429,
+    headers: {
+      "Content-Type": "application/json",
+      "Retry-After": retryAfter.toString(),
+    },
+  });
+}
+
+// 사용량과 요금제 한도를 응답 형식으로 변환
+// trashBytes는 사용량 중 휴지통이 차지하는 용량 (삭제한 파일은 휴지통을 비워야 용량이 확보됨)
+function serializeStorageUsage(
+  usage: StorageUsage,
+  quota: UserQuota,
+  trashBytes: number
+) {
+  return {
+    used: usage.bytes,
+    trashBytes,
+    total: quota.maxTotalBytes,
+    percentage: getUsagePercentage(usage.bytes, quota.maxTotalBytes),
+    fileCount: usage.fileCount,
+    maxFileCount: quota.maxFileCount,
+    maxFileSize: quota.maxFileBytes,
+    plan: {
+      id: quota.plan.id,
+      name: quota.plan.name,
+    },
+  };
+}
+
+// 요금제 한도 초과 응답
+function quotaExceededResponse(status: QuotaStatus, required: number) {
+  return toJsonResponse(quotaExceededResult(status, required));
+}
+
+// 요금제 한도 초과 결과 (일괄 작업의 항목별 결과에도 사용)
+function quotaExceededResult(
+  status: QuotaStatus,
+  required: number
+): FileOperationResult {
+  const { check, quota, usage, trashBytes } = status;
+
+  // 전체 용량 초과이고 휴지통에 파일이 있으면 휴지통을 비우라고 안내
+  let error = check.allowed ? "요금제 한도를 초과했습니다" : check.reason;
+  if (!check.allowed && check.limit === "total" && trashBytes > 0) {
+    error +=
+      " (휴지통에 있는 파일도 용량에 포함됩니다. 휴지통을 비우면 공간을 확보할 수 있습니다)";
+  }
+
+  return {
+    status: 400,
+    body: {
+      error,
+      limit: check.allowed ? null : check.limit,
+      diskUsage: {
+        ...serializeStorageUsage(usage, quota, trashBytes),
+        required,
+      },
+    },
+  };
+}
+
+// 파일 작업 결과 (단일 API 응답과 일괄 작업의 항목별 결과에 공통 사용)
+interface FileOperationResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// 파일 작업 결과를 JSON 응답으로 변환
+function toJsonResponse(result: FileOperationResult) {
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// 요청 대상 사이트 (?site=<사이트 ID>, 없으면 기본 사이트, 다른 사용자의 사이트면 null)
+function getRequestSite(req: Request, userId: string): Site | null {
+  const siteId = new URL(req.url).searchParams.get("site") || userId;
+  const site = findSiteById(siteId);
+  return site && site.userId === userId ? site : null;
+}
+
+// 사이트를 찾을 수 없음 응답
+function siteNotFoundResponse() {
+  return new Response(JSON.stringify({ error: "사이트를 찾을 수 없습니다" }), {
+    status: 404,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
 /**
  * 로그인 API 핸들러
  */
-export async function handleLogin(req: Request) {
+export async function handleLogin(req: Request, server?: Server) {
   const formData = await req.formData();
   const username = formData.get("username") as string;
   const password = formData.get("password") as string;
@@ -41,8 +341,53 @@ export async function handleLogin(req: Request) {
     );
   }
 
-  const result = await login(username, password);
-  if (!result) {
+  // 로그인 시도 제한 확인 (비밀번호 확인 전에 실패로 미리 기록)
+  const clientInfo = getClientInfo(req, server);
+  const ipAddress = clientInfo.ipAddress ?? null;
+  const attempt = reserveLoginAttempt(ipAddress, username);
+  if (!attempt.allowed) {
+    return tooManyRequestsResponse(attempt.retryAfter, attempt.reason);
+  }
+
+  const result = await login(username, password, clientInfo);
+
+  // 비밀번호가 틀린 경우만 실패로 남기고 나머지는 예약한 시도 취소
+  if (result.success || result.reason !== "invalid_credentials") {
+    cancelLoginAttempt(ipAddress, username, attempt.attemptedAt);
+  }
+
+  if (!result.success && result.reason === "account_disabled") {
+    return new Response(
+      JSON.stringify({ error: "비활성화된 계정입니다. 관리자에게 문의하세요" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (!result.success && result.reason === "session_error") {
+    return new Response(
+      JSON.stringify({ error: "세션 생성 중 오류가 발생했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (!result.success) {
+    // 실패 기록 (한도 초과 시 계정 잠금)
+    const lockout = recordLoginFailure(ipAddress, username);
+    if (lockout) {
+      return tooManyRequestsResponse(
+        Math.ceil(
+          (new Date(lockout.lockedUntil).getTime() - Date.now()) / 1000
+        ),
+        "로그인 실패가 반복되어 계정이 일시적으로 잠겼습니다"
+      );
+    }
+
     return new Response(
       JSON.stringify({
         error: "로그인 실패: 잘못된 사용자명 또는 비밀번호",
@@ -54,17 +399,16 @@ export async function handleLogin(req: Request) {
     );
   }
 
-  const { user, sessionId } = result;
-  const session = user ? { id: sessionId } : null;
+  const { user, sessionId, expiresAt } = result;
+  recordLoginSuccess(username);
 
   // 세션 ID를 쿠키에 설정
-  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
   const sessionCookie = createSessionCookie(sessionId, expiresAt);
 
   return new Response(
     JSON.stringify({
       success: true,
-      user: { id: user.id, username: user.username },
+      user: { id: user.id, username: user.username, role: user.role },
     }),
     {
       status: 200,
@@ -80,12 +424,110 @@ export async function handleLogin(req: Request) {
  * 로그아웃 API 핸들러
  */
 export async function handleLogout(req: Request) {
+  // 서버 측 세션도 함께 폐기
+  const sessionId = getSessionIdFromCookie(req.headers.get("cookie"));
+  if (sessionId) {
+    deleteSession(sessionId);
+  }
+
   return new Response(JSON.stringify({ success: true }), {
     status: 200,
     headers: {
       "Content-Type": "application/json",
-      "Set-Cookie":
-        "session_id=; HttpOnly; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      "Set-Cookie": CLEAR_SESSION_COOKIE,
+    },
+  });
+}
+
+/**
+ * 활성 세션 목록 API 핸들러
+ */
+export async function handleListSessions(req: Request) {
+  const authResult = await requireAuth(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const currentSessionId = getSessionIdFromCookie(req.headers.get("cookie"));
+  const sessions = getActiveSessionsByUserId(authResult.user.id);
+
+  return new Response(
+    JSON.stringify({
+      sessions: sessions.map((session) => ({
+        id: getSessionPublicId(session.id),
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt ?? session.createdAt,
+        expiresAt: session.expiresAt,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        impersonated: session.impersonatorId !== null,
+        current: session.id === currentSessionId,
+      })),
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 세션 폐기 API 핸들러
+ */
+export async function handleRevokeSession(req: Request) {
+  const authResult = await requireAuth(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const publicId = pathParts[3]; // /api/sessions/:id (세션 목록의 공개 ID)
+
+  // 자신의 세션 중에서만 찾으므로 다른 사용자의 세션은 존재 여부도 노출하지 않음
+  const session = getActiveSessionsByUserId(authResult.user.id).find(
+    (candidate) => getSessionPublicId(candidate.id) === publicId
+  );
+  if (!session) {
+    return new Response(JSON.stringify({ error: "세션을 찾을 수 없습니다" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  deleteSession(session.id);
+
+  // 현재 세션을 폐기한 경우 쿠키도 삭제
+  const currentSessionId = getSessionIdFromCookie(req.headers.get("cookie"));
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (session.id === currentSessionId) {
+    headers["Set-Cookie"] = CLEAR_SESSION_COOKIE;
+  }
+
+  return new Response(JSON.stringify({ success: true, id: publicId }), {
+    status: 200,
+    headers,
+  });
+}
+
+/**
+ * 모든 세션 폐기 API 핸들러 (모든 기기에서 로그아웃)
+ */
+export async function handleRevokeAllSessions(req: Request) {
+  const authResult = await requireAuth(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const revoked = deleteSessionsByUserId(authResult.user.id);
+
+  return new Response(JSON.stringify({ success: true, revoked }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Set-Cookie": CLEAR_SESSION_COOKIE,
     },
   });
 }
@@ -93,7 +535,14 @@ export async function handleLogout(req: Request) {
 /**
  * 회원가입 API 핸들러
  */
-export async function handleRegister(req: Request) {
+export async function handleRegister(req: Request, server?: Server) {
+  // IP당 가입 횟수 제한
+  const ipAddress = getClientIp(req, server);
+  const limit = checkRegisterAllowed(ipAddress);
+  if (!limit.allowed) {
+    return tooManyRequestsResponse(limit.retryAfter, limit.reason);
+  }
+
   try {
     const formData = await req.formData();
     const username = formData.get("username") as string;
@@ -139,7 +588,7 @@ export async function handleRegister(req: Request) {
     }
 
     // 새 사용자 생성
-    const user = createUser(username, password); // 실제 구현에서는 비밀번호 해싱 필요
+    const user = await createUser(username, password);
 
     if (!user) {
       return new Response(
@@ -151,6 +600,8 @@ export async function handleRegister(req: Request) {
       );
     }
 
+    recordRegistration(ipAddress);
+
     // 가입 성공 응답
     return new Response(
       JSON.stringify({
@@ -179,47 +630,57 @@ export async function handleRegister(req: Request) {
   }
 }
 
+// API 토큰 응답 형식 (해시는 노출하지 않음)
+function serializeApiToken(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  };
+}
+
 /**
- * 파일 업로드 API 핸들러
+ * API 토큰 목록 API 핸들러
  */
-export async function handleFileUpload(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/upload
-
+export async function handleListApiTokens(req: Request) {
   const authResult = await requireAuth(req);
   if (authResult.response) {
     return authResult.response;
   }
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== userId) {
-    return new Response(
-      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
-      {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+  const tokens = getApiTokensByUserId(authResult.user.id);
+
+  return new Response(
+    JSON.stringify({ tokens: tokens.map(serializeApiToken) }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * API 토큰 발급 API 핸들러
+ */
+export async function handleCreateApiToken(req: Request) {
+  const authResult = await requireAuth(req);
+  if (authResult.response) {
+    return authResult.response;
   }
 
   try {
-    const formData = await req.formData();
-    const file = formData.get("file") as File;
-    const pathInput = (formData.get("path") as string) || "";
-
-    if (!file) {
-      return new Response(JSON.stringify({ error: "파일이 필요합니다" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const json = await req.json();
+    const name = typeof json.name === "string" ? json.name.trim() : "";
+    const scopes: unknown[] = Array.isArray(json.scopes) ? json.scopes : [];
+    const expiresInDays = json.expiresInDays;
 
-    // 파일 크기 검증 (10MB 제한)
-    const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-    if (file.size > MAX_SIZE) {
+    if (!name || name.length > 100) {
       return new Response(
-        JSON.stringify({ error: "파일 크기는 10MB를 초과할 수 없습니다" }),
+        JSON.stringify({ error: "토큰 이름은 1~100자여야 합니다" }),
         {
           status: 400,
           headers: { "Content-Type": "application/json" },
@@ -227,23 +688,15 @@ export async function handleFileUpload(req: Request) {
       );
     }
 
-    // 현재 디스크 사용량 확인
-    const currentUsage = await calculateUserDiskUsage(userId);
-
-    // 새 파일을 추가했을 때 총 용량 계산
-    const projectedUsage = currentUsage + file.size;
-
-    // 전체 용량 초과 여부 확인
-    if (projectedUsage > MAX_USER_STORAGE) {
+    if (
+      scopes.length === 0 ||
+      !scopes.every((scope) => TOKEN_SCOPES.includes(scope as TokenScope))
+    ) {
       return new Response(
         JSON.stringify({
-          error: "디스크 용량 초과: 파일을 업로드하기 위한 공간이 부족합니다",
-          diskUsage: {
-            used: currentUsage,
-            total: MAX_USER_STORAGE,
-            percentage: (currentUsage / MAX_USER_STORAGE) * 100,
-            required: file.size,
-          },
+          error: `권한 범위는 ${TOKEN_SCOPES.join(
+            ", "
+          )} 중에서 선택해야 합니다`,
         }),
         {
           status: 400,
@@ -252,48 +705,53 @@ export async function handleFileUpload(req: Request) {
       );
     }
 
-    // 파일 경로 결정
-    let targetPath = file.name;
-    if (pathInput) {
-      // 디렉토리 경로가 제공된 경우
-      targetPath = pathInput.endsWith("/")
-        ? `${pathInput}${file.name}`
-        : `${pathInput}/${file.name}`;
+    // 만료 기간 (null이면 만료 없음)
+    let expiresAt: string | null = null;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return new Response(
+          JSON.stringify({ error: "만료 기간은 1~365일이어야 합니다" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      expiresAt = new Date(
+        Date.now() + days * 24 * 60 * 60 * 1000
+      ).toISOString();
     }
 
-    // 사용자 디렉토리 내 경로 확인
-    const fullPath = await resolvePath(userId, targetPath);
-
-    // 파일 데이터 읽기
-    const buffer = await file.arrayBuffer();
-
-    // 파일 저장
-    const success = await writeFileByPath(fullPath, new Uint8Array(buffer));
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+    const apiToken = createApiToken({
+      userId: authResult.user.id,
+      name,
+      tokenHash,
+      tokenPrefix,
+      scopes: [...new Set(scopes as TokenScope[])],
+      expiresAt,
+    });
 
-    if (!success) {
-      return new Response(JSON.stringify({ error: "파일 업로드 실패" }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+    if (!apiToken) {
+      return new Response(
+        JSON.stringify({ error: "토큰 발급에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
     }
 
-    // 파일 확장자에 따른 MIME 타입 결정
-    const ext = file.name.split(".").pop()?.toLowerCase() || "";
-    let mimeType = file.type || "application/octet-stream";
-
+    // 토큰 원문은 이 응답에서만 제공
     return new Response(
       JSON.stringify({
         success: true,
-        file: {
-          path: targetPath,
-          name: file.name,
-          size: file.size,
-          mimeType: mimeType,
-          uploadedAt: new Date().toISOString(),
-        },
+        token,
+        apiToken: serializeApiToken(apiToken),
       }),
       {
-        status: 200,
+        status: 201,
         headers: { "Content-Type": "application/json" },
       }
     );
@@ -308,14 +766,50 @@ export async function handleFileUpload(req: Request) {
 }
 
 /**
- * 텍스트 파일 생성 API 핸들러
+ * API 토큰 폐기 API 핸들러
  */
-export async function handleFileCreate(req: Request) {
+export async function handleDeleteApiToken(req: Request) {
+  const authResult = await requireAuth(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
   const url = new URL(req.url);
   const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/files/create
+  const tokenId = pathParts[3]; // /api/tokens/:id
 
-  const authResult = await requireAuth(req);
+  if (!tokenId || !deleteApiToken(tokenId, authResult.user.id)) {
+    return new Response(JSON.stringify({ error: "토큰을 찾을 수 없습니다" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true, id: tokenId }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// 업로드 요청의 파일별 처리 정보
+interface PendingUpload {
+  file: File;
+  targetPath: string;
+  fullPath: string | null; // 허용되지 않는 경로면 null
+  revision: PendingRevision | null;
+  change: StorageChange | null;
+  error: { status: number; message: string } | null;
+}
+
+/**
+ * 파일 업로드 API 핸들러
+ */
+export async function handleFileUpload(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/upload
+
+  const authResult = await requireAuth(req, "write");
   if (authResult.response) {
     return authResult.response;
   }
@@ -331,75 +825,151 @@ export async function handleFileCreate(req: Request) {
     );
   }
 
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
   try {
-    const json = await req.json();
-    const { path, content, mimeType } = json;
+    const formData = await req.formData();
+    const files = formData
+      .getAll("file")
+      .filter((part): part is File => part instanceof File);
+    const relativePaths = formData.getAll("relativePath");
+    const pathInput = (formData.get("path") as string) || "";
 
-    if (!path || !content) {
-      return new Response(
-        JSON.stringify({ error: "파일 경로와 내용이 필요합니다" }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+    if (files.length === 0) {
+      return new Response(JSON.stringify({ error: "파일이 필요합니다" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
-    // 파일 크기 계산
-    const fileSize = Buffer.byteLength(content);
+    // 파일별 저장 경로 결정 (폴더 업로드는 상대 경로를 유지)
+    const uploads: PendingUpload[] = [];
+    const seenPaths = new Set<string>();
+    for (const [index, file] of files.entries()) {
+      const relativePath = relativePaths[index];
+      const name =
+        typeof relativePath === "string" && relativePath
+          ? relativePath
+          : file.name;
 
-    // 현재 디스크 사용량 확인
-    const currentUsage = await calculateUserDiskUsage(userId);
+      // 디렉토리 경로가 제공된 경우
+      const targetPath = pathInput
+        ? pathInput.endsWith("/")
+          ? `${pathInput}${name}`
+          : `${pathInput}/${name}`
+        : name;
+
+      const upload: PendingUpload = {
+        file,
+        targetPath,
+        fullPath: null,
+        revision: null,
+        change: null,
+        error: null,
+      };
+      uploads.push(upload);
 
-    // 새 파일을 추가했을 때 총 용량 계산
-    const projectedUsage = currentUsage + fileSize;
+      try {
+        // 사용자 디렉토리 내 경로 확인
+        upload.fullPath = await resolvePath(site.id, targetPath);
+      } catch (error) {
+        upload.error = { status: 400, message: "허용되지 않는 경로입니다" };
+        continue;
+      }
 
-    // 전체 용량 초과 여부 확인
-    if (projectedUsage > MAX_USER_STORAGE) {
-      return new Response(
-        JSON.stringify({
-          error: "디스크 용량 초과: 파일을 생성하기 위한 공간이 부족합니다",
-          diskUsage: {
-            used: currentUsage,
-            total: MAX_USER_STORAGE,
-            percentage: (currentUsage / MAX_USER_STORAGE) * 100,
-            required: fileSize,
-          },
-        }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
+      if (seenPaths.has(upload.fullPath)) {
+        upload.error = {
+          status: 409,
+          message: "같은 경로의 파일이 중복되었습니다",
+        };
+        continue;
+      }
+      seenPaths.add(upload.fullPath);
+
+      // 기존 파일을 덮어쓰는 경우 이전 내용을 리비전으로 보관
+      upload.revision = await prepareRevision(userId, upload.fullPath);
+      upload.change = await getWriteChange(
+        upload.fullPath,
+        file.size,
+        getRevisionBytes(upload.revision)
       );
     }
 
-    // mimeType 결정
-    let fileType = mimeType || "text/plain";
-
-    // 사용자 디렉토리 내 파일 경로 확인
-    const fullPath = await resolvePath(userId, path);
+    // 요금제 한도는 전체 파일을 합쳐 한 번만 확인 (파일당 크기, 파일 수, 전체 용량)
+    const changes = uploads
+      .map((upload) => upload.change)
+      .filter((change): change is StorageChange => change !== null);
+    const total: StorageChange = {
+      bytes: changes.reduce((sum, change) => sum + change.bytes, 0),
+      fileSizes: changes.flatMap((change) => change.fileSizes || []),
+      newFiles: changes.reduce(
+        (sum, change) => sum + (change.newFiles || 0),
+        0
+      ),
+    };
+    const quotaStatus = await reserveUserQuota(userId, total);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, total.bytes);
+    }
 
-    // 파일 저장
-    const success = await writeFileByPath(fullPath, content);
+    // 파일 저장 (실패한 파일은 예약한 사용량 반환)
+    const results = [];
+    for (const upload of uploads) {
+      const { file } = upload;
+      let error = upload.error;
+
+      if (!error && upload.fullPath && upload.change) {
+        // 파일 데이터 읽기
+        const buffer = await file.arrayBuffer();
+        const success = await writeFileByPath(
+          upload.fullPath,
+          new Uint8Array(buffer)
+        );
 
-    if (!success) {
-      return new Response(
-        JSON.stringify({ error: "파일 생성에 실패했습니다" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
+        if (!success) {
+          releaseUserQuota(userId, upload.change);
+          error = { status: 500, message: "파일 업로드 실패" };
+        } else if (upload.revision) {
+          await commitRevision(upload.revision);
         }
-      );
+      }
+
+      results.push({
+        path: upload.fullPath
+          ? "/" + getSiteRelativePath(site.id, upload.fullPath)
+          : upload.targetPath,
+        name: file.name,
+        size: file.size,
+        mimeType: file.type || "application/octet-stream",
+        uploadedAt: new Date().toISOString(),
+        status: error ? error.status : 200,
+        ...(error ? { error: error.message } : {}),
+      });
+    }
+
+    const failed = results.filter((result) => result.status !== 200);
+
+    // 파일 하나만 업로드한 경우 기존 응답 형식 유지
+    if (results.length === 1 && failed.length === 1) {
+      return new Response(JSON.stringify({ error: failed[0]!.error }), {
+        status: failed[0]!.status,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
     return new Response(
       JSON.stringify({
-        success: true,
-        path: path,
-        mimeType: fileType,
+        success: failed.length === 0,
+        file: results[0],
+        files: results,
+        succeeded: results.length - failed.length,
+        failed: failed.length,
       }),
       {
-        status: 201,
+        status: 200,
         headers: { "Content-Type": "application/json" },
       }
     );
@@ -413,70 +983,174 @@ export async function handleFileCreate(req: Request) {
   }
 }
 
-/**
- * 사용자 파일 목록 API 핸들러
- */
-export async function handleFileList(req: Request) {
-  const authResult = await requireAuth(req);
+// 업로드 세션 응답 형식
+function serializeUploadSession(session: UploadSession) {
+  return {
+    id: session.id,
+    path: "/" + session.path,
+    size: session.size,
+    offset: session.offset,
+    expiresAt: getUploadExpiresAt(session),
+  };
+}
+
+// 이어 올리기 API 공통 인증 (URL의 사용자와 로그인한 사용자가 같은지 확인하고 세션 조회)
+async function requireUploadSession(
+  req: Request
+): Promise<
+  { session: UploadSession; response?: undefined } | { response: Response }
+> {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/uploads/:id
+  const uploadId = pathParts[5];
+
+  const authResult = await requireAuth(req, "write");
   if (authResult.response) {
-    return authResult.response;
+    return { response: authResult.response };
   }
 
-  const files = getUserFiles(authResult.user.id);
-  return new Response(
-    JSON.stringify({
-      files: files.map((file: any) => ({
-        id: file.id,
-        filename: file.filename,
-        size: file.size,
-        mimeType: file.mimeType,
-        uploadedAt: file.uploadedAt,
-      })),
-    }),
-    {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    }
-  );
+  if (authResult.user.id !== userId) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: "다른 사용자의 파일에 접근할 권한이 없습니다",
+        }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+
+  const session = uploadId ? findUploadSessionById(uploadId) : null;
+  if (!session || session.userId !== userId) {
+    return {
+      response: new Response(
+        JSON.stringify({ error: "업로드를 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+
+  return { session };
 }
 
 /**
- * 파일 내용 조회 API 핸들러
+ * 이어 올리기 업로드 생성 API 핸들러 (전체 크기만큼 사용량을 미리 예약)
  */
-export async function handleFileContent({
-  params,
-}: {
-  params: { id: string };
-}) {
-  const fileId = params.id;
-  if (!fileId) {
-    return new Response(JSON.stringify({ error: "파일 ID가 필요합니다" }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
-    });
+export async function handleCreateUpload(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/uploads
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
   }
 
   try {
-    const content = await readTextFile(fileId);
+    const { path, size } = (await req.json()) as {
+      path?: string;
+      size?: number;
+    };
+
+    if (
+      !path ||
+      typeof size !== "number" ||
+      !Number.isSafeInteger(size) ||
+      size < 0
+    ) {
+      return new Response(
+        JSON.stringify({ error: "파일 경로와 크기가 필요합니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
 
-    if (content === null) {
+    let fullPath: string;
+    try {
+      fullPath = await resolvePath(site.id, path);
+    } catch (error) {
       return new Response(
-        JSON.stringify({
-          error: "파일을 찾을 수 없거나 텍스트 파일이 아닙니다",
-        }),
+        JSON.stringify({ error: "허용되지 않는 경로입니다" }),
         {
-          status: 404,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    return new Response(content, {
-      status: 200,
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-      },
-    });
+    if (
+      !getSiteRelativePath(site.id, fullPath) ||
+      (await isDirectory(fullPath))
+    ) {
+      return new Response(
+        JSON.stringify({ error: "같은 이름의 폴더가 이미 존재합니다" }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 완료 전까지는 전체 크기와 새 파일 1개로 사용량 예약 (완료 시 실제 변화량과의 차이를 반환)
+    const change: StorageChange = {
+      bytes: size,
+      fileSizes: [size],
+      newFiles: 1,
+    };
+    const quotaStatus = await reserveUserQuota(userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, size);
+    }
+
+    const session = await startUpload(userId, fullPath, size);
+    if (!session) {
+      releaseUserQuota(userId, change);
+      return new Response(JSON.stringify({ error: "업로드 시작 실패" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        upload: serializeUploadSession(session),
+      }),
+      {
+        status: 201,
+        headers: {
+          "Content-Type": "application/json",
+          Location: `/api/users/${userId}/uploads/${session.id}`,
+          "Upload-Offset": "0",
+          "Upload-Length": String(size),
+        },
+      }
+    );
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
@@ -488,36 +1162,146 @@ export async function handleFileContent({
 }
 
 /**
- * 파일 내용 업데이트 API 핸들러
+ * 업로드 진행 상태 조회 API 핸들러 (HEAD 요청은 Upload-Offset 헤더만 반환)
  */
-export async function handleFileContentUpdate(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const fileIdIndex = pathParts.indexOf("files") + 1;
-  const fileId = pathParts[fileIdIndex];
+export async function handleGetUpload(req: Request) {
+  const result = await requireUploadSession(req);
+  if (result.response) {
+    return result.response;
+  }
 
-  if (!fileId) {
-    return new Response(JSON.stringify({ error: "파일 ID가 필요합니다" }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
-    });
+  const { session } = result;
+  const headers = {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+    "Upload-Offset": String(session.offset),
+    "Upload-Length": String(session.size),
+  };
+
+  if (req.method === "HEAD") {
+    return new Response(null, { status: 200, headers });
   }
 
-  try {
-    const content = await req.text();
-    const success = await updateTextFile(fileId, content);
+  return new Response(
+    JSON.stringify({ upload: serializeUploadSession(session) }),
+    { status: 200, headers }
+  );
+}
 
-    if (!success) {
-      return new Response(JSON.stringify({ error: "파일 업데이트 실패" }), {
+/**
+ * 업로드 조각 전송 API 핸들러 (Upload-Offset 헤더가 서버가 받은 위치와 같아야 함)
+ */
+export async function handlePatchUpload(req: Request) {
+  const result = await requireUploadSession(req);
+  if (result.response) {
+    return result.response;
+  }
+
+  const { session } = result;
+  const offsetHeader = req.headers.get("Upload-Offset");
+  const offset = offsetHeader !== null ? Number(offsetHeader) : NaN;
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Offset 헤더가 필요합니다" }),
+      {
         status: 400,
         headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  // 연결이 끊긴 뒤 다시 보낼 때는 서버가 받은 위치부터 보내야 함
+  if (offset !== session.offset) {
+    return new Response(
+      JSON.stringify({
+        error: "업로드 위치가 일치하지 않습니다",
+        offset: session.offset,
+      }),
+      {
+        status: 409,
+        headers: {
+          "Content-Type": "application/json",
+          "Upload-Offset": String(session.offset),
+        },
+      }
+    );
+  }
+
+  // 남은 크기와 조각 크기 한도를 넘는 요청은 본문을 읽기 전에 거부
+  const remaining = session.size - offset;
+  const maxChunkBytes = Math.min(remaining, MAX_UPLOAD_CHUNK_MB * 1024 * 1024);
+  const oversizedChunkResponse = () =>
+    maxChunkBytes === remaining
+      ? new Response(
+          JSON.stringify({ error: "파일 크기를 초과하는 조각입니다" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        )
+      : new Response(
+          JSON.stringify({
+            error: `조각은 최대 ${MAX_UPLOAD_CHUNK_MB}MB까지 보낼 수 있습니다`,
+          }),
+          {
+            status: 413,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+
+  const contentLength = Number(req.headers.get("Content-Length") || 0);
+  if (contentLength > maxChunkBytes) {
+    return oversizedChunkResponse();
+  }
+
+  if (!lockUpload(session.id)) {
+    return new Response(
+      JSON.stringify({ error: "이미 조각을 받고 있는 업로드입니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    // Content-Length 없이 보낸 요청도 한도를 넘으면 읽기를 멈춤
+    const chunk = await readUploadChunk(req, maxChunkBytes);
+    if (!chunk) {
+      return oversizedChunkResponse();
+    }
+
+    // 조각을 받는 동안 다른 요청으로 상태가 바뀌었을 수 있어 다시 조회
+    const current = findUploadSessionById(session.id);
+    if (!current || current.offset !== offset) {
+      return new Response(
+        JSON.stringify({ error: "업로드 상태가 변경되었습니다" }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const newOffset = await writeUploadChunk(current, chunk);
+    if (newOffset === null) {
+      return new Response(JSON.stringify({ error: "조각 저장 실패" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
       });
     }
 
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    });
+    return new Response(
+      JSON.stringify({ offset: newOffset, size: session.size }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Upload-Offset": String(newOffset),
+        },
+      }
+    );
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
@@ -525,194 +1309,190 @@ export async function handleFileContentUpdate(req: Request) {
       status: 500,
       headers: { "Content-Type": "application/json" },
     });
+  } finally {
+    unlockUpload(session.id);
   }
 }
 
 /**
- * 파일 서빙 API 핸들러
+ * 업로드 완료 API 핸들러 (다 받은 파일을 저장할 위치로 옮김)
  */
-export async function handleFileGet({ params }: { params: { id: string } }) {
-  const fileId = params.id;
-  if (!fileId) {
-    return new Response("파일 ID가 필요합니다", { status: 400 });
+export async function handleCompleteUpload(req: Request) {
+  const result = await requireUploadSession(req);
+  if (result.response) {
+    return result.response;
   }
 
-  const result = await serveFile(fileId);
-  if (!result) {
-    return new Response("파일을 찾을 수 없습니다", { status: 404 });
+  const { session } = result;
+  if (session.offset !== session.size) {
+    return new Response(
+      JSON.stringify({
+        error: "아직 모든 조각을 받지 못했습니다",
+        offset: session.offset,
+        size: session.size,
+      }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   }
 
-  return new Response(result.data, {
-    status: 200,
-    headers: {
-      "Content-Type": result.file.mimeType,
-      "Content-Disposition": `inline; filename="${result.file.filename}"`,
-      "Content-Length": result.file.size.toString(),
-    },
-  });
-}
-
-/**
- * 정적 파일 서빙 API 핸들러
- */
-export async function handleServeFile({
-  params,
-}: {
-  params: { fileId: string };
-}) {
-  const fileId = params.fileId;
-  if (!fileId) {
-    return new Response("파일 ID가 필요합니다", { status: 400 });
+  if (!lockUpload(session.id)) {
+    return new Response(
+      JSON.stringify({ error: "이미 처리 중인 업로드입니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   }
 
-  const result = await serveFile(fileId);
-  if (!result) {
-    return new Response("파일을 찾을 수 없습니다", { status: 404 });
-  }
+  try {
+    const fullPath = await resolvePath(session.siteId, session.path);
+    if (await isDirectory(fullPath)) {
+      return new Response(
+        JSON.stringify({ error: "같은 이름의 폴더가 이미 존재합니다" }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
 
-  // HTML 파일인 경우 content-type을 text/html로 설정하여 브라우저에서 렌더링
-  const contentType =
-    result.file.mimeType === "text/html" ||
-    result.file.filename.endsWith(".html")
-      ? "text/html"
-      : result.file.mimeType;
+    // 기존 파일을 덮어쓰는 경우 이전 내용을 리비전으로 보관
+    const revision = await prepareRevision(session.userId, fullPath);
+    const change = await getWriteChange(
+      fullPath,
+      session.size,
+      getRevisionBytes(revision)
+    );
 
-  return new Response(result.data, {
-    status: 200,
-    headers: {
-      "Content-Type": contentType,
-      "Content-Disposition": `inline; filename="${result.file.filename}"`,
-      "Content-Length": result.file.size.toString(),
-    },
-  });
-}
+    if (!(await finishUpload(session, fullPath))) {
+      return new Response(JSON.stringify({ error: "업로드 완료 처리 실패" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-/**
- * 현재 사용자 정보 확인 API 핸들러
- */
-export async function handleGetMe(req: Request) {
-  const user = await authenticate(req);
+    // 덮어쓰기 등으로 예약한 것보다 적게 늘어난 만큼 반환
+    releaseUserQuota(session.userId, {
+      bytes: session.size - change.bytes,
+      newFiles: 1 - (change.newFiles || 0),
+    });
+    if (revision) {
+      await commitRevision(revision);
+    }
 
-  if (!user) {
-    return new Response(JSON.stringify({ authenticated: false }), {
-      status: 200,
+    const name = basename(fullPath);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file: {
+          path: "/" + session.path,
+          name,
+          size: session.size,
+          mimeType: await detectMimeType(fullPath),
+          uploadedAt: new Date().toISOString(),
+        },
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
       headers: { "Content-Type": "application/json" },
     });
+  } finally {
+    unlockUpload(session.id);
   }
-
-  return new Response(
-    JSON.stringify({
-      authenticated: true,
-      user: {
-        id: user.id,
-        username: user.username,
-      },
-    }),
-    {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    }
-  );
-}
-
-/**
- * 테스트용 인사말 API 핸들러
- */
-export async function handleHello(req: Request) {
-  return Response.json({
-    message: "안녕하세요! API 서버가 실행 중입니다.",
-    method: "GET",
-  });
-}
-
-/**
- * 테스트용 PUT 인사말 API 핸들러
- */
-export async function handleHelloPut(req: Request) {
-  return Response.json({
-    message: "Hello, world!",
-    method: "PUT",
-  });
-}
-
-/**
- * 이름이 있는 인사말 API 핸들러
- */
-export async function handleNamedHello({
-  params,
-}: {
-  params: { name: string };
-}) {
-  const name = params.name;
-  return Response.json({
-    message: `안녕하세요, ${name}님!`,
-  });
 }
 
 /**
- * 특정 유저의 파일 목록 API 핸들러
+ * 업로드 취소 API 핸들러 (받은 조각을 지우고 예약한 사용량 반환)
  */
-export async function handleUserFilesList(
-  req: Request,
-  { params }: { params: { userId: string } }
-) {
-  const authResult = await requireAuth(req);
-
-  // 인증 확인
-  if (authResult.response) {
-    return authResult.response;
+export async function handleCancelUpload(req: Request) {
+  const result = await requireUploadSession(req);
+  if (result.response) {
+    return result.response;
   }
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인 (관리자라면 다른 사용자 파일도 볼 수 있게 할 수 있음)
-  if (authResult.user.id !== params.userId) {
+  if (!lockUpload(result.session.id)) {
     return new Response(
-      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      JSON.stringify({ error: "이미 처리 중인 업로드입니다" }),
       {
-        status: 403,
+        status: 409,
         headers: { "Content-Type": "application/json" },
       }
     );
   }
 
   try {
-    const files = getUserFiles(params.userId);
-
-    // 민감한 정보 제외
-    const sanitizedFiles = files.map(({ path, ...file }) => ({
-      ...file,
-      url: `/static/users/${params.userId}/${file.filename}`,
-    }));
+    if (!(await cancelUpload(result.session))) {
+      return new Response(JSON.stringify({ error: "업로드 취소 실패" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-    return new Response(JSON.stringify({ files: sanitizedFiles }), {
+    return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "알 수 없는 오류";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
+  } finally {
+    unlockUpload(result.session.id);
+  }
+}
+
+// 압축을 풀 때 건너뛰는 항목 (운영체제가 만드는 부가 파일)
+const IGNORED_ZIP_ENTRIES = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+// 압축 풀기 항목별 처리 정보
+interface PendingExtract {
+  entry: ZipEntry;
+  fullPath: string;
+  revision: PendingRevision | null;
+  change: StorageChange | null; // 폴더는 null
+}
+
+// 바꾸기 방식으로 가져올 때 휴지통으로 옮긴 기존 항목
+interface ReplacedEntry {
+  item: TrashItem;
+  fullPath: string;
+}
+
+// 휴지통으로 옮긴 기존 항목을 원래 자리로 되돌림 (옮길 때 뺀 파일 수도 다시 더함)
+async function restoreReplacedEntries(
+  userId: string,
+  entries: ReplacedEntry[]
+): Promise<void> {
+  for (const { item, fullPath } of entries) {
+    if (await restoreFromTrash(item, fullPath)) {
+      adjustStorageUsage(userId, 0, item.fileCount);
+    }
   }
 }
 
 /**
- * 유저의 특정 파일 내용 조회 API 핸들러
+ * ZIP 파일 가져오기 API 핸들러 (선택한 폴더에 압축을 풀어 저장, mode=merge|replace)
  */
-export async function handleUserFileContent(
-  req: Request,
-  { params }: { params: { userId: string; filename: string } }
-) {
-  const authResult = await requireAuth(req);
+export async function handleImportZip(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/import
 
-  // 인증 확인
+  const authResult = await requireAuth(req, "write");
   if (authResult.response) {
     return authResult.response;
   }
 
   // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== params.userId) {
+  if (authResult.user.id !== userId) {
     return new Response(
       JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
       {
@@ -722,130 +1502,3818 @@ export async function handleUserFileContent(
     );
   }
 
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
   try {
-    // 사용자의 파일 목록 가져오기
-    const files = getUserFiles(params.userId);
+    const formData = await req.formData();
+    const file = formData.get("file");
+    const destination = (formData.get("path") as string) || "";
+    const mode = (formData.get("mode") as string) || "merge";
 
-    // 파일명이 일치하는 파일 찾기
-    const file = files.find((file) => file.filename === params.filename);
+    if (!(file instanceof File)) {
+      return new Response(JSON.stringify({ error: "ZIP 파일이 필요합니다" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-    if (!file) {
+    if (mode !== "merge" && mode !== "replace") {
       return new Response(
-        JSON.stringify({ error: "파일을 찾을 수 없습니다" }),
+        JSON.stringify({
+          error: "가져오기 방식은 merge, replace 중 하나여야 합니다",
+        }),
         {
-          status: 404,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    // 파일 내용 읽기
-    const content = await readTextFile(file.id);
-
-    if (content === null) {
+    // 대상 폴더 확인
+    const destinationPath = await resolvePath(site.id, destination);
+    if (
+      (await exists(destinationPath)) &&
+      !(await isDirectory(destinationPath))
+    ) {
       return new Response(
-        JSON.stringify({ error: "파일 내용을 읽을 수 없습니다" }),
+        JSON.stringify({ error: "대상 경로가 폴더가 아닙니다" }),
         {
-          status: 500,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    return new Response(content, {
-      status: 200,
-      headers: { "Content-Type": file.mimeType || "text/plain" },
-    });
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "알 수 없는 오류";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
-  }
-}
-
-/**
- * 유저의 특정 파일 서빙 API 핸들러
- */
-export async function handleUserFileServe(
-  req: Request,
-  { params }: { params: { userId: string; filename: string } }
-) {
-  try {
-    // 사용자의 파일 목록 가져오기
-    const files = getUserFiles(params.userId);
-
-    // 파일명이 일치하는 파일 찾기
-    const file = files.find((file) => file.filename === params.filename);
-
-    if (!file) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    let entries: ZipEntry[];
+    try {
+      entries = readZipEntries(data).filter(
+        (entry) => !IGNORED_ZIP_ENTRIES.test(entry.name)
+      );
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: "파일을 찾을 수 없습니다" }),
+        JSON.stringify({
+          error: error instanceof Error ? error.message : "ZIP 파일 오류",
+        }),
         {
-          status: 404,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    // 파일 서빙
-    const result = await serveFile(file.id);
-
-    if (!result) {
-      return new Response(
-        JSON.stringify({ error: "파일을 서빙할 수 없습니다" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
+    // 압축 파일 안의 경로를 resolvePath와 같은 규칙으로 확인 (대상 폴더를 벗어나면 전체 거부)
+    const destinationRelative = getSiteRelativePath(site.id, destinationPath);
+    const targets: PendingExtract[] = [];
+    const seenPaths = new Set<string>();
+    for (const entry of entries) {
+      const name = entry.name.replace(/\/+$/, "");
+      let fullPath: string | null = null;
+
+      if (name && !name.startsWith("/") && !/^[a-zA-Z]:/.test(name)) {
+        try {
+          // resolvePath는 URL 디코딩을 하므로 이름을 인코딩해서 전달
+          const subPath = [destinationRelative, ...name.split("/")]
+            .filter(Boolean)
+            .map((part) => encodeURIComponent(part))
+            .join("/");
+          fullPath = await resolvePath(site.id, subPath);
+        } catch (error) {
+          fullPath = null;
         }
-      );
-    }
+      }
 
-    return new Response(result.data, {
-      status: 200,
-      headers: {
-        "Content-Type": result.file.mimeType,
-        "Content-Disposition": `inline; filename="${encodeURIComponent(
-          result.file.filename
-        )}"`,
+      if (
+        !fullPath ||
+        fullPath === destinationPath ||
+        !isSubPath(destinationPath, fullPath)
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `허용되지 않는 경로가 포함되어 있습니다: ${entry.name}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // 같은 경로가 여러 번 나오면 처음 항목만 사용
+      if (seenPaths.has(fullPath)) continue;
+      seenPaths.add(fullPath);
+
+      targets.push({ entry, fullPath, revision: null, change: null });
+    }
+
+    const fileTargets = targets.filter((target) => !target.entry.isDirectory);
+    const sumChanges = (): StorageChange => {
+      const changes = fileTargets
+        .map((target) => target.change)
+        .filter((change): change is StorageChange => change !== null);
+      return {
+        bytes: changes.reduce((sum, change) => sum + change.bytes, 0),
+        fileSizes: changes.flatMap((change) => change.fileSizes || []),
+        newFiles: changes.reduce(
+          (sum, change) => sum + (change.newFiles || 0),
+          0
+        ),
+      };
+    };
+
+    let existingFileCount = 0;
+    if (mode === "replace") {
+      // 기존 내용은 휴지통으로 옮겨지므로 모든 파일이 새로 생김
+      existingFileCount = (await calculatePathUsage(destinationPath)).fileCount;
+      for (const target of fileTargets) {
+        target.change = {
+          bytes: target.entry.size,
+          fileSizes: [target.entry.size],
+          newFiles: 1,
+        };
+      }
+    } else {
+      // 기존 파일을 덮어쓰는 경우 이전 내용을 리비전으로 보관
+      for (const target of fileTargets) {
+        target.revision = await prepareRevision(userId, target.fullPath);
+        target.change = await getWriteChange(
+          target.fullPath,
+          target.entry.size,
+          getRevisionBytes(target.revision)
+        );
+      }
+    }
+
+    // 압축을 푼 전체 크기로 요금제 한도 확인 및 사용량 예약 (아무것도 옮기거나 쓰기 전에)
+    // 바꾸기는 휴지통으로 옮길 기존 파일 수를 빼서 예약
+    const total = sumChanges();
+    const reservation: StorageChange = {
+      ...total,
+      newFiles: (total.newFiles || 0) - existingFileCount,
+    };
+    const quotaStatus = await reserveUserQuota(userId, reservation);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, total.bytes);
+    }
+
+    // 한도를 확보한 뒤 기존 내용을 휴지통으로 옮김 (하나라도 실패하면 모두 되돌림)
+    const replaced: ReplacedEntry[] = [];
+    if (mode === "replace") {
+      // 휴지통으로 옮길 때 빠지는 파일 수는 예약할 때 이미 뺐으므로 미리 더해 둠
+      adjustStorageUsage(userId, 0, existingFileCount);
+
+      for (const child of await listDirectory(destinationPath)) {
+        const fullPath = join(destinationPath, child.name);
+        const item = await moveToTrash(userId, fullPath);
+        if (!item) {
+          await restoreReplacedEntries(userId, replaced);
+          releaseUserQuota(userId, total);
+          return new Response(
+            JSON.stringify({ error: "기존 내용을 교체하지 못했습니다" }),
+            {
+              status: 500,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        replaced.push({ item, fullPath });
+      }
+    }
+
+    // 압축 풀기 (실패한 파일은 예약한 사용량 반환)
+    await createDirectory(destinationPath);
+    const failed: { path: string; error: string }[] = [];
+    for (const target of targets) {
+      const path = "/" + getSiteRelativePath(site.id, target.fullPath);
+
+      if (!target.change) {
+        await createDirectory(target.fullPath);
+        continue;
+      }
+
+      let success = false;
+      try {
+        const content = extractZipEntry(data, target.entry);
+        success = await writeFileByPath(target.fullPath, content);
+      } catch (error) {
+        failed.push({
+          path,
+          error: error instanceof Error ? error.message : "압축 풀기 실패",
+        });
+        releaseUserQuota(userId, target.change);
+        continue;
+      }
+
+      if (!success) {
+        failed.push({ path, error: "파일 저장 실패" });
+        releaseUserQuota(userId, target.change);
+      } else if (target.revision) {
+        await commitRevision(target.revision);
+      }
+    }
+
+    // 바꾸기 중 실패하면 압축을 푼 내용을 지우고 기존 내용을 되살림
+    if (mode === "replace" && failed.length > 0) {
+      for (const child of await listDirectory(destinationPath)) {
+        await deleteFileOrDirectoryByPath(join(destinationPath, child.name));
+      }
+      await restoreReplacedEntries(userId, replaced);
+      return new Response(
+        JSON.stringify({
+          error: "압축을 풀지 못해 기존 내용을 되돌렸습니다",
+          failed,
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        path: "/" + destinationRelative,
+        mode,
+        extracted: fileTargets.length - failed.length,
+        failed,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 텍스트 파일 생성 API 핸들러
+ */
+export async function handleFileCreate(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/files/create
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const json = await req.json();
+    const { path, content, mimeType } = json;
+
+    if (!path || !content) {
+      return new Response(
+        JSON.stringify({ error: "파일 경로와 내용이 필요합니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // mimeType 결정
+    let fileType = mimeType || "text/plain";
+
+    // 사용자 디렉토리 내 파일 경로 확인
+    const fullPath = await resolvePath(site.id, path);
+
+    // 요금제 한도 확인 및 사용량 예약
+    const change = await getWriteChange(fullPath, Buffer.byteLength(content));
+    const quotaStatus = await reserveUserQuota(userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, change.bytes);
+    }
+
+    // 파일 저장
+    const success = await writeFileByPath(fullPath, content);
+
+    if (!success) {
+      releaseUserQuota(userId, change);
+      return new Response(
+        JSON.stringify({ error: "파일 생성에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: path,
+        mimeType: fileType,
+      }),
+      {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 사용자 파일 목록 API 핸들러
+ */
+export async function handleFileList(req: Request) {
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const files = getUserFiles(authResult.user.id);
+  return new Response(
+    JSON.stringify({
+      files: files.map((file: any) => ({
+        id: file.id,
+        filename: file.filename,
+        size: file.size,
+        mimeType: file.mimeType,
+        uploadedAt: file.uploadedAt,
+      })),
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 파일 내용 조회 API 핸들러
+ */
+export async function handleFileContent({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const fileId = params.id;
+  if (!fileId) {
+    return new Response(JSON.stringify({ error: "파일 ID가 필요합니다" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const content = await readTextFile(fileId);
+
+    if (content === null) {
+      return new Response(
+        JSON.stringify({
+          error: "파일을 찾을 수 없거나 텍스트 파일이 아닙니다",
+        }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(content, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 파일 내용 업데이트 API 핸들러
+ */
+export async function handleFileContentUpdate(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const fileIdIndex = pathParts.indexOf("files") + 1;
+  const fileId = pathParts[fileIdIndex];
+
+  if (!fileId) {
+    return new Response(JSON.stringify({ error: "파일 ID가 필요합니다" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const content = await req.text();
+    const success = await updateTextFile(fileId, content);
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: "파일 업데이트 실패" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 파일 서빙 API 핸들러
+ */
+export async function handleFileGet({ params }: { params: { id: string } }) {
+  const fileId = params.id;
+  if (!fileId) {
+    return new Response("파일 ID가 필요합니다", { status: 400 });
+  }
+
+  const result = await serveFile(fileId);
+  if (!result) {
+    return new Response("파일을 찾을 수 없습니다", { status: 404 });
+  }
+
+  return new Response(result.data, {
+    status: 200,
+    headers: {
+      "Content-Type": result.file.mimeType,
+      "Content-Disposition": `inline; filename="${result.file.filename}"`,
+      "Content-Length": result.file.size.toString(),
+    },
+  });
+}
+
+/**
+ * 정적 파일 서빙 API 핸들러
+ */
+export async function handleServeFile({
+  params,
+}: {
+  params: { fileId: string };
+}) {
+  const fileId = params.fileId;
+  if (!fileId) {
+    return new Response("파일 ID가 필요합니다", { status: 400 });
+  }
+
+  const result = await serveFile(fileId);
+  if (!result) {
+    return new Response("파일을 찾을 수 없습니다", { status: 404 });
+  }
+
+  // HTML 파일인 경우 content-type을 text/html로 설정하여 브라우저에서 렌더링
+  const contentType =
+    result.file.mimeType === "text/html" ||
+    result.file.filename.endsWith(".html")
+      ? "text/html"
+      : result.file.mimeType;
+
+  return new Response(result.data, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `inline; filename="${result.file.filename}"`,
+      "Content-Length": result.file.size.toString(),
+    },
+  });
+}
+
+/**
+ * 현재 사용자 정보 확인 API 핸들러
+ */
+export async function handleGetMe(req: Request) {
+  const auth = await authenticateRequest(req);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ authenticated: false }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { user } = auth;
+  const impersonator = auth.impersonatorId
+    ? findUserById(auth.impersonatorId)
+    : null;
+
+  return new Response(
+    JSON.stringify({
+      authenticated: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+      },
+      // 관리자 가장 중이면 가장한 관리자 정보
+      impersonatedBy: impersonator
+        ? { id: impersonator.id, username: impersonator.username }
+        : null,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 테스트용 인사말 API 핸들러
+ */
+export async function handleHello(req: Request) {
+  return Response.json({
+    message: "안녕하세요! API 서버가 실행 중입니다.",
+    method: "GET",
+  });
+}
+
+/**
+ * 테스트용 PUT 인사말 API 핸들러
+ */
+export async function handleHelloPut(req: Request) {
+  return Response.json({
+    message: "Hello, world!",
+    method: "PUT",
+  });
+}
+
+/**
+ * 이름이 있는 인사말 API 핸들러
+ */
+export async function handleNamedHello({
+  params,
+}: {
+  params: { name: string };
+}) {
+  const name = params.name;
+  return Response.json({
+    message: `안녕하세요, ${name}님!`,
+  });
+}
+
+/**
+ * 특정 유저의 파일 목록 API 핸들러
+ */
+export async function handleUserFilesList(
+  req: Request,
+  { params }: { params: { userId: string } }
+) {
+  const authResult = await requireAuth(req, "read");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인 (관리자라면 다른 사용자 파일도 볼 수 있게 할 수 있음)
+  if (authResult.user.id !== params.userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    const files = getUserFiles(params.userId);
+
+    // 민감한 정보 제외
+    const sanitizedFiles = files.map(({ path, ...file }) => ({
+      ...file,
+      url: `/static/users/${params.userId}/${file.filename}`,
+    }));
+
+    return new Response(JSON.stringify({ files: sanitizedFiles }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저의 특정 파일 내용 조회 API 핸들러
+ */
+export async function handleUserFileContent(
+  req: Request,
+  { params }: { params: { userId: string; filename: string } }
+) {
+  const authResult = await requireAuth(req, "read");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== params.userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    // 사용자의 파일 목록 가져오기
+    const files = getUserFiles(params.userId);
+
+    // 파일명이 일치하는 파일 찾기
+    const file = files.find((file) => file.filename === params.filename);
+
+    if (!file) {
+      return new Response(
+        JSON.stringify({ error: "파일을 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 파일 내용 읽기
+    const content = await readTextFile(file.id);
+
+    if (content === null) {
+      return new Response(
+        JSON.stringify({ error: "파일 내용을 읽을 수 없습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(content, {
+      status: 200,
+      headers: { "Content-Type": file.mimeType || "text/plain" },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저의 특정 파일 서빙 API 핸들러
+ */
+export async function handleUserFileServe(
+  req: Request,
+  { params }: { params: { userId: string; filename: string } }
+) {
+  try {
+    // 사용자의 파일 목록 가져오기
+    const files = getUserFiles(params.userId);
+
+    // 파일명이 일치하는 파일 찾기
+    const file = files.find((file) => file.filename === params.filename);
+
+    if (!file) {
+      return new Response(
+        JSON.stringify({ error: "파일을 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 파일 서빙
+    const result = await serveFile(file.id);
+
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: "파일을 서빙할 수 없습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(result.data, {
+      status: 200,
+      headers: {
+        "Content-Type": result.file.mimeType,
+        "Content-Disposition": `inline; filename="${encodeURIComponent(
+          result.file.filename
+        )}"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저별 파일 탐색 API 핸들러
+ */
+export async function handleUserFilesDirectory(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/files
+
+  if (!userId) {
+    return new Response(JSON.stringify({ error: "사용자 ID가 필요합니다" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const authResult = await requireAuth(req, "read");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    // 사이트 루트 디렉토리 경로 조회
+    const userPath = await resolvePath(site.id);
+
+    // 디렉토리 내용 확인
+    if (await isDirectory(userPath)) {
+      const entries = await listDirectory(userPath);
+      const siteBasePath = getSiteBasePath(site);
+
+      return new Response(
+        JSON.stringify({
+          path: "/",
+          entries: entries.map((entry) => ({
+            name: entry.name,
+            isDirectory: entry.isDirectory,
+            size: entry.size,
+            mtime: entry.mtime.toISOString(),
+            url: entry.isDirectory
+              ? `/api/users/${userId}/files/${entry.name}`
+              : `${siteBasePath}/${entry.name}`,
+            contentUrl: !entry.isDirectory
+              ? `/api/users/${userId}/content/${entry.name}`
+              : null,
+          })),
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } else {
+      return new Response(
+        JSON.stringify({ error: "사용자 디렉토리를 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저별 하위 경로 API 핸들러
+ */
+export async function handleUserFilesSubPath(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/files/...
+
+  // /api/users/:userId/files/ 다음 경로 추출
+  const subPath = pathParts.slice(5).join("/");
+
+  if (!userId) {
+    return new Response(JSON.stringify({ error: "사용자 ID가 필요합니다" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const authResult = await requireAuth(req, "read");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    // 사용자 경로 조회
+    const fullPath = await resolvePath(site.id, subPath);
+
+    // 디렉토리 내용 확인
+    if (await isDirectory(fullPath)) {
+      const entries = await listDirectory(fullPath);
+
+      // 현재 경로 계산 (API 응답용)
+      const currentPath = subPath ? `/${subPath}` : "/";
+      const siteBasePath = getSiteBasePath(site);
+
+      // 상위 디렉토리 경로 계산
+      let parentPath = "/";
+      if (subPath) {
+        const parts = subPath.split("/");
+        if (parts.length > 1) {
+          parentPath = `/${parts.slice(0, -1).join("/")}`;
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          path: currentPath,
+          parentPath,
+          entries: entries.map((entry) => {
+            // 현재 경로가 루트가 아니면 경로를 포함하여 다음 URL 구성
+            const entryPath = subPath ? `${subPath}/${entry.name}` : entry.name;
+
+            return {
+              name: entry.name,
+              isDirectory: entry.isDirectory,
+              size: entry.size,
+              mtime: entry.mtime.toISOString(),
+              // 디렉토리면 files API, 아니면 static으로 접근
+              url: entry.isDirectory
+                ? `/api/users/${userId}/files/${entryPath}`
+                : `${siteBasePath}/${entryPath}`,
+              // 파일이면 content URL 제공
+              contentUrl: !entry.isDirectory
+                ? `/api/users/${userId}/content/${entryPath}`
+                : null,
+            };
+          }),
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } else {
+      return new Response(
+        JSON.stringify({ error: "디렉토리를 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저별 파일 내용 API 핸들러
+ */
+export async function handleUserFileContentPath(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/content/...
+
+  // /api/users/:userId/content/ 다음 경로 추출
+  const filePath = pathParts.slice(5).join("/");
+
+  if (!userId || !filePath) {
+    return new Response(
+      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const authResult = await requireAuth(req, "read");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    // 파일 경로 조회
+    const fullPath = await resolvePath(site.id, filePath);
+
+    // 디렉토리인지 확인
+    if (await isDirectory(fullPath)) {
+      return new Response(
+        JSON.stringify({ error: "디렉토리 내용은 읽을 수 없습니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 파일 내용 읽기
+    const result = await readFileByPath(fullPath);
+
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: "파일을 읽을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(result.content, {
+      status: 200,
+      headers: { "Content-Type": getContentType(result.mimeType) },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 정적 유저 파일 서빙 API 핸들러
+ */
+export async function handleStaticUserFilePath(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /static/users/:userId/...
+
+  // /static/users/:userId/ 다음 경로 추출
+  const filePath = pathParts.slice(4).join("/");
+
+  if (!userId || !filePath) {
+    return new Response("잘못된 파일 경로입니다", { status: 400 });
+  }
+
+  try {
+    // 파일 경로 조회
+    const fullPath = await resolvePath(userId, filePath);
+
+    // 디렉토리인지 확인
+    if (await isDirectory(fullPath)) {
+      return new Response("디렉토리는 직접 서빙할 수 없습니다", {
+        status: 400,
+      });
+    }
+
+    // 파일 내용 읽기
+    const result = await readBinaryFileByPath(fullPath);
+
+    if (!result) {
+      return new Response("파일을 찾을 수 없습니다", { status: 404 });
+    }
+
+    return new Response(result.data, {
+      status: 200,
+      headers: {
+        "Content-Type": getContentType(result.mimeType),
+        "Content-Disposition": `inline; filename="${encodeURIComponent(
+          filePath.split("/").pop() || ""
+        )}"`,
+        "Content-Length": result.size.toString(),
+      },
+    });
+  } catch (error) {
+    console.error(`파일 서빙 오류: ${error}`);
+    return new Response("파일을 서빙할 수 없습니다", { status: 500 });
+  }
+}
+
+/**
+ * 폴더 생성 API 핸들러
+ */
+export async function handleCreateDirectory(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/directory/create
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const json = await req.json();
+    const { path } = json;
+
+    if (!path) {
+      return new Response(JSON.stringify({ error: "폴더 경로가 필요합니다" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 사용자 디렉토리 내 경로 확인
+    const fullPath = await resolvePath(site.id, path);
+
+    // 디렉토리 생성
+    const success = await createDirectory(fullPath);
+
+    if (!success) {
+      return new Response(
+        JSON.stringify({ error: "폴더 생성에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: path,
+      }),
+      {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 유저별 파일 내용 업데이트 API 핸들러
+ */
+export async function handleUserFileContentPathUpdate(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/content/...
+
+  // /api/users/:userId/content/ 다음 경로 추출
+  const filePath = pathParts.slice(5).join("/");
+
+  if (!userId || !filePath) {
+    return new Response(
+      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const authResult = await requireAuth(req, "write");
+
+  // 인증 확인
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    // 요청 본문 확인
+    const content = await req.text();
+
+    if (!content) {
+      return new Response(
+        JSON.stringify({ error: "업데이트할 내용이 필요합니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 파일 경로 조회
+    const fullPath = await resolvePath(site.id, filePath);
+
+    // 디렉토리인지 확인
+    if (await isDirectory(fullPath)) {
+      return new Response(
+        JSON.stringify({ error: "디렉토리 내용은 업데이트할 수 없습니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 사이트 _headers, _redirects 파일은 형식을 확인한 뒤 저장
+    const ruleErrors = validateSiteRulesFile(
+      getSiteRelativePath(site.id, fullPath),
+      content
+    );
+    if (ruleErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "설정 파일 형식이 잘못되었습니다",
+          errors: ruleErrors,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 덮어쓰기 전 현재 내용을 리비전으로 보관
+    const revision = await prepareRevision(userId, fullPath);
+
+    // 요금제 한도 확인 및 사용량 예약 (기존 파일과의 크기 차이와 리비전 크기만 반영)
+    const change = await getWriteChange(
+      fullPath,
+      Buffer.byteLength(content),
+      getRevisionBytes(revision)
+    );
+    const quotaStatus = await reserveUserQuota(userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, change.bytes);
+    }
+
+    // 파일 내용 업데이트
+    const success = await writeFileByPath(fullPath, content);
+
+    if (!success) {
+      releaseUserQuota(userId, change);
+      return new Response(
+        JSON.stringify({ error: "파일 업데이트에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (revision) {
+      await commitRevision(revision);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: filePath,
+        message: "파일이 성공적으로 업데이트되었습니다",
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+// 리비전 목록 응답 형식
+function serializeFileRevision(revision: FileRevision) {
+  return {
+    id: revision.id,
+    hash: revision.hash,
+    size: revision.size,
+    createdAt: revision.createdAt,
+  };
+}
+
+/**
+ * 파일 리비전 목록 및 내용 조회 API 핸들러 (?rev=<id>이면 해당 리비전 내용 반환)
+ */
+export async function handleFileHistory(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/history/...
+
+  // /api/users/:userId/history/ 다음 경로 추출
+  const filePath = pathParts.slice(5).join("/");
+
+  if (!userId || !filePath) {
+    return new Response(
+      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const fullPath = await resolvePath(site.id, filePath);
+    const relativePath = getSiteRelativePath(site.id, fullPath);
+    const revisionId = url.searchParams.get("rev");
+
+    // 특정 리비전 내용 조회
+    if (revisionId) {
+      const revision = findFileRevisionById(revisionId);
+      if (
+        !revision ||
+        revision.siteId !== site.id ||
+        revision.path !== relativePath
+      ) {
+        return new Response(
+          JSON.stringify({ error: "리비전을 찾을 수 없습니다" }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const data = await readRevision(revision);
+      if (!data) {
+        return new Response(
+          JSON.stringify({ error: "리비전 내용을 읽을 수 없습니다" }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // 저장된 HTML이 실행되지 않도록 항상 일반 텍스트로 반환
+      return new Response(data, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "X-Content-Type-Options": "nosniff",
+        },
+      });
+    }
+
+    const revisions = getFileRevisions(site.id, relativePath);
+
+    return new Response(
+      JSON.stringify({
+        path: relativePath,
+        revisions: revisions.map(serializeFileRevision),
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 파일 리비전 복원 API 핸들러 (POST /api/users/:userId/history/<경로>/restore)
+ */
+export async function handleFileRestore(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/history/.../restore
+
+  // 경로 끝의 /restore를 제외한 파일 경로 추출
+  const isRestore = pathParts[pathParts.length - 1] === "restore";
+  const filePath = pathParts.slice(5, -1).join("/");
+
+  if (!userId || !isRestore || !filePath) {
+    return new Response(
+      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  // 현재 사용자가 접근하려는 유저와 동일한지 확인
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const json = await req.json();
+    const fullPath = await resolvePath(site.id, filePath);
+    const relativePath = getSiteRelativePath(site.id, fullPath);
+
+    const revision =
+      typeof json.rev === "string" ? findFileRevisionById(json.rev) : null;
+    if (
+      !revision ||
+      revision.siteId !== site.id ||
+      revision.path !== relativePath
+    ) {
+      return new Response(
+        JSON.stringify({ error: "리비전을 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const data = await readRevision(revision);
+    if (!data) {
+      return new Response(
+        JSON.stringify({ error: "리비전 내용을 읽을 수 없습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 복원도 되돌릴 수 있도록 현재 내용을 리비전으로 보관
+    const current = await prepareRevision(userId, fullPath);
+
+    // 요금제 한도 확인 및 사용량 예약
+    const change = await getWriteChange(
+      fullPath,
+      data.byteLength,
+      getRevisionBytes(current)
+    );
+    const quotaStatus = await reserveUserQuota(userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, change.bytes);
+    }
+
+    const success = await writeFileByPath(fullPath, data);
+
+    if (!success) {
+      releaseUserQuota(userId, change);
+      return new Response(
+        JSON.stringify({ error: "리비전 복원에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (current) {
+      await commitRevision(current);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: relativePath,
+        restored: serializeFileRevision(revision),
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+// 파일/폴더를 휴지통으로 이동 (삭제 API와 일괄 작업 공통 처리)
+async function trashFileOrDirectory(
+  site: Site,
+  fullPath: string
+): Promise<FileOperationResult> {
+  // 경로가 존재하는지 확인
+  if (!(await exists(fullPath))) {
+    return {
+      status: 404,
+      body: { error: "파일이나 폴더를 찾을 수 없습니다" },
+    };
+  }
+
+  // 사이트 루트 폴더는 삭제할 수 없음
+  const relativePath = getSiteRelativePath(site.id, fullPath);
+  if (!relativePath) {
+    return {
+      status: 400,
+      body: { error: "최상위 폴더는 삭제할 수 없습니다" },
+    };
+  }
+
+  const trashItem = await moveToTrash(site.userId, fullPath);
+  if (!trashItem) {
+    return { status: 500, body: { error: "삭제에 실패했습니다" } };
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      path: "/" + relativePath,
+      message: "파일/폴더를 휴지통으로 이동했습니다",
+      trashItem: serializeTrashItem(trashItem),
+    },
+  };
+}
+
+/**
+ * 파일/폴더 삭제 API 핸들러
+ */
+export async function handleDeleteFileOrDirectory(req: Request) {
+  const authResult = await requireAuth(req, "delete");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  try {
+    const json = await req.json();
+    const { path } = json;
+
+    if (!path) {
+      return new Response(
+        JSON.stringify({ error: "삭제할 경로가 필요합니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const site = getRequestSite(req, authResult.user.id);
+    if (!site) {
+      return siteNotFoundResponse();
+    }
+
+    // 사이트 디렉토리 내 경로 확인
+    const fullPath = await resolvePath(site.id, path);
+
+    return toJsonResponse(await trashFileOrDirectory(site, fullPath));
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+// 사용자당 만들 수 있는 최대 사이트 수 (기본 사이트 포함, 환경 변수로 변경 가능)
+const MAX_SITES_PER_USER = Number(process.env.MAX_SITES_PER_USER) || 10;
+
+// 사이트 이름 최대 길이
+const MAX_SITE_NAME_LENGTH = 50;
+
+// 사이트 응답 형식
+function serializeSite(site: Site) {
+  return {
+    id: site.id,
+    name: site.name,
+    isDefault: site.id === site.userId,
+    slug: getCurrentSiteSlug(site.id)?.slug ?? null,
+    siteUrl: getSiteBasePath(site),
+    createdAt: site.createdAt,
+  };
+}
+
+// 요청 본문의 사이트 이름 검사 (올바르면 앞뒤 공백을 뺀 이름, 아니면 null)
+function parseSiteName(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const name = value.trim();
+  return name && name.length <= MAX_SITE_NAME_LENGTH ? name : null;
+}
+
+// 사이트 관리 API 공통 인증 (URL의 사용자와 로그인한 사용자가 같은지 확인하고 대상 사이트 조회)
+async function requireSiteOwner(
+  req: Request,
+  scope: TokenScope
+): Promise<
+  | { userId: string; site: Site | null; response?: undefined }
+  | { response: Response }
+> {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/sites/:id
+  const siteId = pathParts[5];
+
+  const authResult = await requireAuth(req, scope);
+  if (authResult.response) {
+    return { response: authResult.response };
+  }
+
+  if (!userId || authResult.user.id !== userId) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+        }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+
+  if (!siteId) {
+    return { userId, site: null };
+  }
+
+  const site = findSiteById(siteId);
+  if (!site || site.userId !== userId) {
+    return { response: siteNotFoundResponse() };
+  }
+  return { userId, site };
+}
+
+/**
+ * 사이트 목록 조회 API 핸들러 (기본 사이트가 맨 앞)
+ */
+export async function handleListSites(req: Request) {
+  const owner = await requireSiteOwner(req, "read");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  return new Response(
+    JSON.stringify({
+      sites: getSitesByUserId(owner.userId).map(serializeSite),
+      maxSites: MAX_SITES_PER_USER,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 사이트 생성 API 핸들러
+ */
+export async function handleCreateSite(req: Request) {
+  const owner = await requireSiteOwner(req, "write");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  const body = await req.json().catch(() => null);
+  const name = parseSiteName(body?.name);
+  if (!name) {
+    return new Response(
+      JSON.stringify({
+        error: `사이트 이름은 1~${MAX_SITE_NAME_LENGTH}자여야 합니다`,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (getSitesByUserId(owner.userId).length >= MAX_SITES_PER_USER) {
+    return new Response(
+      JSON.stringify({
+        error: `사이트는 최대 ${MAX_SITES_PER_USER}개까지 만들 수 있습니다`,
+      }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = createSite(owner.userId, name);
+  if (!site) {
+    return new Response(
+      JSON.stringify({ error: "사이트 생성에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, site: serializeSite(site) }),
+    {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 사이트 이름 변경 API 핸들러
+ */
+export async function handleUpdateSite(req: Request) {
+  const owner = await requireSiteOwner(req, "write");
+  if (owner.response) {
+    return owner.response;
+  }
+  if (!owner.site) {
+    return siteNotFoundResponse();
+  }
+
+  const body = await req.json().catch(() => null);
+  const name = parseSiteName(body?.name);
+  if (!name) {
+    return new Response(
+      JSON.stringify({
+        error: `사이트 이름은 1~${MAX_SITE_NAME_LENGTH}자여야 합니다`,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = updateSiteName(owner.site.id, name);
+  if (!site) {
+    return new Response(
+      JSON.stringify({ error: "사이트 이름 변경에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, site: serializeSite(site) }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 사이트 삭제 API 핸들러 (파일, 휴지통, 리비전을 모두 영구 삭제하고 사용량 반환, 기본 사이트는 삭제 불가)
+ */
+export async function handleDeleteSite(req: Request) {
+  const owner = await requireSiteOwner(req, "delete");
+  if (owner.response) {
+    return owner.response;
+  }
+  const { site } = owner;
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  if (site.id === site.userId) {
+    return new Response(
+      JSON.stringify({ error: "기본 사이트는 삭제할 수 없습니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    // 진행 중인 업로드, 휴지통, 리비전은 각자 예약하거나 차지한 사용량을 반환하며 정리
+    for (const session of getUploadSessionsByUserId(site.userId)) {
+      if (session.siteId === site.id) {
+        await cancelUpload(session);
+      }
+    }
+    await emptyTrash(site.id);
+    await purgeSiteHistory(site.userId, site.id);
+
+    const usage = await calculatePathUsage(await resolvePath(site.id));
+    await deleteSiteStorage(site.id);
+    adjustStorageUsage(site.userId, -usage.bytes, -usage.fileCount);
+
+    if (!deleteSite(site.id)) {
+      return new Response(
+        JSON.stringify({ error: "사이트 삭제에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true, id: site.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`사이트 삭제 오류: ${error}`);
+    return new Response(
+      JSON.stringify({ error: "사이트 삭제 중 오류가 발생했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+/**
+ * 사이트 설정 조회 API 핸들러
+ */
+export async function handleGetSiteSettings(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/site
+
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({
+        error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+      }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  const settings = await getSiteSettings(site.id);
+  const notFoundPage = await exists(
+    join(await resolvePath(site.id), SITE_NOT_FOUND_PAGE)
+  );
+
+  return new Response(
+    JSON.stringify({
+      settings,
+      notFoundPage,
+      slug: getCurrentSiteSlug(site.id)?.slug ?? null,
+      slugHistory: getSiteSlugHistory(site.id).map((entry) => ({
+        slug: entry.slug,
+        retiredAt: entry.retiredAt,
+      })),
+      siteUrl: getSiteBasePath(site),
+      siteDomain: SITE_DOMAIN,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 사이트 설정 변경 API 핸들러 (사이트 최상위의 _site.json에 저장)
+ */
+export async function handleUpdateSiteSettings(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/site
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({
+        error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+      }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || typeof body.spa !== "boolean") {
+      return new Response(
+        JSON.stringify({ error: "spa 값(true/false)이 필요합니다" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 기존 설정 파일의 다른 항목은 유지
+    const fullPath = await resolvePath(site.id, SITE_SETTINGS_FILE);
+    let current: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(await Bun.file(fullPath).text());
+      if (parsed && typeof parsed === "object") {
+        current = parsed;
+      }
+    } catch (error) {
+      // 설정 파일이 없거나 형식이 잘못되었으면 새로 작성
+    }
+
+    const settings: SiteSettings = { spa: body.spa };
+    const content = JSON.stringify({ ...current, ...settings }, null, 2) + "\n";
+
+    // 덮어쓰기 전 현재 내용을 리비전으로 보관하고 사용량 예약
+    const revision = await prepareRevision(userId, fullPath);
+    const change = await getWriteChange(
+      fullPath,
+      Buffer.byteLength(content),
+      getRevisionBytes(revision)
+    );
+    const quotaStatus = await reserveUserQuota(userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, change.bytes);
+    }
+
+    if (!(await writeFileByPath(fullPath, content))) {
+      releaseUserQuota(userId, change);
+      return new Response(
+        JSON.stringify({ error: "사이트 설정 저장에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (revision) {
+      await commitRevision(revision);
+    }
+
+    return new Response(JSON.stringify({ success: true, settings }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error(`사이트 설정 저장 오류: ${error}`);
+    return new Response(
+      JSON.stringify({ error: "사이트 설정 저장 중 오류가 발생했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+/**
+ * 사이트 주소 변경 API 핸들러 (이전 주소는 새 주소로 이동하도록 보관)
+ */
+export async function handleUpdateSiteSlug(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/site/slug
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({
+        error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+      }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  const body = await req.json().catch(() => null);
+  const slug =
+    body && typeof body.slug === "string" ? body.slug.trim().toLowerCase() : "";
+
+  const validationError = validateSiteSlug(slug);
+  if (validationError) {
+    return new Response(JSON.stringify({ error: validationError }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // 다른 사이트가 사용 중이거나 예전에 사용한 주소 (이전 주소의 이동을 유지하기 위해 재사용 불가)
+  const existing = findSiteSlug(slug);
+  if (existing && existing.siteId !== site.id) {
+    return new Response(
+      JSON.stringify({ error: "이미 사용 중인 사이트 주소입니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const updated = setSiteSlug(site, slug);
+  if (!updated) {
+    return new Response(
+      JSON.stringify({ error: "사이트 주소 변경에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      slug: updated.slug,
+      siteUrl: getSiteBasePath(site),
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// 공개 범위 규칙을 응답 형식으로 변환 (비밀번호 해시와 서명 키는 제외)
+function serializeSiteAccessRule(rule: SiteAccessRule) {
+  return {
+    path: "/" + rule.path,
+    visibility: rule.visibility,
+    hasPassword: !!rule.passwordHash,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * 사이트 공개 범위 규칙 목록 API 핸들러 (사이트 전체와 폴더별 규칙)
+ */
+export async function handleGetSiteAccess(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/site/access
+
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({
+        error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+      }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  return new Response(
+    JSON.stringify({
+      rules: getSiteAccessRules(site.id).map(serializeSiteAccessRule),
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 사이트 공개 범위 변경 API 핸들러
+ * path가 "/"이면 사이트 전체, 폴더 경로면 해당 폴더와 하위 항목에 적용
+ * visibility가 "inherit"이면 규칙을 삭제해 상위 폴더 설정을 따름
+ */
+export async function handleUpdateSiteAccess(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/site/access
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({
+        error: "다른 사용자의 사이트에 접근할 권한이 없습니다",
+      }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const visibility = body?.visibility;
+    if (
+      typeof body?.path !== "string" ||
+      (visibility !== "inherit" && !SITE_VISIBILITIES.includes(visibility))
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: `path와 visibility(${SITE_VISIBILITIES.join(
+            ", "
+          )}, inherit) 값이 필요합니다`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 규칙은 사이트 디렉토리 기준 상대 경로로 저장 (최상위는 빈 문자열)
+    const fullPath = await resolvePath(site.id, body.path);
+    const path = getSiteRelativePath(site.id, fullPath);
+    if (path && !(await isDirectory(fullPath))) {
+      return new Response(
+        JSON.stringify({ error: "폴더를 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (visibility === "inherit") {
+      deleteSiteAccessRule(site.id, path);
+      const effective = getEffectiveAccessRule(site.id, path);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          rule: null,
+          effectiveVisibility: effective?.visibility ?? "public",
+        }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 비밀번호를 새로 정하면 서명 키도 새로 만들어 이전에 잠금을 푼 방문자도 다시 입력하게 함
+    const existing = findSiteAccessRule(site.id, path);
+    let passwordHash: string | null = null;
+    let secret: string | null = null;
+    if (visibility === "password") {
+      const password = body.password;
+      if (typeof password === "string" && password) {
+        if (
+          password.length < MIN_SITE_PASSWORD_LENGTH ||
+          password.length > MAX_SITE_PASSWORD_LENGTH
+        ) {
+          return new Response(
+            JSON.stringify({
+              error: `비밀번호는 ${MIN_SITE_PASSWORD_LENGTH}~${MAX_SITE_PASSWORD_LENGTH}자여야 합니다`,
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        passwordHash = await hashPassword(password);
+        secret = randomBytes(32).toString("base64url");
+      } else if (existing?.passwordHash && existing.secret) {
+        passwordHash = existing.passwordHash;
+        secret = existing.secret;
+      } else {
+        return new Response(
+          JSON.stringify({ error: "비밀번호가 필요합니다" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const rule: SiteAccessRule = {
+      siteId: site.id,
+      userId,
+      path,
+      visibility: visibility as SiteVisibility,
+      passwordHash,
+      secret,
+      updatedAt: new Date().toISOString(),
+    };
+    if (!saveSiteAccessRule(rule)) {
+      return new Response(
+        JSON.stringify({ error: "공개 범위 저장에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        rule: serializeSiteAccessRule(rule),
+        effectiveVisibility: rule.visibility,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error(`공개 범위 저장 오류: ${error}`);
+    return new Response(
+      JSON.stringify({ error: "공개 범위 저장 중 오류가 발생했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+// 공유 링크를 응답 형식으로 변환 (비밀번호 해시와 서명 키는 제외)
+function serializeShareLink(share: ShareLink) {
+  return {
+    id: share.id,
+    path: "/" + share.path,
+    url: getShareUrl(share),
+    expiresAt: share.expiresAt,
+    maxDownloads: share.maxDownloads,
+    downloadCount: share.downloadCount,
+    hasPassword: !!share.passwordHash,
+    createdAt: share.createdAt,
+  };
+}
+
+/**
+ * 공유 링크 목록 API 핸들러 (만료되지 않은 링크, ?path=로 파일이나 폴더 지정 가능)
+ */
+export async function handleListShares(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/shares
+
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  const path = url.searchParams.get("path");
+  const shares = getActiveShareLinks(
+    site.id,
+    path === null
+      ? null
+      : getSiteRelativePath(site.id, await resolvePath(site.id, path))
+  );
+
+  return new Response(
+    JSON.stringify({ shares: shares.map(serializeShareLink) }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 공유 링크 생성 API 핸들러
+ * path의 파일이나 폴더를 expiresInDays일 동안 공유 (선택: maxDownloads 다운로드 횟수 제한, password 비밀번호)
+ */
+export async function handleCreateShare(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/shares
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  try {
+    const json = await req.json().catch(() => null);
+    if (!json || typeof json.path !== "string") {
+      return new Response(JSON.stringify({ error: "경로가 필요합니다" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 사이트 설정 파일은 공유하지 않음
+    const fullPath = await resolvePath(site.id, json.path);
+    const path = getSiteRelativePath(site.id, fullPath);
+    if (isSiteConfigFile(path) || !(await exists(fullPath))) {
+      return new Response(
+        JSON.stringify({ error: "파일이나 폴더를 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const days = Number(json.expiresInDays ?? DEFAULT_SHARE_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+      return new Response(
+        JSON.stringify({
+          error: `만료 기간은 1~${MAX_SHARE_DAYS}일이어야 합니다`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // 다운로드 횟수 제한 (null이면 제한 없음)
+    let maxDownloads: number | null = null;
+    if (json.maxDownloads !== undefined && json.maxDownloads !== null) {
+      maxDownloads = Number(json.maxDownloads);
+      if (
+        !Number.isInteger(maxDownloads) ||
+        maxDownloads < 1 ||
+        maxDownloads > MAX_SHARE_DOWNLOADS
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `다운로드 횟수 제한은 1~${MAX_SHARE_DOWNLOADS}회여야 합니다`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    let passwordHash: string | null = null;
+    if (typeof json.password === "string" && json.password) {
+      if (
+        json.password.length < MIN_SITE_PASSWORD_LENGTH ||
+        json.password.length > MAX_SITE_PASSWORD_LENGTH
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `비밀번호는 ${MIN_SITE_PASSWORD_LENGTH}~${MAX_SITE_PASSWORD_LENGTH}자여야 합니다`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      passwordHash = await hashPassword(json.password);
+    }
+
+    const share = createShareLink({
+      userId,
+      siteId: site.id,
+      path,
+      secret: randomBytes(32).toString("base64url"),
+      passwordHash,
+      maxDownloads,
+      expiresAt: new Date(
+        Date.now() + days * 24 * 60 * 60 * 1000
+      ).toISOString(),
+    });
+
+    if (!share) {
+      return new Response(
+        JSON.stringify({ error: "공유 링크 생성에 실패했습니다" }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, share: serializeShareLink(share) }),
+      {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error(`공유 링크 생성 오류: ${error}`);
+    return new Response(
+      JSON.stringify({ error: "공유 링크 생성 중 오류가 발생했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+/**
+ * 공유 링크 취소 API 핸들러
+ */
+export async function handleDeleteShare(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/shares/:id
+  const shareId = pathParts[5];
+
+  const authResult = await requireAuth(req, "write");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const share = shareId ? findShareLinkById(shareId) : null;
+  if (!share || share.userId !== userId) {
+    return new Response(
+      JSON.stringify({ error: "공유 링크를 찾을 수 없습니다" }),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (!deleteShareLink(share.id)) {
+    return new Response(
+      JSON.stringify({ error: "공유 링크 취소에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * 유저 파일 직접 접근 API 핸들러
+ * /static/users/:userId/* 형식으로 직접 접근 (사이트 주소가 있으면 /s/:slug/* 로 이동)
+ */
+export async function handleUserDirectAccess(req: Request, server?: Server) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+
+  // /static/users/:userId/* 경로에서 userId는 3번째 위치
+  const userId = pathParts[3];
+
+  // /static/users/:userId/ 다음 경로 추출
+  const filePath = pathParts.slice(4).join("/");
+
+  if (!userId) {
+    return new Response("잘못된 경로입니다", { status: 400 });
+  }
+
+  try {
+    // 사용자 ID 유효성 검증
+    const userExists = findUserById(userId);
+    if (!userExists) {
+      return new Response("존재하지 않는 사용자입니다", { status: 404 });
+    }
+
+    // 사이트 주소가 있으면 주소 기반 URL로 이동 (주소는 바뀔 수 있으므로 임시 이동)
+    const slug = getCurrentSiteSlug(userId);
+    if (slug) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `/s/${slug.slug}/${filePath}${url.search}` },
+      });
+    }
+
+    // 기본 사이트의 ID는 사용자 ID와 같음
+    return await serveSite(
+      req,
+      userId,
+      filePath,
+      `/static/users/${userId}`,
+      server
+    );
+  } catch (error) {
+    console.error(`파일 접근 오류: ${error}`);
+    return new Response("파일 접근에 실패했습니다", { status: 500 });
+  }
+}
+
+/**
+ * 사이트 파일 직접 접근 API 핸들러
+ * /static/sites/:siteId/* 형식으로 직접 접근 (기본 사이트가 아닌 사이트, 사이트 주소가 있으면 /s/:slug/* 로 이동)
+ */
+export async function handleSiteDirectAccess(req: Request, server?: Server) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+
+  // /static/sites/:siteId/* 경로에서 siteId는 3번째 위치
+  const siteId = pathParts[3];
+  const filePath = pathParts.slice(4).join("/");
+
+  if (!siteId) {
+    return new Response("잘못된 경로입니다", { status: 400 });
+  }
+
+  try {
+    const site = findSiteById(siteId);
+    if (!site) {
+      return new Response("존재하지 않는 사이트입니다", { status: 404 });
+    }
+
+    // 기본 사이트와 주소가 있는 사이트는 대표 URL로 이동
+    const basePath = getSiteBasePath(site);
+    if (basePath !== `/static/sites/${site.id}`) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `${basePath}/${filePath}${url.search}` },
+      });
+    }
+
+    return await serveSite(req, site.id, filePath, basePath, server);
+  } catch (error) {
+    console.error(`파일 접근 오류: ${error}`);
+    return new Response("파일 접근에 실패했습니다", { status: 500 });
+  }
+}
+
+/**
+ * 사이트 주소로 파일 접근 API 핸들러
+ * /s/:slug/* 형식으로 접근 (이전 주소는 현재 주소로 이동)
+ */
+export async function handleSiteSlugAccess(req: Request, server?: Server) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+
+  // /s/:slug/* 경로에서 slug는 2번째 위치
+  const slug = pathParts[2]?.toLowerCase();
+  const filePath = pathParts.slice(3).join("/");
+
+  if (!slug) {
+    return new Response("잘못된 경로입니다", { status: 400 });
+  }
+
+  try {
+    const site = findSiteSlug(slug);
+    if (!site) {
+      return new Response("존재하지 않는 사이트입니다", { status: 404 });
+    }
+
+    if (site.retiredAt) {
+      const target = findSiteById(site.siteId);
+      if (!target) {
+        return new Response("존재하지 않는 사이트입니다", { status: 404 });
+      }
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: `${getSiteBasePath(target)}/${filePath}${url.search}`,
+        },
+      });
+    }
+
+    return await serveSite(
+      req,
+      site.siteId,
+      filePath,
+      `/s/${site.slug}`,
+      server
+    );
+  } catch (error) {
+    console.error(`파일 접근 오류: ${error}`);
+    return new Response("파일 접근에 실패했습니다", { status: 500 });
+  }
+}
+
+/**
+ * 하위 도메인 사이트 요청 핸들러 (<slug>.<SITE_DOMAIN> 형식의 Host로 접근)
+ */
+export async function handleSiteHostRequest(req: Request, server?: Server) {
+  const url = new URL(req.url);
+
+  // POST는 비밀번호 입력 페이지의 잠금 해제 요청
+  if (req.method !== "GET" && req.method !== "HEAD" && req.method !== "POST") {
+    return new Response("허용되지 않는 요청입니다", {
+      status: 405,
+      headers: { Allow: "GET, HEAD, POST" },
+    });
+  }
+
+  const slug = getSlugFromHost(req.headers.get("Host"));
+  if (!slug) {
+    return new Response("존재하지 않는 사이트입니다", { status: 404 });
+  }
+
+  try {
+    const site = findSiteSlug(slug);
+    if (!site) {
+      return new Response("존재하지 않는 사이트입니다", { status: 404 });
+    }
+
+    if (site.retiredAt) {
+      const current = getCurrentSiteSlug(site.siteId);
+      if (!current) {
+        return new Response("존재하지 않는 사이트입니다", { status: 404 });
+      }
+      const port = url.port ? `:${url.port}` : "";
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: `${url.protocol}//${current.slug}.${SITE_DOMAIN}${port}${url.pathname}${url.search}`,
+        },
+      });
+    }
+
+    return await serveSite(req, site.siteId, url.pathname.slice(1), "", server);
+  } catch (error) {
+    console.error(`파일 접근 오류: ${error}`);
+    return new Response("파일 접근에 실패했습니다", { status: 500 });
+  }
+}
+
+/**
+ * 공유 링크 접근 핸들러
+ * /share/:token/* 형식으로 접근 (폴더를 공유한 링크는 하위 경로도 제공, POST는 비밀번호 잠금 해제)
+ */
+export async function handleShareAccess(req: Request, server?: Server) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+
+  // /share/:token/* 경로에서 token은 2번째 위치
+  const token = pathParts[2] || "";
+  const subPath = pathParts.slice(3).join("/");
+  const basePath = `/share/${token}`;
+
+  try {
+    const share = findShareByToken(token);
+    if (!share) {
+      return new Response("공유 링크를 찾을 수 없습니다", { status: 404 });
+    }
+    if (isShareExpired(share)) {
+      return new Response("만료된 공유 링크입니다", { status: 410 });
+    }
+
+    // 비밀번호 입력 페이지에서 보낸 잠금 해제 요청
+    if (req.method === "POST") {
+      return await unlockShare(req, share, server);
+    }
+
+    if (
+      share.passwordHash &&
+      !hasValidUnlockCookie(req, getShareUnlockTarget(share))
+    ) {
+      return new Response(renderUnlockPage(), {
+        status: 401,
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // 링크가 가리키는 파일이나 폴더 밖의 경로는 제공하지 않음
+    const fullPath = await resolvePath(
+      share.siteId,
+      [share.path, subPath].filter(Boolean).join("/")
+    );
+    const relativePath = getSiteRelativePath(share.siteId, fullPath);
+    const insideShare =
+      relativePath === share.path ||
+      !share.path ||
+      relativePath.startsWith(`${share.path}/`);
+    if (
+      !insideShare ||
+      isSiteConfigFile(relativePath) ||
+      !(await exists(fullPath))
+    ) {
+      return new Response("파일을 찾을 수 없습니다", { status: 404 });
+    }
+
+    // 공유한 내용은 공유 캐시에 저장하거나 색인하지 않음
+    const shareHeaders = {
+      "Cache-Control": "private, no-cache",
+      "X-Robots-Tag": "noindex, nofollow",
+    };
+
+    let filePath = fullPath;
+    if (await isDirectory(fullPath)) {
+      // 폴더 안 index.html의 상대 경로 링크가 맞도록 끝에 / 추가
+      if (!url.pathname.endsWith("/")) {
+        return new Response(null, {
+          status: 301,
+          headers: { Location: `${url.pathname}/${url.search}` },
+        });
+      }
+
+      filePath = join(fullPath, "index.html");
+      if (!(await exists(filePath))) {
+        const html = await renderDirectoryListing(
+          fullPath,
+          subPath.replace(/\/+$/, ""),
+          basePath
+        );
+        return new Response(html, {
+          status: 200,
+          headers: { "Content-Type": "text/html", ...shareHeaders },
+        });
+      }
+    }
+
+    // 다운로드 횟수를 모두 사용한 링크는 이어 받기나 재검증 요청도 거부
+    if (isShareExhausted(share)) {
+      return new Response("다운로드 횟수를 모두 사용한 공유 링크입니다", {
+        status: 410,
+      });
+    }
+
+    // 응답을 만들기 전에 다운로드로 기록 (한도에 도달했으면 파일을 보내지 않음)
+    // 범위 요청도 내용을 보내므로 한 번으로 기록 (나눠 받아 횟수 제한을 우회하지 못하도록)
+    const counted = req.method === "GET";
+    if (counted && !recordShareLinkDownload(share.id)) {
+      return new Response("다운로드 횟수를 모두 사용한 공유 링크입니다", {
+        status: 410,
+      });
+    }
+
+    const response = await serveStaticFile(req, share.siteId, filePath, {
+      "X-Content-Type-Options": "nosniff",
+      ...shareHeaders,
+    });
+
+    // 내용을 보내지 않은 응답(304 재검증, 범위 오류)은 기록을 되돌림
+    if (counted && response.status !== 200 && response.status !== 206) {
+      releaseShareLinkDownload(share.id);
+    }
+    return response;
+  } catch (error) {
+    console.error(`공유 링크 접근 오류: ${error}`);
+    return new Response("파일 접근에 실패했습니다", { status: 500 });
+  }
+}
+
+// 공유 링크 비밀번호 입력 처리 (맞으면 이 링크에만 쓰이는 서명 쿠키를 설정하고 같은 주소로 이동)
+async function unlockShare(
+  req: Request,
+  share: ShareLink,
+  server?: Server
+): Promise<Response> {
+  const url = new URL(req.url);
+  const location = url.pathname + url.search;
+
+  if (!share.passwordHash) {
+    return new Response(null, { status: 303, headers: { Location: location } });
+  }
+
+  const ipAddress = getClientIp(req, server);
+  const rateLimit = checkSiteUnlockAllowed(ipAddress, share.id);
+  if (!rateLimit.allowed) {
+    return new Response(renderUnlockPage(rateLimit.reason), {
+      status: 429,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "Retry-After": rateLimit.retryAfter.toString(),
+      },
+    });
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const password = formData?.get("password");
+  if (
+    typeof password !== "string" ||
+    !(await Bun.password.verify(password, share.passwordHash))
+  ) {
+    recordSiteUnlockFailure(ipAddress, share.id);
+    return new Response(renderUnlockPage("비밀번호가 올바르지 않습니다."), {
+      status: 401,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  return new Response(null, {
+    status: 303,
+    headers: {
+      Location: location,
+      "Set-Cookie": createUnlockCookie(
+        getShareUnlockTarget(share),
+        `/share/${getShareToken(share)}`
+      ),
+    },
+  });
+}
+
+// 사이트의 파일 응답 (basePath는 사이트 최상위 URL 경로, 리다이렉트와 디렉토리 목록 링크에 사용)
+async function serveSite(
+  req: Request,
+  siteId: string,
+  requestPath: string,
+  basePath: string,
+  server?: Server
+): Promise<Response> {
+  const url = new URL(req.url);
+  let filePath = requestPath;
+
+  // 비밀번호 입력 페이지에서 보낸 잠금 해제 요청
+  if (req.method === "POST") {
+    return await unlockSite(req, siteId, requestPath, basePath, server);
+  }
+
+  // 파일 경로 조회
+  let fullPath = await resolvePath(siteId, filePath);
+
+  // 공개 범위 확인 (비공개나 비밀번호로 보호된 폴더면 리다이렉트 규칙보다 먼저 거부)
+  let accessResult = await checkSiteAccess(
+    req,
+    siteId,
+    getSiteRelativePath(siteId, fullPath)
+  );
+  if (!accessResult.allowed) {
+    return siteAccessDeniedResponse(accessResult.rule);
+  }
+
+  // 사이트 _redirects 규칙 적용 (요청한 경로에 파일이 있으면 강제 규칙만)
+  const sitePath = `/${filePath}`;
+  const fileExists =
+    (await exists(fullPath)) &&
+    !isSiteConfigFile(getSiteRelativePath(siteId, fullPath));
+  const redirect = await findSiteRedirect(siteId, sitePath, fileExists);
+  if (redirect && redirect.status !== 200) {
+    const location = /^https?:\/\//i.test(redirect.to)
+      ? redirect.to
+      : `${basePath}${redirect.to}`;
+    return new Response(null, {
+      status: redirect.status,
+      headers: {
+        // 대상에 쿼리 문자열이 없으면 요청의 쿼리 문자열 유지
+        Location: location.includes("?") ? location : location + url.search,
+      },
+    });
+  }
+  if (redirect) {
+    // 200 규칙은 주소는 그대로 두고 대상 파일로 응답
+    filePath = redirect.to.split("?")[0]!.replace(/^\/+/, "");
+    fullPath = await resolvePath(siteId, filePath);
+
+    // 대상 파일의 공개 범위도 확인
+    accessResult = await checkSiteAccess(
+      req,
+      siteId,
+      getSiteRelativePath(siteId, fullPath)
+    );
+    if (!accessResult.allowed) {
+      return siteAccessDeniedResponse(accessResult.rule);
+    }
+  }
+
+  // 사이트 _headers 규칙 (요청한 경로 기준, 보호된 파일은 공유 캐시에 저장하지 않도록 공개 범위 헤더 우선)
+  const siteHeaders = {
+    ...(await getSiteHeaders(siteId, sitePath)),
+    ...accessResult.headers,
+  };
+
+  console.log(
+    `접근 요청: siteId=${siteId}, filePath=${filePath}, fullPath=${fullPath}`
+  );
+
+  // 디렉토리인 경우 디렉토리 목록 표시 (선택적)
+  if (await isDirectory(fullPath)) {
+    // 기본 index.html 파일이 있는지 확인
+    const indexPath = join(fullPath, "index.html");
+    try {
+      await access(indexPath);
+      // index.html 파일이 있으면 해당 파일 서빙
+      return await serveStaticFile(req, siteId, indexPath, {
+        "X-Content-Type-Options": "nosniff",
+        ...siteHeaders,
+      });
+    } catch (error) {
+      // 링크로만 공개한 폴더는 목록을 보여주지 않음
+      if (accessResult.visibility === "unlisted") {
+        return await serveSiteNotFound(req, siteId, sitePath, siteHeaders);
+      }
+
+      // index.html이 없으면 디렉토리 내용을 간단한 HTML로 표시
+      const html = await renderDirectoryListing(fullPath, filePath, basePath);
+
+      return new Response(html, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/html",
+          "Cache-Control": "no-cache",
+          ...siteHeaders,
+        },
+      });
+    }
+  }
+
+  // 없는 파일이면 SPA 모드의 index.html이나 사이트의 404.html로 응답 (사이트 설정 파일은 공개하지 않음)
+  if (
+    isSiteConfigFile(getSiteRelativePath(siteId, fullPath)) ||
+    !(await exists(fullPath))
+  ) {
+    return await serveSiteNotFound(req, siteId, sitePath, siteHeaders);
+  }
+
+  return await serveStaticFile(req, siteId, fullPath, siteHeaders);
+}
+
+// 디렉토리 내용을 간단한 HTML 목록으로 표시 (filePath는 basePath 아래의 디렉토리 경로, 링크에 사용)
+async function renderDirectoryListing(
+  fullPath: string,
+  filePath: string,
+  basePath: string
+): Promise<string> {
+  const entries = await listDirectory(fullPath);
+
+  // 상위 디렉토리 경로 계산
+  let parentPath = basePath || "/";
+  if (filePath) {
+    const parts = filePath.split("/");
+    if (parts.length > 1) {
+      parentPath = `${basePath}/${parts.slice(0, -1).join("/")}`;
+    }
+  }
+
+  const currentPath = filePath ? `${basePath}/${filePath}` : basePath || "/";
+
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8">
+    <title>디렉토리: ${currentPath}</title>
+    <style>
+      body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
+      h1 { border-bottom: 1px solid #eee; padding-bottom: 10px; }
+      ul { list-style-type: none; padding: 0; }
+      li { margin: 8px 0; }
+      a { text-decoration: none; color: #0366d6; }
+      a:hover { text-decoration: underline; }
+      .folder { color: #6a737d; font-weight: bold; }
+      .back { margin-bottom: 15px; }
+    </style>
+  </head>
+  <body>
+    <h1>${currentPath}</h1>
+    <div class="back"><a href="${parentPath}">상위 디렉토리로</a></div>
+    <ul>
+      ${entries
+        .map((entry) => {
+          // 파일 경로 생성
+          const entryFullPath = filePath
+            ? `${filePath}/${entry.name}`
+            : entry.name;
+          const entryUrl = `${basePath}/${entryFullPath}${
+            entry.isDirectory ? "/" : ""
+          }`;
+
+          return `
+          <li>
+            <a href="${entryUrl}" class="${entry.isDirectory ? "folder" : ""}">
+              ${entry.isDirectory ? "📁" : "📄"} ${entry.name}
+              ${
+                entry.isDirectory
+                  ? ""
+                  : `<span style="color:#999">(${formatSize(
+                      entry.size
+                    )})</span>`
+              }
+            </a>
+          </li>
+        `;
+        })
+        .join("")}
+    </ul>
+  </body>
+  </html>
+  `;
+}
+
+// 공개 범위 때문에 거부된 요청 응답 (비공개는 없는 파일처럼 404, 비밀번호 보호는 비밀번호 입력 페이지)
+function siteAccessDeniedResponse(rule: SiteAccessRule): Response {
+  if (rule.visibility === "password") {
+    return new Response(renderUnlockPage(), {
+      status: 401,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+  return new Response("파일을 찾을 수 없습니다", { status: 404 });
+}
+
+// 비밀번호 입력 페이지 제출 처리 (맞으면 잠금을 푼 폴더에만 쓰이는 서명 쿠키를 설정하고 같은 주소로 이동)
+async function unlockSite(
+  req: Request,
+  siteId: string,
+  requestPath: string,
+  basePath: string,
+  server?: Server
+): Promise<Response> {
+  const url = new URL(req.url);
+  const location = url.pathname + url.search;
+
+  const fullPath = await resolvePath(siteId, requestPath);
+  const rule = getEffectiveAccessRule(
+    siteId,
+    getSiteRelativePath(siteId, fullPath)
+  );
+  if (!rule || rule.visibility !== "password" || !rule.passwordHash) {
+    return new Response(null, { status: 303, headers: { Location: location } });
+  }
+
+  const ipAddress = getClientIp(req, server);
+  const rateLimit = checkSiteUnlockAllowed(ipAddress, siteId);
+  if (!rateLimit.allowed) {
+    return new Response(renderUnlockPage(rateLimit.reason), {
+      status: 429,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "Retry-After": rateLimit.retryAfter.toString(),
+      },
+    });
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const password = formData?.get("password");
+  if (
+    typeof password !== "string" ||
+    !(await Bun.password.verify(password, rule.passwordHash))
+  ) {
+    recordSiteUnlockFailure(ipAddress, siteId);
+    return new Response(renderUnlockPage("비밀번호가 올바르지 않습니다."), {
+      status: 401,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  // 쿠키는 잠금을 푼 사이트나 폴더 경로에서만 전송
+  const folderPath = rule.path
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+  const cookiePath = rule.path ? `${basePath}/${folderPath}` : basePath || "/";
+
+  return new Response(null, {
+    status: 303,
+    headers: {
+      Location: location,
+      "Set-Cookie": createUnlockCookie(
+        getAccessRuleUnlockTarget(rule),
+        cookiePath
+      ),
+    },
+  });
+}
+
+// 사이트에 없는 경로 응답 (SPA 모드면 index.html, 사이트에 404.html이 있으면 그 내용을 404로)
+async function serveSiteNotFound(
+  req: Request,
+  siteId: string,
+  sitePath: string,
+  siteHeaders: Record<string, string>
+): Promise<Response> {
+  const siteRoot = await resolvePath(siteId);
+
+  // 대신 보여줄 파일도 공개 범위를 따로 확인 (공개 폴더의 없는 경로로 비공개 최상위 파일을 보지 못하도록)
+  // 거부되면 null을 돌려 기본 404로 응답
+  const getFallbackHeaders = async (fileName: string) => {
+    const accessResult = await checkSiteAccess(req, siteId, fileName);
+    return accessResult.allowed
+      ? { ...siteHeaders, ...accessResult.headers }
+      : null;
+  };
+
+  if (isSpaRoute(sitePath) && (await getSiteSettings(siteId)).spa) {
+    const indexPath = join(siteRoot, "index.html");
+    const indexHeaders = await getFallbackHeaders("index.html");
+    if (indexHeaders && (await exists(indexPath))) {
+      return await serveStaticFile(req, siteId, indexPath, {
+        "X-Content-Type-Options": "nosniff",
+        ...indexHeaders,
+      });
+    }
+  }
+
+  const notFoundPath = join(siteRoot, SITE_NOT_FOUND_PAGE);
+  const notFoundHeaders = await getFallbackHeaders(SITE_NOT_FOUND_PAGE);
+  if (notFoundHeaders && (await exists(notFoundPath))) {
+    return new Response(Bun.file(notFoundPath), {
+      status: 404,
+      headers: {
+        "Content-Type": getContentType("text/html"),
+        "Cache-Control": "no-cache",
+        ...notFoundHeaders,
+      },
+    });
+  }
+
+  return new Response("파일을 찾을 수 없습니다", { status: 404 });
+}
+
+// 정적 파일 응답 (ETag/Last-Modified가 요청 조건과 같으면 본문 없이 304, Range 요청은 206)
+// 파일 내용은 메모리에 읽지 않고 디스크에서 바로 스트리밍
+async function serveStaticFile(
+  req: Request,
+  siteId: string,
+  fullPath: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<Response> {
+  let stats: Stats;
+  try {
+    stats = await stat(fullPath);
+  } catch (error) {
+    return new Response("파일을 찾을 수 없습니다", { status: 404 });
+  }
+
+  const validators = getCacheValidators(stats);
+  const mimeType = getContentType(
+    await detectMimeType(fullPath, await getSiteMimeOverrides(siteId))
+  );
+  const size = stats.size;
+
+  // 압축할 수 있는 형식이면 Accept-Encoding에 맞춰 압축본 선택 (범위 요청은 원본 기준이므로 압축하지 않음)
+  const compressible = isCompressibleMimeType(mimeType);
+  const encoding =
+    compressible && !req.headers.get("Range")
+      ? negotiateEncoding(req.headers.get("Accept-Encoding"))
+      : null;
+  const compressedPath = encoding
+    ? await getCompressedFile(siteId, fullPath, size, validators.etag, encoding)
+    : null;
+  if (encoding && compressedPath) {
+    validators.etag = getEncodedETag(validators.etag, encoding);
+  }
+
+  const cacheHeaders: Record<string, string> = {
+    ETag: validators.etag,
+    "Last-Modified": validators.lastModified,
+    "Cache-Control": await getCacheControl(
+      siteId,
+      getSiteRelativePath(siteId, fullPath)
+    ),
+    "Accept-Ranges": "bytes",
+    ...(compressible ? { Vary: "Accept-Encoding" } : {}),
+    ...extraHeaders,
+  };
+
+  if (isNotModified(req, validators)) {
+    return new Response(null, { status: 304, headers: cacheHeaders });
+  }
+
+  if (encoding && compressedPath) {
+    const compressedFile = Bun.file(compressedPath);
+    return new Response(compressedFile, {
+      status: 200,
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Encoding": encoding,
+        "Content-Length": String(compressedFile.size),
+        ...cacheHeaders,
+      },
+    });
+  }
+
+  const file = Bun.file(fullPath);
+
+  // If-Range 조건이 맞지 않으면 (파일이 바뀌었으면) 전체 파일 응답
+  const rangeHeader = req.headers.get("Range");
+  const ranges =
+    rangeHeader && isRangeFresh(req, validators)
+      ? parseRangeHeader(rangeHeader, size)
+      : null;
+
+  if (ranges === "unsatisfiable") {
+    return new Response(null, {
+      status: 416,
+      headers: { ...cacheHeaders, "Content-Range": `bytes */${size}` },
+    });
+  }
+
+  if (ranges && ranges.length === 1) {
+    const { start, end } = ranges[0]!;
+    return new Response(file.slice(start, end + 1), {
+      status: 206,
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": String(end - start + 1),
+        "Content-Range": `bytes ${start}-${end}/${size}`,
+        ...cacheHeaders,
+      },
+    });
+  }
+
+  if (ranges) {
+    const { body, boundary } = createMultipartRanges(
+      file,
+      ranges,
+      mimeType,
+      size
+    );
+    return new Response(body, {
+      status: 206,
+      headers: {
+        "Content-Type": `multipart/byteranges; boundary=${boundary}`,
+        ...cacheHeaders,
       },
     });
+  }
+
+  return new Response(file, {
+    status: 200,
+    headers: {
+      "Content-Type": mimeType,
+      "Content-Length": String(size),
+      ...cacheHeaders,
+    },
+  });
+}
+
+// 파일 크기를 사람이 읽기 쉬운 형태로 변환하는 함수
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  if (bytes < 1024 * 1024 * 1024)
+    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
+}
+
+// 사용자의 디스크 사용량 정보 API 핸들러
+export async function handleGetDiskUsage(req: Request): Promise<Response> {
+  try {
+    // 사용자 인증 확인
+    const authResult = await authenticate(req);
+    if (!authResult || !authResult.id) {
+      return new Response(JSON.stringify({ error: "인증이 필요합니다" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // 사용자의 디스크 사용량과 요금제 한도 조회
+    const quota = getUserQuota(authResult.id);
+    if (!quota) {
+      return new Response(
+        JSON.stringify({ error: "사용자를 찾을 수 없습니다" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    const usage = await calculateUserStorageUsage(authResult.id);
+
+    return new Response(
+      JSON.stringify(
+        serializeStorageUsage(
+          usage,
+          quota,
+          getTrashBytesByUserId(authResult.id)
+        )
+      ),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("디스크 사용량 조회 오류:", error);
+    return new Response(
+      JSON.stringify({ error: "디스크 사용량 조회 중 오류가 발생했습니다" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
+
+// 휴지통 항목 응답 형식
+function serializeTrashItem(item: TrashItem) {
+  return {
+    id: item.id,
+    originalPath: item.originalPath,
+    name: item.originalPath.split("/").pop() || item.originalPath,
+    isDirectory: item.isDirectory,
+    size: item.size,
+    fileCount: item.fileCount,
+    deletedAt: item.deletedAt,
+  };
+}
+
+// 휴지통 API 공통 인증 (URL의 사용자와 로그인한 사용자가 같은지 확인)
+async function requireTrashOwner(
+  req: Request,
+  scope: TokenScope
+): Promise<{ userId: string; itemId?: string; response?: Response }> {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/trash/:id
+  const itemId = pathParts[5] || undefined;
+
+  const authResult = await requireAuth(req, scope);
+  if (authResult.response) {
+    return { userId, response: authResult.response };
+  }
+
+  if (authResult.user.id !== userId) {
+    return {
+      userId,
+      response: new Response(
+        JSON.stringify({
+          error: "다른 사용자의 휴지통에 접근할 권한이 없습니다",
+        }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+
+  return { userId, itemId };
+}
+
+// 사용자의 휴지통 항목 조회 (없거나 다른 사용자 것이면 404 응답)
+function findUserTrashItem(
+  userId: string,
+  itemId: string | undefined
+): { item: TrashItem; response?: undefined } | { response: Response } {
+  const item = itemId ? findTrashItemById(itemId) : null;
+  if (!item || item.userId !== userId) {
+    return {
+      response: new Response(
+        JSON.stringify({ error: "휴지통 항목을 찾을 수 없습니다" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      ),
+    };
+  }
+  return { item };
+}
+
+/**
+ * 휴지통 목록 조회 API 핸들러
+ */
+export async function handleListTrash(req: Request) {
+  const owner = await requireTrashOwner(req, "read");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  const site = getRequestSite(req, owner.userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  const items = getTrashItemsBySiteId(site.id);
+
+  return new Response(
+    JSON.stringify({
+      items: items.map(serializeTrashItem),
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 휴지통 비우기 API 핸들러
+ */
+export async function handleEmptyTrash(req: Request) {
+  const owner = await requireTrashOwner(req, "delete");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  const site = getRequestSite(req, owner.userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
+  const purged = await emptyTrash(site.id);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      purged,
+      message: "휴지통을 비웠습니다",
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * 휴지통 항목 복원 API 핸들러
+ */
+export async function handleRestoreTrashItem(req: Request) {
+  const owner = await requireTrashOwner(req, "write");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  const found = findUserTrashItem(owner.userId, owner.itemId);
+  if (found.response) {
+    return found.response;
+  }
+  const { item } = found;
+
+  try {
+    const fullPath = await resolvePath(item.siteId, item.originalPath);
+
+    // 원래 위치에 같은 이름이 있으면 덮어쓰지 않음
+    try {
+      await access(fullPath);
+      return new Response(
+        JSON.stringify({
+          error: "원래 위치에 같은 이름의 파일이나 폴더가 이미 있습니다",
+        }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      // 없으면 복원 진행
+    }
+
+    // 휴지통 항목은 이미 용량에 포함되어 있으므로 파일 수 한도만 확인
+    const change = { bytes: 0, newFiles: item.fileCount };
+    const quotaStatus = await reserveUserQuota(owner.userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResponse(quotaStatus, change.bytes);
+    }
+
+    const success = await restoreFromTrash(item, fullPath);
+
+    if (!success) {
+      releaseUserQuota(owner.userId, change);
+      return new Response(JSON.stringify({ error: "복원에 실패했습니다" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: item.originalPath,
+        message: "파일/폴더를 복원했습니다",
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
     return new Response(JSON.stringify({ error: errorMessage }), {
       status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * 휴지통 항목 영구 삭제 API 핸들러
+ */
+export async function handlePurgeTrashItem(req: Request) {
+  const owner = await requireTrashOwner(req, "delete");
+  if (owner.response) {
+    return owner.response;
+  }
+
+  const found = findUserTrashItem(owner.userId, owner.itemId);
+  if (found.response) {
+    return found.response;
+  }
+
+  const success = await purgeTrashItem(found.item);
+
+  if (!success) {
+    return new Response(JSON.stringify({ error: "영구 삭제에 실패했습니다" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: "휴지통 항목을 영구 삭제했습니다",
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// 요청의 충돌 처리 방식 확인 (지정하지 않으면 실패로 처리)
+function parseConflictPolicy(value: unknown): ConflictPolicy | null {
+  if (value === undefined || value === null) {
+    return "fail";
+  }
+  return CONFLICT_POLICIES.includes(value as ConflictPolicy)
+    ? (value as ConflictPolicy)
+    : null;
+}
+
+// 잘못된 충돌 처리 방식에 대한 응답
+function invalidConflictPolicyResponse() {
+  return new Response(
+    JSON.stringify({
+      error: `충돌 처리 방식은 ${CONFLICT_POLICIES.join(
+        ", "
+      )} 중 하나여야 합니다`,
+    }),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// 파일/폴더 이동 또는 복사 (이름 변경, 이동, 복사 API 공통 처리)
+async function transferFileOrDirectory(
+  site: Site,
+  sourcePath: string,
+  targetPath: string,
+  conflict: ConflictPolicy,
+  mode: "move" | "copy"
+): Promise<FileOperationResult> {
+  const label = mode === "move" ? "이동" : "복사";
+
+  if (!(await exists(sourcePath))) {
+    return { status: 404, body: { error: "파일이나 폴더를 찾을 수 없습니다" } };
+  }
+
+  // 최상위 폴더를 옮기거나, 폴더를 자기 자신/하위 폴더로 옮기거나, 상위 폴더를 덮어쓰는 것 방지
+  if (
+    !getSiteRelativePath(site.id, sourcePath) ||
+    isSubPath(sourcePath, targetPath) ||
+    isSubPath(targetPath, sourcePath)
+  ) {
+    return {
+      status: 400,
+      body: {
+        error: `폴더를 자기 자신이나 하위 폴더로 ${label}할 수 없습니다`,
+      },
+    };
+  }
+
+  const targetExists = await exists(targetPath);
+  if (targetExists && conflict === "fail") {
+    return {
+      status: 409,
+      body: {
+        error: "대상 위치에 같은 이름의 파일이나 폴더가 이미 있습니다",
+        conflict: true,
+      },
+    };
+  }
+
+  // 복사는 새로 생기는 용량과 파일 수만큼 한도 확인 및 사용량 예약
+  let change: StorageChange | null = null;
+  if (mode === "copy") {
+    const usage = await calculatePathUsage(sourcePath);
+    change = { bytes: usage.bytes, newFiles: usage.fileCount };
+
+    const quotaStatus = await reserveUserQuota(site.userId, change);
+    if (!quotaStatus.check.allowed) {
+      return quotaExceededResult(quotaStatus, change.bytes);
+    }
+  }
+
+  // 같은 이름이 있으면 정책에 따라 기존 항목을 휴지통으로 보내거나 다른 이름 사용
+  let finalPath = targetPath;
+  let replaced: TrashItem | null = null;
+  if (targetExists) {
+    if (conflict === "keep_both") {
+      finalPath = await getAvailablePath(targetPath);
+    } else {
+      replaced = await moveToTrash(site.userId, targetPath);
+      if (!replaced) {
+        if (change) releaseUserQuota(site.userId, change);
+        return {
+          status: 500,
+          body: { error: "기존 파일/폴더를 교체하지 못했습니다" },
+        };
+      }
+    }
+  }
+
+  const success =
+    mode === "move"
+      ? await renameFileOrDirectory(sourcePath, finalPath)
+      : await copyFileOrDirectory(sourcePath, finalPath);
+
+  if (!success) {
+    if (change) releaseUserQuota(site.userId, change);
+    // 휴지통으로 보낸 기존 항목을 원래 자리로 되돌림
+    if (replaced && (await restoreFromTrash(replaced, targetPath))) {
+      adjustStorageUsage(site.userId, 0, replaced.fileCount);
+    }
+    return {
+      status: 500,
+      body: { error: `파일/폴더 ${label}에 실패했습니다` },
+    };
   }
-}
 
-/**
- * 유저별 파일 탐색 API 핸들러
- */
-export async function handleUserFilesDirectory(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/files
+  // 폴더의 공개 범위 규칙도 새 경로로 옮기거나 복사 (비공개 폴더가 옮긴 뒤 공개되지 않도록)
+  transferSiteAccessRules(
+    site.id,
+    getSiteRelativePath(site.id, sourcePath),
+    getSiteRelativePath(site.id, finalPath),
+    mode
+  );
 
-  if (!userId) {
-    return new Response(JSON.stringify({ error: "사용자 ID가 필요합니다" }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
-    });
+  // 옮긴 파일이나 폴더의 공유 링크는 새 경로를 가리키도록 변경
+  if (mode === "move") {
+    moveShareLinks(
+      site.id,
+      getSiteRelativePath(site.id, sourcePath),
+      getSiteRelativePath(site.id, finalPath)
+    );
   }
 
-  const authResult = await requireAuth(req);
+  return {
+    status: 200,
+    body: {
+      success: true,
+      oldPath: "/" + getSiteRelativePath(site.id, sourcePath),
+      newPath: "/" + getSiteRelativePath(site.id, finalPath),
+      replaced: replaced ? serializeTrashItem(replaced) : null,
+    },
+  };
+}
 
-  // 인증 확인
+// 다른 폴더로 이동 또는 복사 요청 처리 (이동/복사 API 공통)
+async function handleTransferToFolder(req: Request, mode: "move" | "copy") {
+  const authResult = await requireAuth(req, "write");
   if (authResult.response) {
     return authResult.response;
   }
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== userId) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[pathParts.indexOf("users") + 1];
+
+  // 현재 사용자가 요청된 사용자와 일치하는지 확인
+  if (userId !== authResult.user.id) {
     return new Response(
       JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
       {
@@ -855,44 +5323,52 @@ export async function handleUserFilesDirectory(req: Request) {
     );
   }
 
-  try {
-    // 사용자 루트 디렉토리 경로 조회
-    const userPath = await resolvePath(userId);
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
 
-    // 디렉토리 내용 확인
-    if (await isDirectory(userPath)) {
-      const entries = await listDirectory(userPath);
+  try {
+    const json = await req.json();
+    const { path, destination } = json;
 
+    if (!path || typeof destination !== "string") {
       return new Response(
-        JSON.stringify({
-          path: "/",
-          entries: entries.map((entry) => ({
-            name: entry.name,
-            isDirectory: entry.isDirectory,
-            size: entry.size,
-            mtime: entry.mtime.toISOString(),
-            url: entry.isDirectory
-              ? `/api/users/${userId}/files/${entry.name}`
-              : `/static/users/${userId}/${entry.name}`,
-            contentUrl: !entry.isDirectory
-              ? `/api/users/${userId}/content/${entry.name}`
-              : null,
-          })),
-        }),
+        JSON.stringify({ error: "원본 경로와 대상 폴더가 필요합니다" }),
         {
-          status: 200,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
-    } else {
+    }
+
+    const conflict = parseConflictPolicy(json.conflict);
+    if (!conflict) {
+      return invalidConflictPolicyResponse();
+    }
+
+    const sourcePath = await resolvePath(site.id, path);
+    const destinationPath = await resolvePath(site.id, destination);
+
+    if (!(await isDirectory(destinationPath))) {
       return new Response(
-        JSON.stringify({ error: "사용자 디렉토리를 찾을 수 없습니다" }),
+        JSON.stringify({ error: "대상 폴더를 찾을 수 없습니다" }),
         {
           status: 404,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
+
+    return toJsonResponse(
+      await transferFileOrDirectory(
+        site,
+        sourcePath,
+        join(destinationPath, basename(sourcePath)),
+        conflict,
+        mode
+      )
+    );
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
@@ -904,123 +5380,107 @@ export async function handleUserFilesDirectory(req: Request) {
 }
 
 /**
- * 유저별 하위 경로 API 핸들러
+ * 파일/폴더 이동 API 핸들러
  */
-export async function handleUserFilesSubPath(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/files/...
-
-  // /api/users/:userId/files/ 다음 경로 추출
-  const subPath = pathParts.slice(5).join("/");
+export async function handleMoveFileOrDirectory(req: Request) {
+  return handleTransferToFolder(req, "move");
+}
 
-  if (!userId) {
-    return new Response(JSON.stringify({ error: "사용자 ID가 필요합니다" }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
-    });
-  }
+/**
+ * 파일/폴더 복사 API 핸들러
+ */
+export async function handleCopyFileOrDirectory(req: Request) {
+  return handleTransferToFolder(req, "copy");
+}
 
-  const authResult = await requireAuth(req);
+// 일괄 작업 요청 항목
+interface BatchOperation {
+  action: "delete" | "move" | "copy";
+  path: string;
+  destination?: string;
+  conflict?: ConflictPolicy;
+}
 
-  // 인증 확인
-  if (authResult.response) {
-    return authResult.response;
-  }
+// 한 번에 처리할 수 있는 최대 작업 수
+const MAX_BATCH_OPERATIONS = 500;
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== userId) {
-    return new Response(
-      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
-      {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+// 일괄 작업 항목 하나 실행
+async function runBatchOperation(
+  site: Site,
+  operation: BatchOperation
+): Promise<FileOperationResult> {
+  if (!operation || typeof operation.path !== "string" || !operation.path) {
+    return { status: 400, body: { error: "작업할 경로가 필요합니다" } };
   }
 
-  try {
-    // 사용자 경로 조회
-    const fullPath = await resolvePath(userId, subPath);
+  const sourcePath = await resolvePath(site.id, operation.path);
 
-    // 디렉토리 내용 확인
-    if (await isDirectory(fullPath)) {
-      const entries = await listDirectory(fullPath);
+  if (operation.action === "delete") {
+    return trashFileOrDirectory(site, sourcePath);
+  }
 
-      // 현재 경로 계산 (API 응답용)
-      const currentPath = subPath ? `/${subPath}` : "/";
+  if (operation.action !== "move" && operation.action !== "copy") {
+    return {
+      status: 400,
+      body: { error: "작업은 delete, move, copy 중 하나여야 합니다" },
+    };
+  }
 
-      // 상위 디렉토리 경로 계산
-      let parentPath = "/";
-      if (subPath) {
-        const parts = subPath.split("/");
-        if (parts.length > 1) {
-          parentPath = `/${parts.slice(0, -1).join("/")}`;
-        }
-      }
+  const conflict = parseConflictPolicy(operation.conflict);
+  if (!conflict) {
+    return {
+      status: 400,
+      body: {
+        error: `충돌 처리 방식은 ${CONFLICT_POLICIES.join(
+          ", "
+        )} 중 하나여야 합니다`,
+      },
+    };
+  }
 
-      return new Response(
-        JSON.stringify({
-          path: currentPath,
-          parentPath,
-          entries: entries.map((entry) => {
-            // 현재 경로가 루트가 아니면 경로를 포함하여 다음 URL 구성
-            const entryPath = subPath ? `${subPath}/${entry.name}` : entry.name;
+  if (typeof operation.destination !== "string") {
+    return { status: 400, body: { error: "대상 폴더가 필요합니다" } };
+  }
 
-            return {
-              name: entry.name,
-              isDirectory: entry.isDirectory,
-              size: entry.size,
-              mtime: entry.mtime.toISOString(),
-              // 디렉토리면 files API, 아니면 static으로 접근
-              url: entry.isDirectory
-                ? `/api/users/${userId}/files/${entryPath}`
-                : `/static/users/${userId}/${entryPath}`,
-              // 파일이면 content URL 제공
-              contentUrl: !entry.isDirectory
-                ? `/api/users/${userId}/content/${entryPath}`
-                : null,
-            };
-          }),
-        }),
-        {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    } else {
-      return new Response(
-        JSON.stringify({ error: "디렉토리를 찾을 수 없습니다" }),
-        {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "알 수 없는 오류";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
+  const destinationPath = await resolvePath(site.id, operation.destination);
+  if (!(await isDirectory(destinationPath))) {
+    return { status: 404, body: { error: "대상 폴더를 찾을 수 없습니다" } };
   }
+
+  return transferFileOrDirectory(
+    site,
+    sourcePath,
+    join(destinationPath, basename(sourcePath)),
+    conflict,
+    operation.action
+  );
 }
 
 /**
- * 유저별 파일 내용 API 핸들러
+ * 파일/폴더 일괄 작업 API 핸들러 (삭제, 이동, 복사를 순서대로 실행하고 항목별 결과 반환)
  */
-export async function handleUserFileContentPath(req: Request) {
+export async function handleBatchFileOperations(req: Request) {
   const url = new URL(req.url);
   const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/content/...
+  const userId = pathParts[3]; // /api/users/:userId/files/batch
 
-  // /api/users/:userId/content/ 다음 경로 추출
-  const filePath = pathParts.slice(5).join("/");
+  let operations: BatchOperation[];
+  try {
+    const json = await req.json();
+    operations = json.operations;
+  } catch (error) {
+    operations = [];
+  }
 
-  if (!userId || !filePath) {
+  if (
+    !Array.isArray(operations) ||
+    operations.length === 0 ||
+    operations.length > MAX_BATCH_OPERATIONS
+  ) {
     return new Response(
-      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
+      JSON.stringify({
+        error: `작업 목록은 1개 이상 ${MAX_BATCH_OPERATIONS}개 이하여야 합니다`,
+      }),
       {
         status: 400,
         headers: { "Content-Type": "application/json" },
@@ -1028,15 +5488,22 @@ export async function handleUserFileContentPath(req: Request) {
     );
   }
 
-  const authResult = await requireAuth(req);
-
-  // 인증 확인
-  if (authResult.response) {
-    return authResult.response;
+  // 포함된 작업에 필요한 권한 확인 (삭제는 delete, 이동/복사는 write)
+  const scopes = new Set<TokenScope>(
+    operations.map((operation) =>
+      operation?.action === "delete" ? "delete" : "write"
+    )
+  );
+  let user: User | null = null;
+  for (const scope of scopes) {
+    const authResult = await requireAuth(req, scope);
+    if (authResult.response) {
+      return authResult.response;
+    }
+    user = authResult.user;
   }
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== userId) {
+  if (!user || user.id !== userId) {
     return new Response(
       JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
       {
@@ -1046,106 +5513,163 @@ export async function handleUserFileContentPath(req: Request) {
     );
   }
 
-  try {
-    // 파일 경로 조회
-    const fullPath = await resolvePath(userId, filePath);
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
 
-    // 디렉토리인지 확인
-    if (await isDirectory(fullPath)) {
-      return new Response(
-        JSON.stringify({ error: "디렉토리 내용은 읽을 수 없습니다" }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+  // 앞선 작업의 결과가 뒤 작업에 영향을 줄 수 있으므로 순서대로 실행
+  const results = [];
+  for (const operation of operations) {
+    let result: FileOperationResult;
+    try {
+      result = await runBatchOperation(site, operation);
+    } catch (error) {
+      result = {
+        status: 500,
+        body: {
+          error: error instanceof Error ? error.message : "알 수 없는 오류",
+        },
+      };
     }
+    results.push({
+      action: operation?.action,
+      path: operation?.path,
+      status: result.status,
+      ...result.body,
+    });
+  }
 
-    // 파일 내용 읽기
-    const result = await readFileByPath(fullPath);
-
-    if (!result) {
-      return new Response(
-        JSON.stringify({ error: "파일을 읽을 수 없습니다" }),
-        {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
+  // 사용량은 모든 작업이 끝난 뒤 한 번만 계산
+  const usage = await calculateUserStorageUsage(userId);
+  const quota = getUserQuota(userId);
+  const succeeded = results.filter((result) => result.status === 200).length;
 
-    return new Response(result.content, {
+  return new Response(
+    JSON.stringify({
+      success: succeeded === results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+      diskUsage: quota
+        ? serializeStorageUsage(usage, quota, getTrashBytesByUserId(userId))
+        : null,
+    }),
+    {
       status: 200,
-      headers: { "Content-Type": result.mimeType },
-    });
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "알 수 없는 오류";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
       headers: { "Content-Type": "application/json" },
-    });
+    }
+  );
+}
+
+/**
+ * 선택한 파일/폴더 ZIP 다운로드 API 핸들러 (?path=...를 여러 번 지정)
+ */
+export async function handleDownloadZip(req: Request) {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[3]; // /api/users/:userId/download
+
+  const authResult = await requireAuth(req, "read");
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  if (authResult.user.id !== userId) {
+    return new Response(
+      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   }
-}
-
-/**
- * 정적 유저 파일 서빙 API 핸들러
- */
-export async function handleStaticUserFilePath(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /static/users/:userId/...
 
-  // /static/users/:userId/ 다음 경로 추출
-  const filePath = pathParts.slice(4).join("/");
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
 
-  if (!userId || !filePath) {
-    return new Response("잘못된 파일 경로입니다", { status: 400 });
+  const paths = url.searchParams.getAll("path").filter(Boolean);
+  if (paths.length === 0) {
+    return new Response(
+      JSON.stringify({ error: "다운로드할 경로가 필요합니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
   }
 
   try {
-    // 파일 경로 조회
-    const fullPath = await resolvePath(userId, filePath);
-
-    // 디렉토리인지 확인
-    if (await isDirectory(fullPath)) {
-      return new Response("디렉토리는 직접 서빙할 수 없습니다", {
-        status: 400,
-      });
+    const fullPaths: string[] = [];
+    for (const path of paths) {
+      const fullPath = await resolvePath(site.id, path);
+      if (
+        !getSiteRelativePath(site.id, fullPath) ||
+        !(await exists(fullPath))
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `파일이나 폴더를 찾을 수 없습니다: ${path}`,
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      fullPaths.push(fullPath);
     }
 
-    // 파일 내용 읽기
-    const result = await readBinaryFileByPath(fullPath);
+    // 선택한 항목을 압축 파일의 최상위에 배치
+    async function* sources() {
+      for (const fullPath of fullPaths) {
+        yield* collectZipSources(fullPath, basename(fullPath));
+      }
+    }
 
-    if (!result) {
-      return new Response("파일을 찾을 수 없습니다", { status: 404 });
+    // 항목 수와 크기 한도는 스트리밍 전에 확인
+    const prepared = await prepareZipSources(sources());
+    if ("error" in prepared) {
+      return new Response(JSON.stringify({ error: prepared.error }), {
+        status: prepared.status,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
-    return new Response(result.data, {
+    const filename =
+      fullPaths.length === 1 ? `${basename(fullPaths[0]!)}.zip` : "files.zip";
+
+    return new Response(createZipStream(prepared.sources), {
       status: 200,
       headers: {
-        "Content-Type": result.mimeType,
-        "Content-Disposition": `inline; filename="${encodeURIComponent(
-          filePath.split("/").pop() || ""
-        )}"`,
-        "Content-Length": result.size.toString(),
+        "Content-Type": "application/zip",
+        "Content-Disposition": getAttachmentHeader(filename),
       },
     });
   } catch (error) {
-    console.error(`파일 서빙 오류: ${error}`);
-    return new Response("파일을 서빙할 수 없습니다", { status: 500 });
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
   }
 }
 
 /**
- * 폴더 생성 API 핸들러
+ * 폴더 ZIP 다운로드 API 핸들러 (?include=, ?exclude=로 glob 패턴 지정, 여러 번 사용 가능)
  */
-export async function handleCreateDirectory(req: Request) {
+export async function handleDownloadArchive(req: Request) {
   const url = new URL(req.url);
   const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/directory/create
+  const userId = pathParts[3]; // /api/users/:userId/archive/...
 
-  const authResult = await requireAuth(req);
+  // /api/users/:userId/archive/ 다음 경로 추출
+  const subPath = pathParts.slice(5).join("/");
+
+  const authResult = await requireAuth(req, "read");
   if (authResult.response) {
     return authResult.response;
   }
@@ -1161,43 +5685,59 @@ export async function handleCreateDirectory(req: Request) {
     );
   }
 
-  try {
-    const json = await req.json();
-    const { path } = json;
-
-    if (!path) {
-      return new Response(JSON.stringify({ error: "폴더 경로가 필요합니다" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // 사용자 디렉토리 내 경로 확인
-    const fullPath = await resolvePath(userId, path);
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
 
-    // 디렉토리 생성
-    const success = await createDirectory(fullPath);
+  try {
+    const fullPath = await resolvePath(site.id, subPath);
 
-    if (!success) {
+    if (!(await exists(fullPath))) {
       return new Response(
-        JSON.stringify({ error: "폴더 생성에 실패했습니다" }),
+        JSON.stringify({ error: "폴더를 찾을 수 없습니다" }),
         {
-          status: 500,
+          status: 404,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        path: path,
-      }),
-      {
-        status: 201,
+    if (!(await isDirectory(fullPath))) {
+      return new Response(JSON.stringify({ error: "폴더가 아닙니다" }), {
+        status: 400,
         headers: { "Content-Type": "application/json" },
-      }
+      });
+    }
+
+    const filter = {
+      include: url.searchParams.getAll("include").filter(Boolean),
+      exclude: url.searchParams.getAll("exclude").filter(Boolean),
+    };
+
+    // 최상위 폴더는 사용자 이름으로 압축 파일 안의 폴더 이름을 지정
+    const name = getSiteRelativePath(site.id, fullPath)
+      ? basename(fullPath)
+      : authResult.user.username;
+
+    // 항목 수와 크기 한도는 스트리밍 전에 확인
+    const prepared = await prepareZipSources(
+      collectZipSources(fullPath, name, filter)
     );
+    if ("error" in prepared) {
+      return new Response(JSON.stringify({ error: prepared.error }), {
+        status: prepared.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(createZipStream(prepared.sources), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": getAttachmentHeader(`${name}.zip`),
+      },
+    });
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
@@ -1209,35 +5749,21 @@ export async function handleCreateDirectory(req: Request) {
 }
 
 /**
- * 유저별 파일 내용 업데이트 API 핸들러
+ * 파일/폴더 이름 변경 API 핸들러
  */
-export async function handleUserFileContentPathUpdate(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[3]; // /api/users/:userId/content/...
-
-  // /api/users/:userId/content/ 다음 경로 추출
-  const filePath = pathParts.slice(5).join("/");
-
-  if (!userId || !filePath) {
-    return new Response(
-      JSON.stringify({ error: "사용자 ID와 파일 경로가 필요합니다" }),
-      {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
-  }
-
-  const authResult = await requireAuth(req);
-
-  // 인증 확인
+export async function handleRenameFileOrDirectory(req: Request) {
+  const authResult = await requireAuth(req, "write");
   if (authResult.response) {
     return authResult.response;
   }
 
-  // 현재 사용자가 접근하려는 유저와 동일한지 확인
-  if (authResult.user.id !== userId) {
+  const user = authResult.user;
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[pathParts.indexOf("users") + 1];
+
+  // 현재 사용자가 요청된 사용자와 일치하는지 확인
+  if (userId !== user.id) {
     return new Response(
       JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
       {
@@ -1247,13 +5773,18 @@ export async function handleUserFileContentPathUpdate(req: Request) {
     );
   }
 
+  const site = getRequestSite(req, userId);
+  if (!site) {
+    return siteNotFoundResponse();
+  }
+
   try {
-    // 요청 본문 확인
-    const content = await req.text();
+    const json = await req.json();
+    const { oldPath, newPath } = json;
 
-    if (!content) {
+    if (!oldPath || !newPath) {
       return new Response(
-        JSON.stringify({ error: "업데이트할 내용이 필요합니다" }),
+        JSON.stringify({ error: "원본 경로와 새 경로가 필요합니다" }),
         {
           status: 400,
           headers: { "Content-Type": "application/json" },
@@ -1261,89 +5792,96 @@ export async function handleUserFileContentPathUpdate(req: Request) {
       );
     }
 
-    // 파일 경로 조회
-    const fullPath = await resolvePath(userId, filePath);
-
-    // 디렉토리인지 확인
-    if (await isDirectory(fullPath)) {
-      return new Response(
-        JSON.stringify({ error: "디렉토리 내용은 업데이트할 수 없습니다" }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+    const conflict = parseConflictPolicy(json.conflict);
+    if (!conflict) {
+      return invalidConflictPolicyResponse();
     }
 
-    // 기존 파일의 크기 확인
-    let originalSize = 0;
-    try {
-      const fileInfo = await stat(fullPath);
-      originalSize = fileInfo.size;
-    } catch (error) {
-      // 파일이 존재하지 않는 경우 (새 파일 생성)
-      originalSize = 0;
-    }
+    // 사용자 디렉토리 내 파일 경로 확인
+    const oldFullPath = await resolvePath(site.id, oldPath);
+    const newFullPath = await resolvePath(site.id, newPath);
 
-    // 새 콘텐츠의 크기
-    const newSize = Buffer.byteLength(content);
+    // 파일/폴더 이름 변경 시도
+    return toJsonResponse(
+      await transferFileOrDirectory(
+        site,
+        oldFullPath,
+        newFullPath,
+        conflict,
+        "move"
+      )
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "알 수 없는 오류";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
 
-    // 변경된 크기 계산 (크기 차이)
-    const sizeDifference = newSize - originalSize;
+// 관리자 API 응답용 사용자 정보
+async function serializeAdminUser(user: User) {
+  const usage = await calculateUserStorageUsage(user.id);
+  const quota = getUserQuota(user.id);
+
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    createdAt: user.createdAt,
+    disabled: user.disabledAt !== null,
+    disabledAt: user.disabledAt,
+    planId: user.planId,
+    storageQuota: user.storageQuota,
+    diskUsage: quota
+      ? serializeStorageUsage(usage, quota, getTrashBytesByUserId(user.id))
+      : null,
+  };
+}
 
-    // 변경 후 크기가 증가하는 경우에만 용량 체크
-    if (sizeDifference > 0) {
-      // 현재 디스크 사용량 확인
-      const currentUsage = await calculateUserDiskUsage(userId);
+// 관리자 API 경로에서 대상 사용자 조회 (/api/admin/users/:id/...)
+function findAdminTargetUser(req: Request): User | null {
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const userId = pathParts[4];
+  return userId ? findUserById(userId) : null;
+}
 
-      // 변경 후 예상 사용량
-      const projectedUsage = currentUsage + sizeDifference;
+// 관리자 API에서 대상 사용자가 없을 때의 응답
+function adminUserNotFoundResponse() {
+  return new Response(JSON.stringify({ error: "사용자를 찾을 수 없습니다" }), {
+    status: 404,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-      // 전체 용량 초과 여부 확인
-      if (projectedUsage > MAX_USER_STORAGE) {
-        return new Response(
-          JSON.stringify({
-            error:
-              "디스크 용량 초과: 파일을 업데이트하기 위한 공간이 부족합니다",
-            diskUsage: {
-              used: currentUsage,
-              total: MAX_USER_STORAGE,
-              percentage: (currentUsage / MAX_USER_STORAGE) * 100,
-              required: sizeDifference,
-            },
-          }),
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-    }
+// 마지막 활성 관리자를 잃게 되는 변경인지 확인
+function isLastActiveAdmin(user: User): boolean {
+  return (
+    user.role === "admin" &&
+    user.disabledAt === null &&
+    countActiveAdmins() <= 1
+  );
+}
 
-    // 파일 내용 업데이트
-    const success = await writeFileByPath(fullPath, content);
+/**
+ * 관리자: 사용자 목록 API 핸들러
+ */
+export async function handleAdminListUsers(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
 
-    if (!success) {
-      return new Response(
-        JSON.stringify({ error: "파일 업데이트에 실패했습니다" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
+  try {
+    const users = await Promise.all(getAllUsers().map(serializeAdminUser));
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        path: filePath,
-        message: "파일이 성공적으로 업데이트되었습니다",
-      }),
-      {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+    return new Response(JSON.stringify({ users }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "알 수 없는 오류";
@@ -1355,59 +5893,125 @@ export async function handleUserFileContentPathUpdate(req: Request) {
 }
 
 /**
- * 파일/폴더 삭제 API 핸들러
+ * 관리자: 저장 공간 요금제 목록 API 핸들러
  */
-export async function handleDeleteFileOrDirectory(req: Request) {
-  const authResult = await requireAuth(req);
+export async function handleAdminListPlans(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const plans = getStoragePlans();
+
+  return new Response(JSON.stringify({ plans }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * 관리자: 사용자 정보 변경 API 핸들러 (역할, 비활성화, 요금제, 저장 공간 한도)
+ */
+export async function handleAdminUpdateUser(req: Request) {
+  const authResult = await requireAdmin(req);
   if (authResult.response) {
     return authResult.response;
   }
 
-  try {
-    const json = await req.json();
-    const { path } = json;
+  const target = findAdminTargetUser(req);
+  if (!target) {
+    return adminUserNotFoundResponse();
+  }
+
+  try {
+    const json = await req.json();
+    const updates: UserUpdate = {};
+
+    if (json.role !== undefined) {
+      if (json.role !== "user" && json.role !== "admin") {
+        return new Response(
+          JSON.stringify({ error: "역할은 user 또는 admin이어야 합니다" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      updates.role = json.role;
+    }
+
+    if (json.disabled !== undefined) {
+      updates.disabledAt = json.disabled ? new Date().toISOString() : null;
+    }
+
+    if (json.planId !== undefined) {
+      if (
+        typeof json.planId !== "string" ||
+        !findStoragePlanById(json.planId)
+      ) {
+        return new Response(
+          JSON.stringify({ error: "존재하지 않는 요금제입니다" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      updates.planId = json.planId;
+    }
 
-    if (!path) {
+    if (json.storageQuota !== undefined) {
+      // null이면 요금제 기본 한도로 되돌림
+      const quota =
+        json.storageQuota === null ? null : Number(json.storageQuota);
+      if (quota !== null && (!Number.isInteger(quota) || quota < 0)) {
+        return new Response(
+          JSON.stringify({
+            error: "저장 공간 한도는 0 이상의 정수여야 합니다",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      updates.storageQuota = quota;
+    }
+
+    // 마지막 관리자를 강등하거나 비활성화하지 않도록 보호
+    const losesAdmin =
+      (updates.role !== undefined && updates.role !== "admin") ||
+      (updates.disabledAt !== undefined && updates.disabledAt !== null);
+    if (losesAdmin && isLastActiveAdmin(target)) {
       return new Response(
-        JSON.stringify({ error: "삭제할 경로가 필요합니다" }),
+        JSON.stringify({ error: "마지막 관리자 계정은 변경할 수 없습니다" }),
         {
-          status: 400,
+          status: 409,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    // 사용자 디렉토리 내 경로 확인
-    const fullPath = await resolvePath(authResult.user.id, path);
-
-    // 경로가 존재하는지 확인
-    try {
-      await access(fullPath);
-    } catch (error) {
+    const updated = updateUser(target.id, updates);
+    if (!updated) {
       return new Response(
-        JSON.stringify({ error: "파일이나 폴더를 찾을 수 없습니다" }),
+        JSON.stringify({ error: "사용자 정보 변경에 실패했습니다" }),
         {
-          status: 404,
+          status: 500,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    // 파일/폴더 삭제
-    const success = await deleteFileOrDirectoryByPath(fullPath);
-
-    if (!success) {
-      return new Response(JSON.stringify({ error: "삭제에 실패했습니다" }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+    // 비활성화된 계정은 즉시 로그아웃
+    if (updates.disabledAt) {
+      deleteSessionsByUserId(target.id);
     }
 
     return new Response(
       JSON.stringify({
         success: true,
-        path: path,
-        message: "파일/폴더가 성공적으로 삭제되었습니다",
+        user: await serializeAdminUser(updated),
       }),
       {
         status: 200,
@@ -1425,269 +6029,250 @@ export async function handleDeleteFileOrDirectory(req: Request) {
 }
 
 /**
- * 유저 파일 직접 접근 API 핸들러
- * /static/users/:userId/* 형식으로 직접 접근
+ * 관리자: 사용자 삭제 API 핸들러
  */
-export async function handleUserDirectAccess(req: Request) {
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-
-  // /static/users/:userId/* 경로에서 userId는 3번째 위치
-  const userId = pathParts[3];
-
-  // /static/users/:userId/ 다음 경로 추출
-  const filePath = pathParts.slice(4).join("/");
-
-  if (!userId) {
-    return new Response("잘못된 경로입니다", { status: 400 });
+export async function handleAdminDeleteUser(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
   }
 
-  try {
-    // 사용자 ID 유효성 검증
-    const userExists = findUserById(userId);
-    if (!userExists) {
-      return new Response("존재하지 않는 사용자입니다", { status: 404 });
-    }
-
-    // 파일 경로 조회
-    const fullPath = await resolvePath(userId, filePath);
+  const target = findAdminTargetUser(req);
+  if (!target) {
+    return adminUserNotFoundResponse();
+  }
 
-    console.log(
-      `접근 요청: userId=${userId}, filePath=${filePath}, fullPath=${fullPath}`
+  if (target.id === authResult.user.id) {
+    return new Response(
+      JSON.stringify({ error: "자기 자신의 계정은 삭제할 수 없습니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
     );
+  }
 
-    // 디렉토리인 경우 디렉토리 목록 표시 (선택적)
-    if (await isDirectory(fullPath)) {
-      // 기본 index.html 파일이 있는지 확인
-      const indexPath = join(fullPath, "index.html");
-      try {
-        await access(indexPath);
-        // index.html 파일이 있으면 해당 파일 서빙
-        const result = await readBinaryFileByPath(indexPath);
-        if (result) {
-          return new Response(result.data, {
-            status: 200,
-            headers: {
-              "Content-Type": "text/html",
-              // 경로에 맞게 베이스 설정
-              "X-Content-Type-Options": "nosniff",
-            },
-          });
-        }
-      } catch (error) {
-        // index.html이 없으면 디렉토리 내용을 간단한 HTML로 표시
-        const entries = await listDirectory(fullPath);
-
-        // 상위 디렉토리 경로 계산
-        let parentPath = `/static/users/${userId}`;
-        if (filePath) {
-          const parts = filePath.split("/");
-          if (parts.length > 1) {
-            parentPath = `/static/users/${userId}/${parts
-              .slice(0, -1)
-              .join("/")}`;
-          }
-        }
+  if (isLastActiveAdmin(target)) {
+    return new Response(
+      JSON.stringify({ error: "마지막 관리자 계정은 삭제할 수 없습니다" }),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
 
-        const currentPath = filePath
-          ? `/static/users/${userId}/${filePath}`
-          : `/static/users/${userId}`;
-
-        const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <title>디렉토리: ${currentPath}</title>
-          <style>
-            body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
-            h1 { border-bottom: 1px solid #eee; padding-bottom: 10px; }
-            ul { list-style-type: none; padding: 0; }
-            li { margin: 8px 0; }
-            a { text-decoration: none; color: #0366d6; }
-            a:hover { text-decoration: underline; }
-            .folder { color: #6a737d; font-weight: bold; }
-            .back { margin-bottom: 15px; }
-          </style>
-        </head>
-        <body>
-          <h1>${currentPath}</h1>
-          <div class="back"><a href="${parentPath}">상위 디렉토리로</a></div>
-          <ul>
-            ${entries
-              .map((entry) => {
-                // 파일 경로 생성
-                const entryFullPath = filePath
-                  ? `${filePath}/${entry.name}`
-                  : entry.name;
-                const entryUrl = `/static/users/${userId}/${entryFullPath}${
-                  entry.isDirectory ? "/" : ""
-                }`;
-
-                return `
-                <li>
-                  <a href="${entryUrl}" class="${
-                  entry.isDirectory ? "folder" : ""
-                }">
-                    ${entry.isDirectory ? "📁" : "📄"} ${entry.name}
-                    ${
-                      entry.isDirectory
-                        ? ""
-                        : `<span style="color:#999">(${formatSize(
-                            entry.size
-                          )})</span>`
-                    }
-                  </a>
-                </li>
-              `;
-              })
-              .join("")}
-          </ul>
-        </body>
-        </html>
-        `;
+  // 사이트 기록은 사용자와 함께 삭제되므로 저장소를 지울 사이트 목록을 먼저 조회
+  const siteIds = getSitesByUserId(target.id).map((site) => site.id);
 
-        return new Response(html, {
-          status: 200,
-          headers: { "Content-Type": "text/html" },
-        });
+  if (!deleteUser(target.id)) {
+    return new Response(
+      JSON.stringify({ error: "사용자 삭제에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
       }
-    }
+    );
+  }
 
-    // 파일 내용 읽기
-    const result = await readBinaryFileByPath(fullPath);
+  await deleteUserStorage(target.id, siteIds);
+  console.log(
+    `사용자 삭제: ${target.username} (by ${authResult.user.username})`
+  );
 
-    if (!result) {
-      return new Response("파일을 찾을 수 없습니다", { status: 404 });
-    }
+  return new Response(JSON.stringify({ success: true, id: target.id }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-    return new Response(result.data, {
-      status: 200,
-      headers: {
-        "Content-Type": result.mimeType,
-        "Content-Length": result.size.toString(),
-      },
-    });
-  } catch (error) {
-    console.error(`파일 접근 오류: ${error}`);
-    return new Response("파일 접근에 실패했습니다", { status: 500 });
+/**
+ * 관리자: 비밀번호 초기화 API 핸들러
+ */
+export async function handleAdminResetPassword(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
   }
-}
 
-// 파일 크기를 사람이 읽기 쉬운 형태로 변환하는 함수
-function formatSize(bytes: number): string {
-  if (bytes < 1024) return bytes + " B";
-  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
-  if (bytes < 1024 * 1024 * 1024)
-    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
-  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
-}
+  const target = findAdminTargetUser(req);
+  if (!target) {
+    return adminUserNotFoundResponse();
+  }
 
-// 사용자의 디스크 사용량 정보 API 핸들러
-export async function handleGetDiskUsage(req: Request): Promise<Response> {
-  try {
-    // 사용자 인증 확인
-    const authResult = await authenticate(req);
-    if (!authResult || !authResult.id) {
-      return new Response(JSON.stringify({ error: "인증이 필요합니다" }), {
-        status: 401,
+  // 임시 비밀번호 생성 후 기존 세션 모두 폐기
+  const temporaryPassword = randomBytes(9).toString("base64url");
+  if (!updateUserPassword(target.id, await hashPassword(temporaryPassword))) {
+    return new Response(
+      JSON.stringify({ error: "비밀번호 초기화에 실패했습니다" }),
+      {
+        status: 500,
         headers: { "Content-Type": "application/json" },
-      });
+      }
+    );
+  }
+  deleteSessionsByUserId(target.id);
+
+  return new Response(
+    JSON.stringify({ success: true, id: target.id, temporaryPassword }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
     }
+  );
+}
+
+/**
+ * 관리자: 사용자 가장(읽기 전용) 시작 API 핸들러
+ */
+export async function handleAdminImpersonate(req: Request, server?: Server) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
 
-    // 사용자의 디스크 사용량 계산
-    const diskUsage = await calculateUserDiskUsage(authResult.id);
+  const target = findAdminTargetUser(req);
+  if (!target) {
+    return adminUserNotFoundResponse();
+  }
 
+  // 관리자 본인의 세션이 있어야 가장 종료 후 복귀할 수 있음
+  const adminSessionId = getSessionIdFromCookie(req.headers.get("cookie"));
+  const adminSession = adminSessionId ? findSessionById(adminSessionId) : null;
+  if (!adminSession || adminSession.userId !== authResult.user.id) {
     return new Response(
-      JSON.stringify({
-        used: diskUsage,
-        total: MAX_USER_STORAGE,
-        percentage: (diskUsage / MAX_USER_STORAGE) * 100,
-      }),
-      { status: 200, headers: { "Content-Type": "application/json" } }
+      JSON.stringify({ error: "브라우저 세션에서만 가장할 수 있습니다" }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
     );
-  } catch (error) {
-    console.error("디스크 사용량 조회 오류:", error);
+  }
+
+  const impersonation = startImpersonation(
+    authResult.user,
+    target,
+    getClientInfo(req, server)
+  );
+  if (!impersonation) {
     return new Response(
-      JSON.stringify({ error: "디스크 사용량 조회 중 오류가 발생했습니다" }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
+      JSON.stringify({ error: "가장 세션 생성에 실패했습니다" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
     );
   }
+
+  const headers = new Headers({ "Content-Type": "application/json" });
+  headers.append(
+    "Set-Cookie",
+    createSessionCookie(impersonation.sessionId, impersonation.expiresAt)
+  );
+  headers.append(
+    "Set-Cookie",
+    createAdminSessionCookie(adminSession.id, new Date(adminSession.expiresAt))
+  );
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      user: { id: target.id, username: target.username },
+      expiresAt: impersonation.expiresAt.toISOString(),
+    }),
+    { status: 200, headers }
+  );
 }
 
 /**
- * 파일/폴더 이름 변경 API 핸들러
+ * 관리자: 사용자 가장 종료 API 핸들러
  */
-export async function handleRenameFileOrDirectory(req: Request) {
-  const authResult = await requireAuth(req);
-  if (authResult.response) {
-    return authResult.response;
-  }
-
-  const user = authResult.user;
-  const url = new URL(req.url);
-  const pathParts = url.pathname.split("/");
-  const userId = pathParts[pathParts.indexOf("users") + 1];
-
-  // 현재 사용자가 요청된 사용자와 일치하는지 확인
-  if (userId !== user.id) {
+export async function handleStopImpersonation(req: Request) {
+  const auth = await authenticateRequest(req);
+  if (!auth || !auth.impersonatorId || !auth.sessionId) {
     return new Response(
-      JSON.stringify({ error: "다른 사용자의 파일에 접근할 권한이 없습니다" }),
+      JSON.stringify({ error: "가장 중인 세션이 아닙니다" }),
       {
-        status: 403,
+        status: 400,
         headers: { "Content-Type": "application/json" },
       }
     );
   }
 
-  try {
-    const json = await req.json();
-    const { oldPath, newPath } = json;
+  deleteSession(auth.sessionId);
+
+  // 보관해 둔 관리자 세션으로 복귀
+  const headers = new Headers({ "Content-Type": "application/json" });
+  const adminSessionId = getAdminSessionIdFromCookie(req.headers.get("cookie"));
+  const adminSession = adminSessionId ? findSessionById(adminSessionId) : null;
+  const restored =
+    adminSession !== null &&
+    adminSession.userId === auth.impersonatorId &&
+    new Date(adminSession.expiresAt) > new Date();
+
+  headers.append(
+    "Set-Cookie",
+    restored
+      ? createSessionCookie(adminSession.id, new Date(adminSession.expiresAt))
+      : CLEAR_SESSION_COOKIE
+  );
+  headers.append("Set-Cookie", CLEAR_ADMIN_SESSION_COOKIE);
 
-    if (!oldPath || !newPath) {
-      return new Response(
-        JSON.stringify({ error: "원본 경로와 새 경로가 필요합니다" }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
+  return new Response(JSON.stringify({ success: true, restored }), {
+    status: 200,
+    headers,
+  });
+}
 
-    // 사용자 디렉토리 내 파일 경로 확인
-    const oldFullPath = await resolvePath(userId, oldPath);
-    const newFullPath = await resolvePath(userId, newPath);
+/**
+ * 관리자: 로그인 잠금 기록 목록 API 핸들러
+ */
+export async function handleAdminListLockouts(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
 
-    // 파일/폴더 이름 변경 시도
-    const success = await renameFileOrDirectory(oldFullPath, newFullPath);
+  const url = new URL(req.url);
+  const activeOnly = url.searchParams.get("active") === "true";
 
-    if (!success) {
-      return new Response(
-        JSON.stringify({ error: "파일/폴더 이름 변경에 실패했습니다" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+  return new Response(
+    JSON.stringify({ lockouts: getLoginLockouts(activeOnly) }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
     }
+  );
+}
+
+/**
+ * 관리자: 로그인 잠금 해제 API 핸들러
+ */
+export async function handleAdminClearLockout(req: Request) {
+  const authResult = await requireAdmin(req);
+  if (authResult.response) {
+    return authResult.response;
+  }
+
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split("/");
+  const lockoutId = pathParts[4]; // /api/admin/lockouts/:id
 
+  const lockout = lockoutId ? clearLoginLockout(lockoutId) : null;
+  if (!lockout) {
     return new Response(
-      JSON.stringify({
-        success: true,
-        oldPath,
-        newPath,
-      }),
+      JSON.stringify({ error: "잠금 기록을 찾을 수 없습니다" }),
       {
-        status: 200,
+        status: 404,
         headers: { "Content-Type": "application/json" },
       }
     );
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "알 수 없는 오류";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
   }
+
+  resetLoginFailures(lockout.username);
+
+  return new Response(JSON.stringify({ success: true, lockout }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
 }
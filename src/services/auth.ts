@@ -1,15 +1,88 @@
+import type { Server } from "bun";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
 import {
   createSession,
   findSessionById,
   findUserById,
   findUserByUsername,
   deleteSession,
+  touchSession,
+  findApiTokenByHash,
+  touchApiToken,
+  hashPassword,
+  isPasswordHash,
+  updateUserPassword,
   type User,
+  type SessionClientInfo,
+  type TokenScope,
 } from "./database";
 
-// 쿠키에서 세션 ID 추출
-export function getSessionIdFromCookie(
-  cookieHeader: string | null
+// API 토큰 접두사 (토큰 종류 식별 및 유출 탐지용)
+const API_TOKEN_PREFIX = "wpt_";
+
+// 인증 결과 (API 토큰으로 인증된 경우 허용된 권한 범위 포함)
+export interface AuthContext {
+  user: User;
+  scopes: TokenScope[] | null; // 일반 세션 인증이면 null (모든 권한)
+  tokenId: string | null;
+  sessionId: string | null;
+  impersonatorId: string | null; // 관리자 가장 세션이면 관리자 ID (읽기 전용)
+}
+
+// 로그인 결과
+export type LoginResult =
+  | { success: true; user: User; sessionId: string; expiresAt: Date }
+  | {
+      success: false;
+      reason: "invalid_credentials" | "account_disabled" | "session_error";
+    };
+
+// 관리자 가장 세션 유지 시간 (1시간)
+const IMPERSONATION_DURATION = 60 * 60 * 1000;
+
+// 가장 시작 전 관리자 세션 ID를 보관하는 쿠키 이름
+const ADMIN_SESSION_COOKIE = "admin_session_id";
+
+// 세션 마지막 사용 시각 갱신 간격 (매 요청마다 DB에 쓰지 않도록 1분)
+const SESSION_TOUCH_INTERVAL = 60 * 1000;
+
+// 존재하지 않는 사용자 로그인 시에도 응답 시간을 맞추기 위한 더미 해시
+const DUMMY_PASSWORD_HASH = await hashPassword("dummy-password");
+
+// 길이와 관계없이 일정 시간에 문자열 비교 (평문 레거시 데이터용)
+function constantTimeEquals(a: string, b: string): boolean {
+  const digestA = createHash("sha256").update(a).digest();
+  const digestB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+// 비밀번호 검증 (평문으로 저장된 기존 사용자는 검증 성공 시 해시로 마이그레이션)
+export async function verifyUserPassword(
+  user: User,
+  password: string
+): Promise<boolean> {
+  if (isPasswordHash(user.password)) {
+    return Bun.password.verify(password, user.password);
+  }
+
+  if (!constantTimeEquals(user.password, password)) {
+    return false;
+  }
+
+  // 일회성 마이그레이션: 평문 비밀번호를 해시로 교체
+  const passwordHash = await hashPassword(password);
+  if (updateUserPassword(user.id, passwordHash)) {
+    user.password = passwordHash;
+    console.log(`비밀번호 해시 마이그레이션 완료: ${user.username}`);
+  }
+
+  return true;
+}
+
+// 쿠키 헤더에서 특정 쿠키 값 추출
+export function getCookieValue(
+  cookieHeader: string | null,
+  name: string
 ): string | null {
   if (!cookieHeader) return null;
 
@@ -21,9 +94,45 @@ export function getSessionIdFromCookie(
       return acc;
     }, {} as Record<string, string>);
 
-  return cookies["session_id"] || null;
+  return cookies[name] || null;
+}
+
+// 쿠키에서 세션 ID 추출
+export function getSessionIdFromCookie(
+  cookieHeader: string | null
+): string | null {
+  return getCookieValue(cookieHeader, "session_id");
 }
 
+// 세션 목록에 보여주는 공개 ID (세션 ID는 로그인 쿠키 값이므로 그대로 노출하지 않고 해시 사용)
+export function getSessionPublicId(sessionId: string): string {
+  return createHash("sha256")
+    .update(sessionId)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+// 쿠키에서 가장 시작 전 관리자 세션 ID 추출
+export function getAdminSessionIdFromCookie(
+  cookieHeader: string | null
+): string | null {
+  return getCookieValue(cookieHeader, ADMIN_SESSION_COOKIE);
+}
+
+// 세션 쿠키 삭제용 헤더 값
+export const CLEAR_SESSION_COOKIE =
+  "session_id=; HttpOnly; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT";
+
+// 관리자 세션 보관 쿠키 생성/삭제
+export function createAdminSessionCookie(
+  sessionId: string,
+  expiresAt: Date
+): string {
+  return `${ADMIN_SESSION_COOKIE}=${sessionId}; HttpOnly; Path=/; Expires=${expiresAt.toUTCString()}; SameSite=Strict`;
+}
+
+export const CLEAR_ADMIN_SESSION_COOKIE = `${ADMIN_SESSION_COOKIE}=; HttpOnly; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+
 // 세션 쿠키 생성
 export function createSessionCookie(
   sessionId: string,
@@ -32,8 +141,137 @@ export function createSessionCookie(
   return `session_id=${sessionId}; HttpOnly; Path=/; Expires=${expiresAt.toUTCString()}; SameSite=Strict`;
 }
 
+// X-Forwarded-For를 믿을 프록시 주소 목록 (쉼표로 구분, 비어 있으면 헤더를 무시)
+const TRUSTED_PROXIES = new Set(
+  (process.env.TRUSTED_PROXIES || "")
+    .split(",")
+    .map((address) => normalizeIp(address.trim()))
+    .filter(Boolean)
+);
+
+// IPv4 매핑 IPv6 주소(::ffff:1.2.3.4)를 IPv4 형식으로 통일
+function normalizeIp(address: string): string {
+  return address.toLowerCase().replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/, "$1");
+}
+
+// 요청의 클라이언트 IP 추출
+// 직접 연결한 주소가 신뢰하는 프록시일 때만 X-Forwarded-For를 따라가며,
+// 오른쪽부터 신뢰하는 프록시를 건너뛴 첫 주소를 클라이언트로 봄 (클라이언트가 헤더를 위조할 수 있으므로)
+export function getClientIp(req: Request, server?: Server): string | null {
+  const peerAddress = server?.requestIP(req)?.address;
+  if (!peerAddress) {
+    return null;
+  }
+
+  let clientIp = normalizeIp(peerAddress);
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  if (!forwardedFor || !TRUSTED_PROXIES.has(clientIp)) {
+    return clientIp;
+  }
+
+  const hops = forwardedFor
+    .split(",")
+    .map((address) => normalizeIp(address.trim()))
+    .filter(Boolean);
+  while (hops.length > 0 && TRUSTED_PROXIES.has(clientIp)) {
+    clientIp = hops.pop()!;
+  }
+  return clientIp;
+}
+
+// 세션에 기록할 클라이언트 정보 추출
+export function getClientInfo(
+  req: Request,
+  server?: Server
+): SessionClientInfo {
+  return {
+    ipAddress: getClientIp(req, server),
+    userAgent: req.headers.get("user-agent"),
+  };
+}
+
+// Authorization 헤더에서 Bearer 토큰 추출
+export function getBearerToken(
+  authorizationHeader: string | null
+): string | null {
+  if (!authorizationHeader) return null;
+
+  const match = authorizationHeader.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// API 토큰 해시 계산 (무작위 고엔트로피 토큰이므로 SHA-256으로 충분)
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// 새 API 토큰 발급 (원문은 발급 시 한 번만 사용자에게 보여줌)
+export function generateApiToken(): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+// 인증 컨텍스트가 요청한 권한을 가지고 있는지 확인 (admin은 모든 권한 포함)
+export function hasScope(auth: AuthContext, scope?: TokenScope): boolean {
+  if (!auth.scopes) return true;
+  if (auth.scopes.includes("admin")) return true;
+  return scope !== undefined && auth.scopes.includes(scope);
+}
+
+// API 토큰 인증
+function authenticateApiToken(token: string): AuthContext | null {
+  const apiToken = findApiTokenByHash(hashApiToken(token));
+  if (!apiToken) return null;
+
+  // 토큰 만료 확인
+  if (apiToken.expiresAt && new Date(apiToken.expiresAt) < new Date()) {
+    return null;
+  }
+
+  const user = findUserById(apiToken.userId);
+  if (!user || user.disabledAt) return null;
+
+  touchApiToken(apiToken.id);
+
+  return {
+    user,
+    scopes: apiToken.scopes,
+    tokenId: apiToken.id,
+    sessionId: null,
+    impersonatorId: null,
+  };
+}
+
+// 요청 인증 (Bearer 토큰 우선, 없으면 세션 쿠키)
+export async function authenticateRequest(
+  req: Request
+): Promise<AuthContext | null> {
+  // Authorization 헤더가 있으면 쿠키로 대체하지 않음
+  const authorizationHeader = req.headers.get("authorization");
+  if (authorizationHeader) {
+    const token = getBearerToken(authorizationHeader);
+    return token ? authenticateApiToken(token) : null;
+  }
+
+  return authenticateSession(req);
+}
+
 // 사용자 인증 미들웨어
 export async function authenticate(req: Request): Promise<User | null> {
+  const auth = await authenticateRequest(req);
+  return auth?.user ?? null;
+}
+
+// 세션 쿠키 인증
+async function authenticateSession(req: Request): Promise<AuthContext | null> {
   // 쿠키에서 세션 ID 추출
   const sessionId = getSessionIdFromCookie(req.headers.get("cookie"));
   if (!sessionId) return null;
@@ -52,47 +290,96 @@ export async function authenticate(req: Request): Promise<User | null> {
     return null;
   }
 
-  // 세션에 연결된 사용자 가져오기
-  return findUserById(session.userId);
+  // 마지막 사용 시각 갱신
+  const lastSeenAt = new Date(session.lastSeenAt ?? session.createdAt);
+  if (now.getTime() - lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL) {
+    touchSession(sessionId, now);
+  }
+
+  // 세션에 연결된 사용자 가져오기 (비활성화된 계정은 거부)
+  const user = findUserById(session.userId);
+  if (!user || user.disabledAt) return null;
+
+  return {
+    user,
+    // 관리자 가장 세션은 읽기 전용
+    scopes: session.impersonatorId ? ["read"] : null,
+    tokenId: null,
+    sessionId: session.id,
+    impersonatorId: session.impersonatorId,
+  };
 }
 
 // 로그인 처리
 export async function login(
   username: string,
-  password: string
-): Promise<{ user: User; sessionId: string } | null> {
+  password: string,
+  clientInfo: SessionClientInfo = {}
+): Promise<LoginResult> {
   const user = findUserByUsername(username);
 
-  // 사용자가 존재하고 비밀번호가 일치하는지 확인
-  if (!user || user.password !== password) {
-    return null;
+  // 사용자가 없어도 해시 검증을 수행하여 응답 시간으로 계정 존재 여부가 드러나지 않도록 함
+  if (!user) {
+    await Bun.password.verify(password, DUMMY_PASSWORD_HASH);
+    return { success: false, reason: "invalid_credentials" };
+  }
+
+  // 비밀번호가 일치하는지 확인
+  if (!(await verifyUserPassword(user, password))) {
+    return { success: false, reason: "invalid_credentials" };
+  }
+
+  // 비활성화된 계정 확인 (비밀번호가 맞은 경우에만 알려줌)
+  if (user.disabledAt) {
+    return { success: false, reason: "account_disabled" };
   }
 
   // 세션 만료 시간 설정 (24시간)
   const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
 
   // 세션 생성
-  const session = createSession(user.id, expiresAt);
+  const session = createSession(user.id, expiresAt, clientInfo);
 
   if (!session) {
-    return null;
+    return { success: false, reason: "session_error" };
   }
 
   return {
+    success: true,
     user,
     sessionId: session.id,
+    expiresAt,
   };
 }
 
+// 관리자가 다른 사용자로 읽기 전용 가장 세션 시작
+export function startImpersonation(
+  admin: User,
+  target: User,
+  clientInfo: SessionClientInfo = {}
+): { sessionId: string; expiresAt: Date } | null {
+  const expiresAt = new Date(Date.now() + IMPERSONATION_DURATION);
+  const session = createSession(target.id, expiresAt, clientInfo, admin.id);
+
+  if (!session) {
+    return null;
+  }
+
+  console.log(`관리자 가장 시작: ${admin.username} → ${target.username}`);
+  return { sessionId: session.id, expiresAt };
+}
+
 // 로그인 필요 여부 확인 미들웨어
+// scope를 지정하지 않으면 API 토큰은 admin 권한이 있어야 접근 가능
 export async function requireAuth(
-  req: Request
+  req: Request,
+  scope?: TokenScope
 ): Promise<
   { user: User; response: null } | { user: null; response: Response }
 > {
-  const user = await authenticate(req);
+  const auth = await authenticateRequest(req);
 
-  if (!user) {
+  if (!auth) {
     return {
       user: null,
       response: new Response(JSON.stringify({ error: "인증이 필요합니다" }), {
@@ -104,5 +391,54 @@ export async function requireAuth(
     };
   }
 
-  return { user, response: null };
+  if (!hasScope(auth, scope)) {
+    return {
+      user: null,
+      response: new Response(
+        JSON.stringify({
+          error: auth.impersonatorId
+            ? "가장 모드에서는 읽기만 가능합니다"
+            : "토큰 권한이 부족합니다",
+          requiredScope: scope ?? "admin",
+        }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      ),
+    };
+  }
+
+  return { user: auth.user, response: null };
+}
+
+// 관리자 권한 확인 미들웨어
+export async function requireAdmin(
+  req: Request
+): Promise<
+  { user: User; response: null } | { user: null; response: Response }
+> {
+  const authResult = await requireAuth(req, "admin");
+  if (authResult.response) {
+    return authResult;
+  }
+
+  if (authResult.user.role !== "admin") {
+    return {
+      user: null,
+      response: new Response(
+        JSON.stringify({ error: "관리자 권한이 필요합니다" }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      ),
+    };
+  }
+
+  return authResult;
 }
@@ -0,0 +1,164 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { promisify } from "util";
+import { brotliCompress, constants, gzip } from "zlib";
+import { join } from "path";
+import { getSiteCompressedDir, getSiteRelativePath } from "./fileStorage";
+import { isTextMimeType } from "./mime";
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+// 지원하는 압축 방식 (앞에 있을수록 우선)
+export type ContentEncoding = "br" | "gzip";
+
+const ENCODINGS: ContentEncoding[] = ["br", "gzip"];
+
+// 미리 압축해 둔 파일의 확장자
+const PRECOMPRESSED_EXTENSIONS: Record<ContentEncoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+// 이보다 작은 파일은 압축해도 이득이 거의 없음
+const MIN_COMPRESS_SIZE = 1024;
+
+// 요청 중에 압축하는 최대 크기 (더 큰 파일은 미리 압축한 파일이 있을 때만 압축 응답, 환경 변수로 변경 가능)
+const MAX_COMPRESS_SIZE =
+  Number(process.env.MAX_COMPRESS_SIZE) || 10 * 1024 * 1024;
+
+// 텍스트가 아니어도 압축 효과가 큰 형식
+const COMPRESSIBLE_MIME_TYPES = [
+  "application/wasm",
+  "application/vnd.ms-fontobject",
+  "font/ttf",
+  "font/otf",
+  "image/bmp",
+  "image/x-icon",
+];
+
+// 압축해서 보낼 형식인지 확인 (이미 압축된 이미지, 동영상, woff 글꼴 등은 제외)
+export function isCompressibleMimeType(mimeType: string): boolean {
+  const type = mimeType.split(";")[0]!.trim().toLowerCase();
+  return isTextMimeType(type) || COMPRESSIBLE_MIME_TYPES.includes(type);
+}
+
+// Accept-Encoding 헤더에서 사용할 압축 방식 선택 (q 값이 높은 것, 같으면 brotli 우선)
+export function negotiateEncoding(
+  acceptEncoding: string | null
+): ContentEncoding | null {
+  if (!acceptEncoding) {
+    return null;
+  }
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    if (!name) continue;
+    const q = params
+      .map((param) => /^\s*q=([0-9.]+)\s*$/.exec(param))
+      .find(Boolean);
+    weights.set(name.trim(), q ? Number(q[1]) : 1);
+  }
+
+  let best: ContentEncoding | null = null;
+  let bestWeight = 0;
+  for (const encoding of ENCODINGS) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// 압축한 내용의 ETag (원본 ETag에 압축 방식을 붙여 구분)
+export function getEncodedETag(
+  etag: string,
+  encoding: ContentEncoding
+): string {
+  return etag.replace(/"$/, `-${encoding}"`);
+}
+
+// 파일의 압축본 경로 조회 (미리 압축한 파일 → 캐시 → 새로 압축 순, 사용할 수 없으면 null)
+export async function getCompressedFile(
+  siteId: string,
+  fullPath: string,
+  size: number,
+  etag: string,
+  encoding: ContentEncoding
+): Promise<string | null> {
+  // 같은 폴더에 미리 압축해 둔 파일 (index.html.br 등)
+  const siblingPath = fullPath + PRECOMPRESSED_EXTENSIONS[encoding];
+  try {
+    if ((await stat(siblingPath)).isFile()) {
+      return siblingPath;
+    }
+  } catch (error) {
+    // 미리 압축한 파일 없음
+  }
+
+  if (size < MIN_COMPRESS_SIZE || size > MAX_COMPRESS_SIZE) {
+    return null;
+  }
+
+  // 경로별 폴더에 ETag별로 보관 (내용이 바뀌면 ETag가 달라져 새로 압축)
+  const pathKey = createHash("sha1")
+    .update(getSiteRelativePath(siteId, fullPath))
+    .digest("hex");
+  const etagKey = createHash("sha1").update(etag).digest("hex");
+  const cacheDir = join(getSiteCompressedDir(siteId), pathKey);
+  const cachePath = join(cacheDir, `${etagKey}.${encoding}`);
+
+  try {
+    await stat(cachePath);
+    return cachePath;
+  } catch (error) {
+    // 캐시 없음
+  }
+
+  try {
+    const data = await readFile(fullPath);
+    const compressed =
+      encoding === "br"
+        ? await brotliCompressAsync(data, {
+            params: {
+              [constants.BROTLI_PARAM_QUALITY]: 9,
+              [constants.BROTLI_PARAM_SIZE_HINT]: data.byteLength,
+            },
+          })
+        : await gzipAsync(data, { level: 9 });
+
+    // 압축 효과가 없으면 원본 그대로 응답
+    if (compressed.byteLength >= data.byteLength) {
+      return null;
+    }
+
+    await mkdir(cacheDir, { recursive: true });
+
+    // 이전 내용의 압축본은 삭제 (같은 방식만)
+    for (const name of await readdir(cacheDir)) {
+      if (name.endsWith(`.${encoding}`) && name !== `${etagKey}.${encoding}`) {
+        await rm(join(cacheDir, name), { force: true });
+      }
+    }
+
+    // 다른 요청이 쓰다 만 파일을 읽지 않도록 임시 파일에 쓴 뒤 이름 변경
+    const tempPath = join(cacheDir, `${randomUUID()}.tmp`);
+    await writeFile(tempPath, compressed);
+    await rename(tempPath, cachePath);
+    return cachePath;
+  } catch (error) {
+    console.error(`압축 파일 생성 오류 (${fullPath}): ${error}`);
+    return null;
+  }
+}
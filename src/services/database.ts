@@ -1,5 +1,5 @@
 import { Database } from "bun:sqlite";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 
 // 데이터베이스 파일 경로 설정
 const DB_PATH = "./data.sqlite";
@@ -7,11 +7,156 @@ const DB_PATH = "./data.sqlite";
 // 데이터베이스 연결
 export const db = new Database(DB_PATH);
 
+// 사용자 역할
+export type UserRole = "user" | "admin";
+
 // 사용자 타입 정의
 export interface User {
   id: string;
   username: string;
-  password: string; // 실제로는 해시된 비밀번호
+  password: string; // Bun.password로 해시된 비밀번호 (구버전 데이터는 평문일 수 있음)
+  createdAt: string;
+  role: UserRole;
+  disabledAt: string | null; // 비활성화된 계정이면 비활성화 시각
+  planId: string; // 저장 공간 요금제 ID
+  storageQuota: number | null; // 사용자별 전체 용량 한도 (null이면 요금제 기본값)
+}
+
+// 관리자가 변경할 수 있는 사용자 속성
+export type UserUpdate = Partial<
+  Pick<User, "role" | "disabledAt" | "planId" | "storageQuota">
+>;
+
+// 저장 공간 요금제 타입 정의 (null인 한도는 무제한)
+export interface StoragePlan {
+  id: string;
+  name: string;
+  maxTotalBytes: number | null;
+  maxFileBytes: number | null;
+  maxFileCount: number | null;
+}
+
+// 신규 사용자에게 적용되는 기본 요금제
+export const DEFAULT_PLAN_ID = "free";
+
+// 최초 부팅 시 생성되는 기본 요금제
+export const DEFAULT_STORAGE_PLANS: StoragePlan[] = [
+  {
+    id: "free",
+    name: "Free",
+    maxTotalBytes: 10 * 1024 * 1024, // 10MB
+    maxFileBytes: 10 * 1024 * 1024, // 10MB
+    maxFileCount: 1000,
+  },
+  {
+    id: "pro",
+    name: "Pro",
+    maxTotalBytes: 1024 * 1024 * 1024, // 1GB
+    maxFileBytes: 100 * 1024 * 1024, // 100MB
+    maxFileCount: 50000,
+  },
+  {
+    id: "unlimited",
+    name: "Unlimited",
+    maxTotalBytes: null,
+    maxFileBytes: null,
+    maxFileCount: null,
+  },
+];
+
+// 사용자별 저장 공간 사용량 (파일을 쓸 때마다 갱신되는 누적값)
+export interface StorageUsage {
+  bytes: number;
+  fileCount: number;
+}
+
+// 저장 공간 사용량 기록
+export interface StorageUsageRecord extends StorageUsage {
+  userId: string;
+  updatedAt: string;
+  reconciledAt: string | null; // 마지막으로 실제 디스크와 대조한 시각
+}
+
+// 파일 리비전 타입 정의 (내용은 해시 기반 저장소에 보관)
+export interface FileRevision {
+  id: string;
+  userId: string;
+  siteId: string;
+  path: string; // 사이트 디렉토리 기준 상대 경로
+  hash: string; // 내용의 SHA-256 해시
+  size: number;
+  createdAt: string;
+}
+
+// 휴지통 항목 타입 정의 (원래 위치와 삭제 시각을 보관)
+export interface TrashItem {
+  id: string;
+  userId: string;
+  siteId: string; // 복원할 사이트
+  originalPath: string; // 사이트 디렉토리 기준 상대 경로
+  isDirectory: boolean;
+  size: number;
+  fileCount: number;
+  deletedAt: string;
+}
+
+// 이어 올리기 업로드 세션 타입 정의 (완료 전까지 받은 크기를 보관)
+export interface UploadSession {
+  id: string;
+  userId: string;
+  siteId: string;
+  path: string; // 완료 후 저장할 사이트 디렉토리 기준 상대 경로
+  size: number; // 전체 파일 크기
+  offset: number; // 지금까지 받은 크기
+  createdAt: string;
+  updatedAt: string; // 마지막으로 조각을 받은 시각 (방치된 업로드 정리 기준)
+}
+
+// 사이트 타입 정의 (사용자마다 여러 사이트, 기본 사이트의 ID는 사용자 ID와 같음)
+export interface Site {
+  id: string; // 파일은 uploads/<사이트 ID>에 저장
+  userId: string;
+  name: string;
+  createdAt: string;
+}
+
+// 계정을 만들 때 함께 만드는 기본 사이트 이름
+export const DEFAULT_SITE_NAME = "기본 사이트";
+
+// 사이트 주소 타입 정의 (사이트마다 사용 중인 주소는 하나, 이전 주소는 새 주소로 이동하도록 보관)
+export interface SiteSlug {
+  slug: string;
+  userId: string;
+  siteId: string;
+  createdAt: string;
+  retiredAt: string | null; // 다른 주소로 바꾼 시각 (null이면 현재 주소)
+}
+
+// 사이트 공개 범위 (공개, 링크로만 공개, 소유자만, 비밀번호)
+export type SiteVisibility = "public" | "unlisted" | "private" | "password";
+
+// 공개 범위 규칙 타입 정의 (사이트 전체나 폴더 단위, 가장 가까운 상위 폴더의 규칙 적용)
+export interface SiteAccessRule {
+  siteId: string;
+  userId: string;
+  path: string; // 사이트 디렉토리 기준 폴더 경로 (빈 문자열이면 사이트 전체)
+  visibility: SiteVisibility;
+  passwordHash: string | null;
+  secret: string | null; // 잠금 해제 쿠키 서명 키 (비밀번호를 바꾸면 새로 만들어 기존 쿠키 무효화)
+  updatedAt: string;
+}
+
+// 공유 링크 타입 정의 (파일이나 폴더 하나를 만료 시각까지 로그인 없이 볼 수 있게 함)
+export interface ShareLink {
+  id: string;
+  userId: string;
+  siteId: string;
+  path: string; // 사이트 디렉토리 기준 상대 경로
+  secret: string; // 링크 토큰 서명 키
+  passwordHash: string | null;
+  maxDownloads: number | null; // null이면 횟수 제한 없음
+  downloadCount: number;
+  expiresAt: string;
   createdAt: string;
 }
 
@@ -21,6 +166,45 @@ export interface Session {
   userId: string;
   expiresAt: string;
   createdAt: string;
+  lastSeenAt: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  impersonatorId: string | null; // 관리자가 읽기 전용으로 가장 중인 세션이면 관리자 ID
+}
+
+// 세션 생성 시 기록하는 클라이언트 정보
+export interface SessionClientInfo {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// API 토큰 권한 범위
+export type TokenScope = "read" | "write" | "delete" | "admin";
+
+export const TOKEN_SCOPES: TokenScope[] = ["read", "write", "delete", "admin"];
+
+// 개인 API 토큰 타입 정의 (토큰 원문은 저장하지 않고 해시만 보관)
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// 로그인 잠금 기록 타입 정의
+export interface LoginLockout {
+  id: string;
+  username: string;
+  ipAddress: string | null;
+  failedAttempts: number;
+  lockedAt: string;
+  lockedUntil: string;
+  clearedAt: string | null;
 }
 
 // 파일 타입 정의
@@ -34,18 +218,64 @@ export interface UploadedFile {
   uploadedAt: string;
 }
 
+// 기존 테이블에 컬럼이 없으면 추가 (간단한 스키마 마이그레이션)
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string;
+  }[];
+  if (!columns.some((col) => col.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 // 데이터베이스 초기화 함수
-export function initializeDatabase() {
+export async function initializeDatabase() {
   // 사용자 테이블 생성
   db.run(`
     CREATE TABLE IF NOT EXISTS users (
       id TEXT PRIMARY KEY,
       username TEXT UNIQUE NOT NULL,
       password TEXT NOT NULL,
-      createdAt TEXT NOT NULL
+      createdAt TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'user',
+      disabledAt TEXT,
+      planId TEXT NOT NULL DEFAULT '${DEFAULT_PLAN_ID}',
+      storageQuota INTEGER
     )
   `);
 
+  // 기존 사용자 테이블 마이그레이션
+  ensureColumn("users", "role", "TEXT NOT NULL DEFAULT 'user'");
+  ensureColumn("users", "disabledAt", "TEXT");
+  ensureColumn("users", "planId", `TEXT NOT NULL DEFAULT '${DEFAULT_PLAN_ID}'`);
+  ensureColumn("users", "storageQuota", "INTEGER");
+
+  // 저장 공간 요금제 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS storage_plans (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      maxTotalBytes INTEGER,
+      maxFileBytes INTEGER,
+      maxFileCount INTEGER
+    )
+  `);
+
+  // 기본 요금제 생성 (이미 있으면 관리자가 수정한 값을 유지)
+  const insertPlan = db.prepare(`
+    INSERT OR IGNORE INTO storage_plans (id, name, maxTotalBytes, maxFileBytes, maxFileCount)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  for (const plan of DEFAULT_STORAGE_PLANS) {
+    insertPlan.run(
+      plan.id,
+      plan.name,
+      plan.maxTotalBytes,
+      plan.maxFileBytes,
+      plan.maxFileCount
+    );
+  }
+
   // 세션 테이블 생성
   db.run(`
     CREATE TABLE IF NOT EXISTS sessions (
@@ -53,10 +283,20 @@ export function initializeDatabase() {
       userId TEXT NOT NULL,
       expiresAt TEXT NOT NULL,
       createdAt TEXT NOT NULL,
+      lastSeenAt TEXT,
+      ipAddress TEXT,
+      userAgent TEXT,
+      impersonatorId TEXT,
       FOREIGN KEY (userId) REFERENCES users(id)
     )
   `);
 
+  // 기존 세션 테이블 마이그레이션
+  ensureColumn("sessions", "lastSeenAt", "TEXT");
+  ensureColumn("sessions", "ipAddress", "TEXT");
+  ensureColumn("sessions", "userAgent", "TEXT");
+  ensureColumn("sessions", "impersonatorId", "TEXT");
+
   // 파일 테이블 생성
   db.run(`
     CREATE TABLE IF NOT EXISTS files (
@@ -71,32 +311,244 @@ export function initializeDatabase() {
     )
   `);
 
-  // 기본 사용자 생성 (테스트용)
-  const defaultUser = findUserByUsername("admin");
-  if (!defaultUser) {
-    createUser("admin", "admin123");
-    console.log("기본 사용자 생성 완료: admin / admin123");
+  // API 토큰 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      name TEXT NOT NULL,
+      tokenHash TEXT UNIQUE NOT NULL,
+      tokenPrefix TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      expiresAt TEXT,
+      lastUsedAt TEXT,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 로그인 잠금 기록 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS login_lockouts (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      ipAddress TEXT,
+      failedAttempts INTEGER NOT NULL,
+      lockedAt TEXT NOT NULL,
+      lockedUntil TEXT NOT NULL,
+      clearedAt TEXT
+    )
+  `);
+
+  // 저장 공간 사용량 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS storage_usage (
+      userId TEXT PRIMARY KEY,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      fileCount INTEGER NOT NULL DEFAULT 0,
+      updatedAt TEXT NOT NULL,
+      reconciledAt TEXT,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 파일 리비전 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS file_revisions (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      path TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+  db.run(
+    "CREATE INDEX IF NOT EXISTS idx_file_revisions_path ON file_revisions (userId, path)"
+  );
+
+  // 휴지통 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS trash_items (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      originalPath TEXT NOT NULL,
+      isDirectory INTEGER NOT NULL,
+      size INTEGER NOT NULL,
+      fileCount INTEGER NOT NULL,
+      deletedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 이어 올리기 업로드 세션 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS upload_sessions (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      path TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      offset INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 사이트 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sites (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      name TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 기존 사용자의 파일 디렉토리(uploads/<사용자 ID>)를 기본 사이트로 등록
+  db.prepare(
+    "INSERT OR IGNORE INTO sites (id, userId, name, createdAt) SELECT id, id, ?, createdAt FROM users"
+  ).run(DEFAULT_SITE_NAME);
+
+  // 사이트 주소 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS site_slugs (
+      slug TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      siteId TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      retiredAt TEXT,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 사이트 공개 범위 규칙 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS site_access_rules (
+      siteId TEXT NOT NULL,
+      userId TEXT NOT NULL,
+      path TEXT NOT NULL,
+      visibility TEXT NOT NULL,
+      passwordHash TEXT,
+      secret TEXT,
+      updatedAt TEXT NOT NULL,
+      PRIMARY KEY (siteId, path),
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 공유 링크 테이블 생성
+  db.run(`
+    CREATE TABLE IF NOT EXISTS share_links (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      siteId TEXT NOT NULL,
+      path TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      passwordHash TEXT,
+      maxDownloads INTEGER,
+      downloadCount INTEGER NOT NULL DEFAULT 0,
+      expiresAt TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users(id)
+    )
+  `);
+
+  // 사이트 구분이 없던 기록은 기본 사이트(사용자 ID와 같은 ID)의 것으로 마이그레이션
+  for (const table of [
+    "file_revisions",
+    "trash_items",
+    "upload_sessions",
+    "site_slugs",
+  ]) {
+    ensureColumn(table, "siteId", "TEXT");
+    db.run(`UPDATE ${table} SET siteId = userId WHERE siteId IS NULL`);
+  }
+  db.run(
+    "CREATE INDEX IF NOT EXISTS idx_file_revisions_site_path ON file_revisions (siteId, path)"
+  );
+
+  await ensureAdminAccount();
+}
+
+// 관리자 계정이 하나도 없으면 최초 부팅 시 무작위 비밀번호로 생성
+async function ensureAdminAccount() {
+  const adminCount = db
+    .prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'admin'")
+    .get() as { count: number };
+  if (adminCount.count > 0) return;
+
+  const password = randomBytes(12).toString("base64url");
+  const existing = findUserByUsername("admin");
+
+  if (existing) {
+    // 이전 버전에서 만든 admin 계정을 승격 (알려진 기본 비밀번호는 교체)
+    updateUser(existing.id, { role: "admin" });
+    const usesDefaultPassword = isPasswordHash(existing.password)
+      ? await Bun.password.verify("admin123", existing.password)
+      : existing.password === "admin123";
+    if (!usesDefaultPassword) {
+      console.log("기존 admin 계정을 관리자로 지정했습니다");
+      return;
+    }
+    updateUserPassword(existing.id, await hashPassword(password));
+    console.log(`관리자 기본 비밀번호 교체 완료: admin / ${password}`);
+  } else if (await createUser("admin", password, "admin")) {
+    console.log(`관리자 계정 생성 완료: admin / ${password}`);
+  } else {
+    return;
   }
+
+  console.log(
+    "최초 로그인 후 비밀번호를 변경하세요. 이 비밀번호는 다시 표시되지 않습니다."
+  );
+}
+
+// 비밀번호 해시 생성 (Argon2id, 솔트 포함)
+export async function hashPassword(password: string): Promise<string> {
+  return Bun.password.hash(password, { algorithm: "argon2id" });
+}
+
+// 저장된 값이 Bun.password 해시 형식인지 확인
+export function isPasswordHash(value: string): boolean {
+  return /^\$(argon2(id|i|d)|2[abxy]?)\$/.test(value);
 }
 
 // 사용자 생성 함수
-export function createUser(username: string, password: string): User | null {
+export async function createUser(
+  username: string,
+  password: string,
+  role: UserRole = "user"
+): Promise<User | null> {
   try {
     const id = randomUUID();
     const now = new Date().toISOString();
+    const passwordHash = await hashPassword(password);
 
     const stmt = db.prepare(`
-      INSERT INTO users (id, username, password, createdAt)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO users (id, username, password, createdAt, role)
+      VALUES (?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, username, password, now);
+    const insertUser = db.transaction(() => {
+      stmt.run(id, username, passwordHash, now, role);
+      db.prepare(
+        "INSERT INTO sites (id, userId, name, createdAt) VALUES (?, ?, ?, ?)"
+      ).run(id, id, DEFAULT_SITE_NAME, now);
+    });
+    insertUser();
 
     return {
       id,
       username,
-      password,
+      password: passwordHash,
       createdAt: now,
+      role,
+      disabledAt: null,
+      planId: DEFAULT_PLAN_ID,
+      storageQuota: null,
     };
   } catch (error) {
     console.error("사용자 생성 오류:", error);
@@ -128,65 +580,1207 @@ export function findUserById(id: string): User | null {
   }
 }
 
-// 세션 생성 함수
-export function createSession(userId: string, expiresAt: Date): Session | null {
+// 사용자 비밀번호 해시 갱신
+export function updateUserPassword(id: string, passwordHash: string): boolean {
   try {
-    const id = randomUUID();
-    const now = new Date().toISOString();
+    const stmt = db.prepare("UPDATE users SET password = ? WHERE id = ?");
+    const result = stmt.run(passwordHash, id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("비밀번호 갱신 오류:", error);
+    return false;
+  }
+}
 
-    const stmt = db.prepare(`
-      INSERT INTO sessions (id, userId, expiresAt, createdAt)
-      VALUES (?, ?, ?, ?)
-    `);
+// 전체 사용자 목록 조회
+export function getAllUsers(): User[] {
+  try {
+    const query = db.prepare("SELECT * FROM users ORDER BY createdAt ASC");
+    return query.all() as User[];
+  } catch (error) {
+    console.error("사용자 목록 조회 오류:", error);
+    return [];
+  }
+}
 
-    stmt.run(id, userId, expiresAt.toISOString(), now);
+// 관리자 수 조회 (활성 계정만)
+export function countActiveAdmins(): number {
+  try {
+    const row = db
+      .prepare(
+        "SELECT COUNT(*) AS count FROM users WHERE role = 'admin' AND disabledAt IS NULL"
+      )
+      .get() as { count: number };
+    return row.count;
+  } catch (error) {
+    console.error("관리자 수 조회 오류:", error);
+    return 0;
+  }
+}
 
-    return {
-      id,
-      userId,
-      expiresAt: expiresAt.toISOString(),
-      createdAt: now,
-    };
+// 사용자 속성 갱신 (역할, 비활성화, 요금제, 저장 공간 한도)
+export function updateUser(id: string, updates: UserUpdate): User | null {
+  try {
+    const fields = (
+      ["role", "disabledAt", "planId", "storageQuota"] as const
+    ).filter((field) => updates[field] !== undefined);
+
+    if (fields.length > 0) {
+      const stmt = db.prepare(
+        `UPDATE users SET ${fields
+          .map((field) => `${field} = ?`)
+          .join(", ")} WHERE id = ?`
+      );
+      stmt.run(...fields.map((field) => updates[field] ?? null), id);
+    }
+
+    return findUserById(id);
   } catch (error) {
-    console.error("세션 생성 오류:", error);
+    console.error("사용자 갱신 오류:", error);
     return null;
   }
 }
 
-// 세션 찾기 함수
-export function findSessionById(id: string): Session | null {
+// 사용자 및 관련 데이터 삭제
+export function deleteUser(id: string): boolean {
   try {
-    const query = db.prepare("SELECT * FROM sessions WHERE id = ?");
-    const session = query.get(id) as Session | null;
-    return session;
+    const removeUser = db.transaction((userId: string) => {
+      db.prepare("DELETE FROM sessions WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM api_tokens WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM files WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM storage_usage WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM file_revisions WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM trash_items WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM upload_sessions WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM site_slugs WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM site_access_rules WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM share_links WHERE userId = ?").run(userId);
+      db.prepare("DELETE FROM sites WHERE userId = ?").run(userId);
+      return db.prepare("DELETE FROM users WHERE id = ?").run(userId);
+    });
+
+    return removeUser(id).changes > 0;
   } catch (error) {
-    console.error("세션 조회 오류:", error);
+    console.error("사용자 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 저장 공간 사용량 조회
+export function getStorageUsageRecord(
+  userId: string
+): StorageUsageRecord | null {
+  try {
+    const query = db.prepare("SELECT * FROM storage_usage WHERE userId = ?");
+    return query.get(userId) as StorageUsageRecord | null;
+  } catch (error) {
+    console.error("저장 공간 사용량 조회 오류:", error);
     return null;
   }
 }
 
-// 세션 삭제 함수
-export function deleteSession(id: string): boolean {
+// 저장 공간 사용량 최초 기록 (이미 있으면 유지)
+export function initializeStorageUsage(
+  userId: string,
+  usage: StorageUsage
+): boolean {
   try {
-    const stmt = db.prepare("DELETE FROM sessions WHERE id = ?");
-    const result = stmt.run(id);
+    const now = new Date().toISOString();
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO storage_usage (userId, bytes, fileCount, updatedAt, reconciledAt)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    stmt.run(userId, usage.bytes, usage.fileCount, now, now);
+    return true;
+  } catch (error) {
+    console.error("저장 공간 사용량 기록 오류:", error);
+    return false;
+  }
+}
+
+// 저장 공간 사용량 증감 (음수가 되지 않도록 보정)
+export function adjustStorageUsage(
+  userId: string,
+  bytes: number,
+  fileCount: number = 0
+): boolean {
+  try {
+    const stmt = db.prepare(`
+      UPDATE storage_usage
+      SET bytes = MAX(0, bytes + ?), fileCount = MAX(0, fileCount + ?), updatedAt = ?
+      WHERE userId = ?
+    `);
+    const result = stmt.run(bytes, fileCount, new Date().toISOString(), userId);
     return result.changes > 0;
   } catch (error) {
-    console.error("세션 삭제 오류:", error);
+    console.error("저장 공간 사용량 갱신 오류:", error);
     return false;
   }
 }
 
-// 모든 만료된 세션 삭제
-export function cleanExpiredSessions(): number {
+// 실제 디스크 사용량으로 보정 (대조하는 동안 다른 쓰기가 없었을 때만 반영)
+export function reconcileStorageUsageRecord(
+  userId: string,
+  usage: StorageUsage,
+  expectedUpdatedAt: string
+): boolean {
   try {
-    const now = new Date().toISOString();
-    const stmt = db.prepare("DELETE FROM sessions WHERE expiresAt < ?");
-    const result = stmt.run(now);
-    return result.changes;
+    const stmt = db.prepare(`
+      UPDATE storage_usage
+      SET bytes = ?, fileCount = ?, reconciledAt = ?
+      WHERE userId = ? AND updatedAt = ?
+    `);
+    const result = stmt.run(
+      usage.bytes,
+      usage.fileCount,
+      new Date().toISOString(),
+      userId,
+      expectedUpdatedAt
+    );
+    return result.changes > 0;
   } catch (error) {
-    console.error("만료 세션 정리 오류:", error);
-    return 0;
+    console.error("저장 공간 사용량 보정 오류:", error);
+    return false;
+  }
+}
+
+// 저장 공간 사용량 기록 삭제
+export function deleteStorageUsage(userId: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM storage_usage WHERE userId = ?");
+    stmt.run(userId);
+    return true;
+  } catch (error) {
+    console.error("저장 공간 사용량 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 파일 리비전 생성
+export function createFileRevision(
+  revision: Omit<FileRevision, "id" | "createdAt">
+): FileRevision | null {
+  try {
+    const id = randomUUID();
+    const createdAt = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT INTO file_revisions (id, userId, siteId, path, hash, size, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      id,
+      revision.userId,
+      revision.siteId,
+      revision.path,
+      revision.hash,
+      revision.size,
+      createdAt
+    );
+
+    return { id, createdAt, ...revision };
+  } catch (error) {
+    console.error("파일 리비전 생성 오류:", error);
+    return null;
+  }
+}
+
+// 파일의 리비전 목록 조회 (최신순)
+export function getFileRevisions(siteId: string, path: string): FileRevision[] {
+  try {
+    const query = db.prepare(`
+      SELECT * FROM file_revisions
+      WHERE siteId = ? AND path = ?
+      ORDER BY createdAt DESC, rowid DESC
+    `);
+    return query.all(siteId, path) as FileRevision[];
+  } catch (error) {
+    console.error("파일 리비전 조회 오류:", error);
+    return [];
+  }
+}
+
+// ID로 파일 리비전 조회
+export function findFileRevisionById(id: string): FileRevision | null {
+  try {
+    const query = db.prepare("SELECT * FROM file_revisions WHERE id = ?");
+    return query.get(id) as FileRevision | null;
+  } catch (error) {
+    console.error("파일 리비전 조회 오류:", error);
+    return null;
+  }
+}
+
+// 같은 내용을 참조하는 리비전 수 조회
+export function countRevisionsByHash(userId: string, hash: string): number {
+  try {
+    const row = db
+      .prepare(
+        "SELECT COUNT(*) AS count FROM file_revisions WHERE userId = ? AND hash = ?"
+      )
+      .get(userId, hash) as { count: number };
+    return row.count;
+  } catch (error) {
+    console.error("파일 리비전 조회 오류:", error);
+    return 0;
+  }
+}
+
+// 사이트의 모든 리비전 조회 (사이트 삭제 시 정리용)
+export function getFileRevisionsBySiteId(siteId: string): FileRevision[] {
+  try {
+    const query = db.prepare("SELECT * FROM file_revisions WHERE siteId = ?");
+    return query.all(siteId) as FileRevision[];
+  } catch (error) {
+    console.error("파일 리비전 조회 오류:", error);
+    return [];
+  }
+}
+
+// 파일 리비전 삭제
+export function deleteFileRevision(id: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM file_revisions WHERE id = ?");
+    const result = stmt.run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("파일 리비전 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 휴지통 테이블의 행 (isDirectory는 0/1로 저장됨)
+type TrashItemRow = Omit<TrashItem, "isDirectory"> & { isDirectory: number };
+
+// 데이터베이스 행을 휴지통 항목으로 변환
+function toTrashItem(row: TrashItemRow): TrashItem {
+  return { ...row, isDirectory: Boolean(row.isDirectory) };
+}
+
+// 휴지통 항목 생성
+export function createTrashItem(
+  item: Omit<TrashItem, "deletedAt">
+): TrashItem | null {
+  try {
+    const deletedAt = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT INTO trash_items (id, userId, siteId, originalPath, isDirectory, size, fileCount, deletedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      item.id,
+      item.userId,
+      item.siteId,
+      item.originalPath,
+      item.isDirectory ? 1 : 0,
+      item.size,
+      item.fileCount,
+      deletedAt
+    );
+
+    return { ...item, deletedAt };
+  } catch (error) {
+    console.error("휴지통 항목 생성 오류:", error);
+    return null;
+  }
+}
+
+// 사용자의 휴지통 항목 목록 조회 (최근 삭제순)
+export function getTrashItemsByUserId(userId: string): TrashItem[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM trash_items WHERE userId = ? ORDER BY deletedAt DESC"
+    );
+    return (query.all(userId) as TrashItemRow[]).map(toTrashItem);
+  } catch (error) {
+    console.error("휴지통 조회 오류:", error);
+    return [];
+  }
+}
+
+// 사이트의 휴지통 항목 목록 조회 (최근 삭제순)
+export function getTrashItemsBySiteId(siteId: string): TrashItem[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM trash_items WHERE siteId = ? ORDER BY deletedAt DESC"
+    );
+    return (query.all(siteId) as TrashItemRow[]).map(toTrashItem);
+  } catch (error) {
+    console.error("휴지통 조회 오류:", error);
+    return [];
+  }
+}
+
+// ID로 휴지통 항목 조회
+export function findTrashItemById(id: string): TrashItem | null {
+  try {
+    const query = db.prepare("SELECT * FROM trash_items WHERE id = ?");
+    const row = query.get(id) as TrashItemRow | null;
+    return row ? toTrashItem(row) : null;
+  } catch (error) {
+    console.error("휴지통 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사용자의 휴지통 항목이 차지하는 전체 용량
+export function getTrashBytesByUserId(userId: string): number {
+  try {
+    const row = db
+      .prepare(
+        "SELECT COALESCE(SUM(size), 0) AS bytes FROM trash_items WHERE userId = ?"
+      )
+      .get(userId) as { bytes: number };
+    return row.bytes;
+  } catch (error) {
+    console.error("휴지통 용량 조회 오류:", error);
+    return 0;
+  }
+}
+
+// 보관 기간이 지난 휴지통 항목 조회
+export function getExpiredTrashItems(deletedBefore: string): TrashItem[] {
+  try {
+    const query = db.prepare("SELECT * FROM trash_items WHERE deletedAt < ?");
+    return (query.all(deletedBefore) as TrashItemRow[]).map(toTrashItem);
+  } catch (error) {
+    console.error("휴지통 조회 오류:", error);
+    return [];
+  }
+}
+
+// 휴지통 항목 삭제
+export function deleteTrashItem(id: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM trash_items WHERE id = ?");
+    const result = stmt.run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("휴지통 항목 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 업로드 세션 생성
+export function createUploadSession(
+  session: Pick<UploadSession, "id" | "userId" | "siteId" | "path" | "size">
+): UploadSession | null {
+  try {
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT INTO upload_sessions (id, userId, siteId, path, size, offset, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, 0, ?, ?)
+    `);
+    stmt.run(
+      session.id,
+      session.userId,
+      session.siteId,
+      session.path,
+      session.size,
+      now,
+      now
+    );
+
+    return { ...session, offset: 0, createdAt: now, updatedAt: now };
+  } catch (error) {
+    console.error("업로드 세션 생성 오류:", error);
+    return null;
+  }
+}
+
+// ID로 업로드 세션 조회
+export function findUploadSessionById(id: string): UploadSession | null {
+  try {
+    const query = db.prepare("SELECT * FROM upload_sessions WHERE id = ?");
+    return query.get(id) as UploadSession | null;
+  } catch (error) {
+    console.error("업로드 세션 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사용자의 진행 중인 업로드 세션 목록 조회
+export function getUploadSessionsByUserId(userId: string): UploadSession[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM upload_sessions WHERE userId = ? ORDER BY createdAt"
+    );
+    return query.all(userId) as UploadSession[];
+  } catch (error) {
+    console.error("업로드 세션 조회 오류:", error);
+    return [];
+  }
+}
+
+// 받은 크기 갱신
+export function updateUploadSessionOffset(id: string, offset: number): boolean {
+  try {
+    const stmt = db.prepare(
+      "UPDATE upload_sessions SET offset = ?, updatedAt = ? WHERE id = ?"
+    );
+    const result = stmt.run(offset, new Date().toISOString(), id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("업로드 세션 갱신 오류:", error);
+    return false;
+  }
+}
+
+// 일정 시간 동안 조각을 받지 못한 업로드 세션 조회
+export function getExpiredUploadSessions(
+  updatedBefore: string
+): UploadSession[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM upload_sessions WHERE updatedAt < ?"
+    );
+    return query.all(updatedBefore) as UploadSession[];
+  } catch (error) {
+    console.error("업로드 세션 조회 오류:", error);
+    return [];
+  }
+}
+
+// 업로드 세션 삭제
+export function deleteUploadSession(id: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM upload_sessions WHERE id = ?");
+    const result = stmt.run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("업로드 세션 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 주소로 사이트 주소 정보 조회 (이전 주소 포함)
+export function findSiteSlug(slug: string): SiteSlug | null {
+  try {
+    const query = db.prepare("SELECT * FROM site_slugs WHERE slug = ?");
+    return query.get(slug) as SiteSlug | null;
+  } catch (error) {
+    console.error("사이트 주소 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사이트의 현재 주소 조회
+export function getCurrentSiteSlug(siteId: string): SiteSlug | null {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM site_slugs WHERE siteId = ? AND retiredAt IS NULL"
+    );
+    return query.get(siteId) as SiteSlug | null;
+  } catch (error) {
+    console.error("사이트 주소 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사이트 주소 변경 내역 조회 (최근 변경 순)
+export function getSiteSlugHistory(siteId: string): SiteSlug[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM site_slugs WHERE siteId = ? AND retiredAt IS NOT NULL ORDER BY retiredAt DESC"
+    );
+    return query.all(siteId) as SiteSlug[];
+  } catch (error) {
+    console.error("사이트 주소 내역 조회 오류:", error);
+    return [];
+  }
+}
+
+// 사이트 주소 변경 (현재 주소는 이전 주소로 보관, 예전에 쓰던 주소면 다시 사용)
+// 다른 사이트가 쓰고 있거나 쓰던 주소면 변경하지 않고 null
+export function setSiteSlug(site: Site, slug: string): SiteSlug | null {
+  try {
+    const now = new Date().toISOString();
+
+    const changeSlug = db.transaction(() => {
+      const existing = findSiteSlug(slug);
+      if (existing && existing.siteId !== site.id) {
+        return false;
+      }
+
+      db.prepare(
+        "UPDATE site_slugs SET retiredAt = ? WHERE siteId = ? AND retiredAt IS NULL AND slug != ?"
+      ).run(now, site.id, slug);
+
+      if (existing) {
+        db.prepare("UPDATE site_slugs SET retiredAt = NULL WHERE slug = ?").run(
+          slug
+        );
+      } else {
+        db.prepare(
+          "INSERT INTO site_slugs (slug, userId, siteId, createdAt, retiredAt) VALUES (?, ?, ?, ?, NULL)"
+        ).run(slug, site.userId, site.id, now);
+      }
+      return true;
+    });
+
+    return changeSlug() ? findSiteSlug(slug) : null;
+  } catch (error) {
+    console.error("사이트 주소 변경 오류:", error);
+    return null;
+  }
+}
+
+// 사이트 생성
+export function createSite(userId: string, name: string): Site | null {
+  try {
+    const site: Site = {
+      id: randomUUID(),
+      userId,
+      name,
+      createdAt: new Date().toISOString(),
+    };
+
+    const stmt = db.prepare(
+      "INSERT INTO sites (id, userId, name, createdAt) VALUES (?, ?, ?, ?)"
+    );
+    stmt.run(site.id, site.userId, site.name, site.createdAt);
+
+    return site;
+  } catch (error) {
+    console.error("사이트 생성 오류:", error);
+    return null;
+  }
+}
+
+// ID로 사이트 조회
+export function findSiteById(id: string): Site | null {
+  try {
+    const query = db.prepare("SELECT * FROM sites WHERE id = ?");
+    return query.get(id) as Site | null;
+  } catch (error) {
+    console.error("사이트 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사용자의 사이트 목록 조회 (기본 사이트가 먼저, 나머지는 만든 순)
+export function getSitesByUserId(userId: string): Site[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM sites WHERE userId = ? ORDER BY id != userId, createdAt"
+    );
+    return query.all(userId) as Site[];
+  } catch (error) {
+    console.error("사이트 조회 오류:", error);
+    return [];
+  }
+}
+
+// 사이트 이름 변경
+export function updateSiteName(id: string, name: string): Site | null {
+  try {
+    const stmt = db.prepare("UPDATE sites SET name = ? WHERE id = ?");
+    stmt.run(name, id);
+    return findSiteById(id);
+  } catch (error) {
+    console.error("사이트 갱신 오류:", error);
+    return null;
+  }
+}
+
+// 사이트와 주소 기록, 공개 범위 규칙, 공유 링크 삭제 (파일, 리비전, 휴지통은 호출하는 쪽에서 정리)
+export function deleteSite(id: string): boolean {
+  try {
+    const removeSite = db.transaction((siteId: string) => {
+      db.prepare("DELETE FROM site_slugs WHERE siteId = ?").run(siteId);
+      db.prepare("DELETE FROM site_access_rules WHERE siteId = ?").run(siteId);
+      db.prepare("DELETE FROM share_links WHERE siteId = ?").run(siteId);
+      return db.prepare("DELETE FROM sites WHERE id = ?").run(siteId);
+    });
+
+    return removeSite(id).changes > 0;
+  } catch (error) {
+    console.error("사이트 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 사이트의 공개 범위 규칙 목록 조회 (경로 순)
+export function getSiteAccessRules(siteId: string): SiteAccessRule[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM site_access_rules WHERE siteId = ? ORDER BY path"
+    );
+    return query.all(siteId) as SiteAccessRule[];
+  } catch (error) {
+    console.error("공개 범위 규칙 조회 오류:", error);
+    return [];
+  }
+}
+
+// 사이트 경로의 공개 범위 규칙 조회
+export function findSiteAccessRule(
+  siteId: string,
+  path: string
+): SiteAccessRule | null {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM site_access_rules WHERE siteId = ? AND path = ?"
+    );
+    return query.get(siteId, path) as SiteAccessRule | null;
+  } catch (error) {
+    console.error("공개 범위 규칙 조회 오류:", error);
+    return null;
+  }
+}
+
+// 공개 범위 규칙 저장 (같은 경로의 규칙이 있으면 교체)
+export function saveSiteAccessRule(rule: SiteAccessRule): boolean {
+  try {
+    const stmt = db.prepare(
+      "INSERT OR REPLACE INTO site_access_rules (siteId, userId, path, visibility, passwordHash, secret, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    );
+    stmt.run(
+      rule.siteId,
+      rule.userId,
+      rule.path,
+      rule.visibility,
+      rule.passwordHash,
+      rule.secret,
+      rule.updatedAt
+    );
+    return true;
+  } catch (error) {
+    console.error("공개 범위 규칙 저장 오류:", error);
+    return false;
+  }
+}
+
+// 공개 범위 규칙 삭제 (상위 폴더의 규칙을 따르게 됨)
+export function deleteSiteAccessRule(siteId: string, path: string): boolean {
+  try {
+    const stmt = db.prepare(
+      "DELETE FROM site_access_rules WHERE siteId = ? AND path = ?"
+    );
+    return stmt.run(siteId, path).changes > 0;
+  } catch (error) {
+    console.error("공개 범위 규칙 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 폴더를 옮기거나 복사할 때 폴더와 하위 폴더의 규칙도 새 경로로 옮기거나 복사
+export function transferSiteAccessRules(
+  siteId: string,
+  fromPath: string,
+  toPath: string,
+  mode: "move" | "copy"
+): boolean {
+  try {
+    const transfer = db.transaction(() => {
+      const rules = (
+        db
+          .prepare(
+            "SELECT * FROM site_access_rules WHERE siteId = ? AND (path = ? OR substr(path, 1, ?) = ?)"
+          )
+          .all(
+            siteId,
+            fromPath,
+            fromPath.length + 1,
+            `${fromPath}/`
+          ) as SiteAccessRule[]
+      ).filter((rule) => rule.path !== "");
+
+      for (const rule of rules) {
+        if (mode === "move") {
+          deleteSiteAccessRule(siteId, rule.path);
+        }
+        saveSiteAccessRule({
+          ...rule,
+          path: toPath + rule.path.slice(fromPath.length),
+        });
+      }
+    });
+
+    transfer();
+    return true;
+  } catch (error) {
+    console.error("공개 범위 규칙 이동 오류:", error);
+    return false;
+  }
+}
+
+// 공유 링크 생성
+export function createShareLink(
+  input: Omit<ShareLink, "id" | "downloadCount" | "createdAt">
+): ShareLink | null {
+  try {
+    const share: ShareLink = {
+      ...input,
+      id: randomBytes(9).toString("base64url"),
+      downloadCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    const stmt = db.prepare(
+      "INSERT INTO share_links (id, userId, siteId, path, secret, passwordHash, maxDownloads, downloadCount, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+    );
+    stmt.run(
+      share.id,
+      share.userId,
+      share.siteId,
+      share.path,
+      share.secret,
+      share.passwordHash,
+      share.maxDownloads,
+      share.downloadCount,
+      share.expiresAt,
+      share.createdAt
+    );
+
+    return share;
+  } catch (error) {
+    console.error("공유 링크 생성 오류:", error);
+    return null;
+  }
+}
+
+// ID로 공유 링크 조회
+export function findShareLinkById(id: string): ShareLink | null {
+  try {
+    const query = db.prepare("SELECT * FROM share_links WHERE id = ?");
+    return query.get(id) as ShareLink | null;
+  } catch (error) {
+    console.error("공유 링크 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사이트의 만료되지 않은 공유 링크 목록 조회 (path를 지정하면 해당 경로만, 최근 생성 순)
+export function getActiveShareLinks(
+  siteId: string,
+  path: string | null = null
+): ShareLink[] {
+  try {
+    const now = new Date().toISOString();
+    if (path !== null) {
+      const query = db.prepare(
+        "SELECT * FROM share_links WHERE siteId = ? AND path = ? AND expiresAt > ? ORDER BY createdAt DESC"
+      );
+      return query.all(siteId, path, now) as ShareLink[];
+    }
+    const query = db.prepare(
+      "SELECT * FROM share_links WHERE siteId = ? AND expiresAt > ? ORDER BY createdAt DESC"
+    );
+    return query.all(siteId, now) as ShareLink[];
+  } catch (error) {
+    console.error("공유 링크 조회 오류:", error);
+    return [];
+  }
+}
+
+// 공유 링크 다운로드 기록 (횟수 제한에 걸리면 기록하지 않고 false)
+export function recordShareLinkDownload(id: string): boolean {
+  try {
+    const stmt = db.prepare(
+      "UPDATE share_links SET downloadCount = downloadCount + 1 WHERE id = ? AND (maxDownloads IS NULL OR downloadCount < maxDownloads)"
+    );
+    return stmt.run(id).changes > 0;
+  } catch (error) {
+    console.error("공유 링크 다운로드 기록 오류:", error);
+    return false;
+  }
+}
+
+// 파일 전체를 보내지 않은 요청의 다운로드 기록 되돌리기
+export function releaseShareLinkDownload(id: string): boolean {
+  try {
+    const stmt = db.prepare(
+      "UPDATE share_links SET downloadCount = downloadCount - 1 WHERE id = ? AND downloadCount > 0"
+    );
+    return stmt.run(id).changes > 0;
+  } catch (error) {
+    console.error("공유 링크 다운로드 기록 오류:", error);
+    return false;
+  }
+}
+
+// 파일이나 폴더를 옮기면 그 경로와 하위 경로의 공유 링크도 새 경로를 가리키도록 변경
+export function moveShareLinks(
+  siteId: string,
+  fromPath: string,
+  toPath: string
+): boolean {
+  try {
+    const stmt = db.prepare(
+      "UPDATE share_links SET path = ? || substr(path, ?) WHERE siteId = ? AND (path = ? OR substr(path, 1, ?) = ?)"
+    );
+    stmt.run(
+      toPath,
+      fromPath.length + 1,
+      siteId,
+      fromPath,
+      fromPath.length + 1,
+      `${fromPath}/`
+    );
+    return true;
+  } catch (error) {
+    console.error("공유 링크 이동 오류:", error);
+    return false;
+  }
+}
+
+// 공유 링크 삭제
+export function deleteShareLink(id: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM share_links WHERE id = ?");
+    return stmt.run(id).changes > 0;
+  } catch (error) {
+    console.error("공유 링크 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 만료된 공유 링크 삭제 (삭제한 개수 반환)
+export function deleteExpiredShareLinks(): number {
+  try {
+    const stmt = db.prepare("DELETE FROM share_links WHERE expiresAt <= ?");
+    return stmt.run(new Date().toISOString()).changes;
+  } catch (error) {
+    console.error("만료 공유 링크 정리 오류:", error);
+    return 0;
+  }
+}
+
+// 저장 공간 요금제 목록 조회
+export function getStoragePlans(): StoragePlan[] {
+  try {
+    const query = db.prepare("SELECT * FROM storage_plans ORDER BY rowid ASC");
+    return query.all() as StoragePlan[];
+  } catch (error) {
+    console.error("요금제 목록 조회 오류:", error);
+    return [];
+  }
+}
+
+// ID로 저장 공간 요금제 조회
+export function findStoragePlanById(id: string): StoragePlan | null {
+  try {
+    const query = db.prepare("SELECT * FROM storage_plans WHERE id = ?");
+    return query.get(id) as StoragePlan | null;
+  } catch (error) {
+    console.error("요금제 조회 오류:", error);
+    return null;
+  }
+}
+
+// 세션 생성 함수
+export function createSession(
+  userId: string,
+  expiresAt: Date,
+  clientInfo: SessionClientInfo = {},
+  impersonatorId: string | null = null
+): Session | null {
+  try {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const ipAddress = clientInfo.ipAddress ?? null;
+    const userAgent = clientInfo.userAgent ?? null;
+
+    const stmt = db.prepare(`
+      INSERT INTO sessions (id, userId, expiresAt, createdAt, lastSeenAt, ipAddress, userAgent, impersonatorId)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      userId,
+      expiresAt.toISOString(),
+      now,
+      now,
+      ipAddress,
+      userAgent,
+      impersonatorId
+    );
+
+    return {
+      id,
+      userId,
+      expiresAt: expiresAt.toISOString(),
+      createdAt: now,
+      lastSeenAt: now,
+      ipAddress,
+      userAgent,
+      impersonatorId,
+    };
+  } catch (error) {
+    console.error("세션 생성 오류:", error);
+    return null;
+  }
+}
+
+// 세션 찾기 함수
+export function findSessionById(id: string): Session | null {
+  try {
+    const query = db.prepare("SELECT * FROM sessions WHERE id = ?");
+    const session = query.get(id) as Session | null;
+    return session;
+  } catch (error) {
+    console.error("세션 조회 오류:", error);
+    return null;
+  }
+}
+
+// 세션 삭제 함수
+export function deleteSession(id: string): boolean {
+  try {
+    const stmt = db.prepare("DELETE FROM sessions WHERE id = ?");
+    const result = stmt.run(id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("세션 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 사용자의 유효한 세션 목록 조회
+export function getActiveSessionsByUserId(userId: string): Session[] {
+  try {
+    const now = new Date().toISOString();
+    const query = db.prepare(
+      "SELECT * FROM sessions WHERE userId = ? AND expiresAt >= ? ORDER BY COALESCE(lastSeenAt, createdAt) DESC"
+    );
+    return query.all(userId, now) as Session[];
+  } catch (error) {
+    console.error("세션 목록 조회 오류:", error);
+    return [];
+  }
+}
+
+// 세션 마지막 사용 시각 갱신
+export function touchSession(
+  id: string,
+  lastSeenAt: Date = new Date()
+): boolean {
+  try {
+    const stmt = db.prepare("UPDATE sessions SET lastSeenAt = ? WHERE id = ?");
+    const result = stmt.run(lastSeenAt.toISOString(), id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("세션 갱신 오류:", error);
+    return false;
+  }
+}
+
+// 사용자의 모든 세션 삭제
+export function deleteSessionsByUserId(userId: string): number {
+  try {
+    const stmt = db.prepare("DELETE FROM sessions WHERE userId = ?");
+    const result = stmt.run(userId);
+    return result.changes;
+  } catch (error) {
+    console.error("세션 일괄 삭제 오류:", error);
+    return 0;
+  }
+}
+
+// 모든 만료된 세션 삭제
+export function cleanExpiredSessions(): number {
+  try {
+    const now = new Date().toISOString();
+    const stmt = db.prepare("DELETE FROM sessions WHERE expiresAt < ?");
+    const result = stmt.run(now);
+    return result.changes;
+  } catch (error) {
+    console.error("만료 세션 정리 오류:", error);
+    return 0;
+  }
+}
+
+// API 토큰 테이블의 행 (scopes는 콤마로 구분된 문자열로 저장됨)
+interface ApiTokenRow extends Omit<ApiToken, "scopes"> {
+  scopes: string;
+}
+
+// DB 행을 ApiToken 객체로 변환
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    ...row,
+    scopes: row.scopes
+      .split(",")
+      .filter((scope): scope is TokenScope =>
+        TOKEN_SCOPES.includes(scope as TokenScope)
+      ),
+  };
+}
+
+// API 토큰 생성 함수
+export function createApiToken(
+  tokenData: Omit<ApiToken, "id" | "lastUsedAt" | "createdAt">
+): ApiToken | null {
+  try {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT INTO api_tokens (id, userId, name, tokenHash, tokenPrefix, scopes, expiresAt, lastUsedAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, NULL, ?)
+    `);
+
+    stmt.run(
+      id,
+      tokenData.userId,
+      tokenData.name,
+      tokenData.tokenHash,
+      tokenData.tokenPrefix,
+      tokenData.scopes.join(","),
+      tokenData.expiresAt,
+      now
+    );
+
+    return {
+      id,
+      ...tokenData,
+      lastUsedAt: null,
+      createdAt: now,
+    };
+  } catch (error) {
+    console.error("API 토큰 생성 오류:", error);
+    return null;
+  }
+}
+
+// 토큰 해시로 API 토큰 조회
+export function findApiTokenByHash(tokenHash: string): ApiToken | null {
+  try {
+    const query = db.prepare("SELECT * FROM api_tokens WHERE tokenHash = ?");
+    const row = query.get(tokenHash) as ApiTokenRow | null;
+    return row ? toApiToken(row) : null;
+  } catch (error) {
+    console.error("API 토큰 조회 오류:", error);
+    return null;
+  }
+}
+
+// 사용자 ID로 API 토큰 목록 조회
+export function getApiTokensByUserId(userId: string): ApiToken[] {
+  try {
+    const query = db.prepare(
+      "SELECT * FROM api_tokens WHERE userId = ? ORDER BY createdAt DESC"
+    );
+    const rows = query.all(userId) as ApiTokenRow[];
+    return rows.map(toApiToken);
+  } catch (error) {
+    console.error("API 토큰 목록 조회 오류:", error);
+    return [];
+  }
+}
+
+// API 토큰 마지막 사용 시각 갱신
+export function touchApiToken(id: string): boolean {
+  try {
+    const stmt = db.prepare(
+      "UPDATE api_tokens SET lastUsedAt = ? WHERE id = ?"
+    );
+    const result = stmt.run(new Date().toISOString(), id);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("API 토큰 갱신 오류:", error);
+    return false;
+  }
+}
+
+// API 토큰 삭제 함수 (소유자 확인 포함)
+export function deleteApiToken(id: string, userId: string): boolean {
+  try {
+    const stmt = db.prepare(
+      "DELETE FROM api_tokens WHERE id = ? AND userId = ?"
+    );
+    const result = stmt.run(id, userId);
+    return result.changes > 0;
+  } catch (error) {
+    console.error("API 토큰 삭제 오류:", error);
+    return false;
+  }
+}
+
+// 로그인 잠금 기록 생성
+export function createLoginLockout(
+  lockoutData: Omit<LoginLockout, "id" | "clearedAt">
+): LoginLockout | null {
+  try {
+    const id = randomUUID();
+
+    const stmt = db.prepare(`
+      INSERT INTO login_lockouts (id, username, ipAddress, failedAttempts, lockedAt, lockedUntil, clearedAt)
+      VALUES (?, ?, ?, ?, ?, ?, NULL)
+    `);
+
+    stmt.run(
+      id,
+      lockoutData.username,
+      lockoutData.ipAddress,
+      lockoutData.failedAttempts,
+      lockoutData.lockedAt,
+      lockoutData.lockedUntil
+    );
+
+    return { id, ...lockoutData, clearedAt: null };
+  } catch (error) {
+    console.error("로그인 잠금 기록 오류:", error);
+    return null;
+  }
+}
+
+// 사용자명에 대해 현재 유효한 잠금 조회
+export function findActiveLoginLockout(username: string): LoginLockout | null {
+  try {
+    const now = new Date().toISOString();
+    const query = db.prepare(
+      "SELECT * FROM login_lockouts WHERE username = ? AND clearedAt IS NULL AND lockedUntil > ? ORDER BY lockedUntil DESC LIMIT 1"
+    );
+    return query.get(username, now) as LoginLockout | null;
+  } catch (error) {
+    console.error("로그인 잠금 조회 오류:", error);
+    return null;
+  }
+}
+
+// 로그인 잠금 기록 목록 조회 (activeOnly면 현재 유효한 잠금만)
+export function getLoginLockouts(activeOnly: boolean = false): LoginLockout[] {
+  try {
+    if (activeOnly) {
+      const now = new Date().toISOString();
+      const query = db.prepare(
+        "SELECT * FROM login_lockouts WHERE clearedAt IS NULL AND lockedUntil > ? ORDER BY lockedAt DESC"
+      );
+      return query.all(now) as LoginLockout[];
+    }
+
+    const query = db.prepare(
+      "SELECT * FROM login_lockouts ORDER BY lockedAt DESC LIMIT 500"
+    );
+    return query.all() as LoginLockout[];
+  } catch (error) {
+    console.error("로그인 잠금 목록 조회 오류:", error);
+    return [];
+  }
+}
+
+// 로그인 잠금 해제
+export function clearLoginLockout(id: string): LoginLockout | null {
+  try {
+    const query = db.prepare("SELECT * FROM login_lockouts WHERE id = ?");
+    const lockout = query.get(id) as LoginLockout | null;
+    if (!lockout) return null;
+
+    const clearedAt = new Date().toISOString();
+    db.prepare("UPDATE login_lockouts SET clearedAt = ? WHERE id = ?").run(
+      clearedAt,
+      id
+    );
+
+    return { ...lockout, clearedAt };
+  } catch (error) {
+    console.error("로그인 잠금 해제 오류:", error);
+    return null;
   }
 }
 
@@ -8,20 +8,61 @@ import {
   readdir,
   rm,
   exists,
+  rename,
+  cp,
 } from "node:fs/promises";
-import { join, relative, dirname, basename } from "path";
+import { join, relative, dirname, basename, extname, sep } from "path";
 import {
   saveFile,
   getFileById,
   getFilesByUserId,
+  getAllUsers,
+  getStorageUsageRecord,
+  initializeStorageUsage,
+  adjustStorageUsage,
+  reconcileStorageUsageRecord,
+  getUploadSessionsByUserId,
+  getSitesByUserId,
+  findSiteById,
+  type StorageUsage,
   type UploadedFile,
 } from "./database";
+import {
+  reserveStorageQuota,
+  type QuotaStatus,
+  type StorageChange,
+} from "./quota";
+import {
+  DEFAULT_MIME_TYPE,
+  getExtension,
+  isTextMimeType,
+  lookupMimeType,
+  sniffMimeType,
+} from "./mime";
 
 // 파일 저장소 디렉토리
 const STORAGE_DIR = "./uploads";
 
-// 최대 사용자 저장 공간 (10MB)
-export const MAX_USER_STORAGE = 10 * 1024 * 1024; // 10MB
+// 파일 리비전 저장소 디렉토리 (사용자 ID와 겹치지 않도록 점으로 시작)
+const HISTORY_DIR = join(STORAGE_DIR, ".history");
+
+// 휴지통 디렉토리 (정적 파일로 서빙되지 않는 위치)
+const TRASH_DIR = join(STORAGE_DIR, ".trash");
+
+// 이어 올리기 중인 파일 조각 디렉토리 (완료되면 사용자 디렉토리로 이동)
+const PARTIAL_DIR = join(STORAGE_DIR, ".partial");
+
+// 압축한 정적 파일 캐시 디렉토리 (언제든 다시 만들 수 있으므로 사용량에 포함하지 않음)
+const COMPRESSED_DIR = join(STORAGE_DIR, ".compressed");
+
+// 사용량 보정 주기 (10분)
+const USAGE_RECONCILE_INTERVAL = 10 * 60 * 1000;
+
+// 최근 쓰기가 있었던 사용자는 진행 중인 쓰기와 겹치지 않도록 다음 보정으로 미룸 (1분)
+const USAGE_RECONCILE_QUIET_PERIOD = 60 * 1000;
+
+// 보정 작업 실행 중 여부 (중복 실행 방지)
+let reconciling = false;
 
 // 스토리지 디렉토리 초기화
 export async function initializeStorage(): Promise<void> {
@@ -31,18 +72,62 @@ export async function initializeStorage(): Promise<void> {
     // 디렉토리가 없으면 생성
     await mkdir(STORAGE_DIR, { recursive: true });
   }
+
+  // 사용량 보정 작업 시작 (부팅 직후 한 번, 이후 주기적으로)
+  reconcileStorageUsage();
+  setInterval(reconcileStorageUsage, USAGE_RECONCILE_INTERVAL).unref();
 }
 
-// 유저별 디렉토리 생성 또는 확인
-async function ensureUserDirectory(userId: string): Promise<string> {
-  const userDir = join(STORAGE_DIR, userId);
+// 사이트별 디렉토리 생성 또는 확인 (기본 사이트는 uploads/<사용자 ID>)
+async function ensureSiteDirectory(siteId: string): Promise<string> {
+  const siteDir = join(STORAGE_DIR, siteId);
   try {
-    await access(userDir);
+    await access(siteDir);
   } catch (error) {
     // 디렉토리가 없으면 생성
-    await mkdir(userDir, { recursive: true });
+    await mkdir(siteDir, { recursive: true });
   }
-  return userDir;
+  return siteDir;
+}
+
+// 저장소 경로에서 사이트 ID 추출 (uploads/:siteId/...)
+export function getSiteIdFromPath(path: string): string | null {
+  const relativePath = relative(STORAGE_DIR, path);
+  if (!relativePath || relativePath.startsWith("..")) {
+    return null;
+  }
+  return relativePath.split(/[\\/]/)[0] || null;
+}
+
+// 저장소 경로의 소유자 ID (사용량을 반영할 사용자)
+function getOwnerIdFromPath(path: string): string | null {
+  const siteId = getSiteIdFromPath(path);
+  return siteId ? findSiteById(siteId)?.userId ?? null : null;
+}
+
+// 사용자별 리비전 저장소 디렉토리
+export function getUserHistoryDir(userId: string): string {
+  return join(HISTORY_DIR, userId);
+}
+
+// 사용자별 휴지통 디렉토리
+export function getUserTrashDir(userId: string): string {
+  return join(TRASH_DIR, userId);
+}
+
+// 사용자별 업로드 조각 디렉토리
+export function getUserPartialDir(userId: string): string {
+  return join(PARTIAL_DIR, userId);
+}
+
+// 사이트별 압축 파일 캐시 디렉토리
+export function getSiteCompressedDir(siteId: string): string {
+  return join(COMPRESSED_DIR, siteId);
+}
+
+// 사이트 디렉토리 기준 상대 경로 (리비전 기록의 키로 사용)
+export function getSiteRelativePath(siteId: string, path: string): string {
+  return relative(join(STORAGE_DIR, siteId), path).replace(/\\/g, "/");
 }
 
 // 특정 경로의 디렉토리 확인 또는 생성
@@ -61,12 +146,12 @@ async function ensureDirectory(path: string): Promise<boolean> {
   }
 }
 
-// 사용자 폴더 내 경로 확인
+// 사이트 폴더 내 경로 확인 (기본 사이트의 ID는 사용자 ID와 같음)
 export async function resolvePath(
-  userId: string,
+  siteId: string,
   subPath: string = ""
 ): Promise<string> {
-  console.log(`resolvePath 호출: userId=${userId}, subPath=${subPath}`);
+  console.log(`resolvePath 호출: siteId=${siteId}, subPath=${subPath}`);
 
   try {
     // URL 디코딩 적용
@@ -80,14 +165,14 @@ export async function resolvePath(
 
     console.log(`경로 정규화: ${subPath} → ${normalizedPath}`);
 
-    const userDir = await ensureUserDirectory(userId);
-    console.log(`사용자 디렉토리: ${userDir}`);
+    const siteDir = await ensureSiteDirectory(siteId);
+    console.log(`사이트 디렉토리: ${siteDir}`);
 
-    const fullPath = join(userDir, normalizedPath);
+    const fullPath = join(siteDir, normalizedPath);
     console.log(`최종 경로: ${fullPath}`);
 
-    // 보안: 사용자 디렉토리를 벗어나는 경로 접근 방지
-    const relativePath = relative(userDir, fullPath);
+    // 보안: 사이트 디렉토리를 벗어나는 경로 접근 방지
+    const relativePath = relative(siteDir, fullPath);
     if (relativePath.startsWith("..") || relativePath.includes("../")) {
       console.error(`보안 위반 시도: ${fullPath}`);
       throw new Error("잘못된 경로 접근입니다");
@@ -185,25 +270,14 @@ export async function readFileByPath(
   path: string
 ): Promise<{ content: string; mimeType: string } | null> {
   try {
-    // 파일 확장자에 따른 MIME 타입 추측
-    const ext = path.split(".").pop()?.toLowerCase() || "";
-    let mimeType = "text/plain";
-
-    if (ext === "html") mimeType = "text/html";
-    else if (ext === "css") mimeType = "text/css";
-    else if (ext === "js") mimeType = "application/javascript";
-    else if (ext === "json") mimeType = "application/json";
-    else if (ext === "md") mimeType = "text/markdown";
-    else if (ext === "txt") mimeType = "text/plain";
-    else if (ext === "png") mimeType = "image/png";
-    else if (ext === "jpg" || ext === "jpeg") mimeType = "image/jpeg";
-    else if (ext === "gif") mimeType = "image/gif";
-    else if (ext === "svg") mimeType = "image/svg+xml";
-
-    // 이진 파일 확인
-    const isBinary = mimeType.startsWith("image/");
-
-    if (isBinary) {
+    // 모르는 확장자는 편집할 수 있도록 텍스트로 취급
+    const detected = await detectMimeType(path);
+    const mimeType =
+      detected === DEFAULT_MIME_TYPE && getExtension(path)
+        ? "text/plain"
+        : detected;
+
+    if (!isTextMimeType(mimeType)) {
       // 이미지 같은 이진 파일은 null 반환 (다른 API를 통해 처리)
       return null;
     }
@@ -217,32 +291,38 @@ export async function readFileByPath(
   }
 }
 
+// 파일의 MIME 타입 판별 (확장자로 알 수 없으면 앞부분 내용으로 추측)
+export async function detectMimeType(
+  path: string,
+  overrides: Record<string, string> = {}
+): Promise<string> {
+  const mimeType = lookupMimeType(path, overrides);
+  if (mimeType) {
+    return mimeType;
+  }
+
+  // 확장자가 있지만 목록에 없는 파일은 내용과 관계없이 기본 타입
+  if (getExtension(path)) {
+    return DEFAULT_MIME_TYPE;
+  }
+
+  try {
+    return sniffMimeType(await Bun.file(path).slice(0, 512).bytes());
+  } catch (error) {
+    return DEFAULT_MIME_TYPE;
+  }
+}
+
 // 바이너리 파일 읽기 (경로 기반)
 export async function readBinaryFileByPath(
   path: string
 ): Promise<{ data: Uint8Array; mimeType: string; size: number } | null> {
   try {
     const stats = await stat(path);
-
-    // 파일 확장자에 따른 MIME 타입 추측
-    const ext = path.split(".").pop()?.toLowerCase() || "";
-    let mimeType = "application/octet-stream";
-
-    if (ext === "html") mimeType = "text/html";
-    else if (ext === "css") mimeType = "text/css";
-    else if (ext === "js") mimeType = "application/javascript";
-    else if (ext === "json") mimeType = "application/json";
-    else if (ext === "md") mimeType = "text/markdown";
-    else if (ext === "txt") mimeType = "text/plain";
-    else if (ext === "png") mimeType = "image/png";
-    else if (ext === "jpg" || ext === "jpeg") mimeType = "image/jpeg";
-    else if (ext === "gif") mimeType = "image/gif";
-    else if (ext === "svg") mimeType = "image/svg+xml";
-
     const fileData = await Bun.file(path).arrayBuffer();
     return {
       data: new Uint8Array(fileData),
-      mimeType,
+      mimeType: await detectMimeType(path),
       size: stats.size,
     };
   } catch (error) {
@@ -286,14 +366,18 @@ export async function saveUploadedFile(
     return null;
   }
 
-  // 파일 크기 검증 (10MB 제한)
-  const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-  if (file.size > MAX_SIZE) {
-    throw new Error("파일 크기는 10MB를 초과할 수 없습니다.");
+  // 요금제 한도 검증
+  const { check } = await reserveUserQuota(userId, {
+    bytes: file.size,
+    fileSizes: [file.size],
+    newFiles: 1,
+  });
+  if (!check.allowed) {
+    throw new Error(check.reason);
   }
 
   // 유저 디렉토리 생성 또는 확인
-  const userDir = await ensureUserDirectory(userId);
+  const userDir = await ensureSiteDirectory(userId);
 
   // 파일명 충돌 방지를 위한 유니크한 파일명 생성
   const timestamp = Date.now();
@@ -324,14 +408,19 @@ export async function createTextFile(
   content: string,
   mimeType: string = "text/plain"
 ): Promise<UploadedFile | null> {
-  // 파일 크기 검증 (10MB 제한)
-  const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-  if (Buffer.byteLength(content) > MAX_SIZE) {
-    throw new Error("파일 크기는 10MB를 초과할 수 없습니다.");
+  // 요금제 한도 검증
+  const size = Buffer.byteLength(content);
+  const { check } = await reserveUserQuota(userId, {
+    bytes: size,
+    fileSizes: [size],
+    newFiles: 1,
+  });
+  if (!check.allowed) {
+    throw new Error(check.reason);
   }
 
   // 유저 디렉토리 생성 또는 확인
-  const userDir = await ensureUserDirectory(userId);
+  const userDir = await ensureSiteDirectory(userId);
 
   // 파일명 충돌 방지를 위한 유니크한 파일명 생성
   const timestamp = Date.now();
@@ -414,10 +503,11 @@ export async function updateTextFile(
       throw new Error("텍스트 파일만 수정할 수 있습니다.");
     }
 
-    // 파일 크기 검증 (10MB 제한)
-    const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-    if (Buffer.byteLength(content) > MAX_SIZE) {
-      throw new Error("파일 크기는 10MB를 초과할 수 없습니다.");
+    // 요금제 한도 검증 (기존 파일과의 크기 차이만 추가 사용량으로 계산)
+    const change = await getWriteChange(file.path, Buffer.byteLength(content));
+    const { check } = await reserveUserQuota(file.userId, change);
+    if (!check.allowed) {
+      throw new Error(check.reason);
     }
 
     await writeFile(file.path, content, "utf-8");
@@ -466,8 +556,16 @@ export async function deleteFileOrDirectoryByPath(
   path: string
 ): Promise<boolean> {
   try {
+    // 삭제될 사용량을 미리 계산
+    const ownerId = getOwnerIdFromPath(path);
+    const removed = await calculatePathUsage(path);
+
     // 재귀적으로 삭제 (디렉토리인 경우 내부 파일도 모두 삭제)
     await rm(path, { recursive: true, force: true });
+
+    if (ownerId) {
+      adjustStorageUsage(ownerId, -removed.bytes, -removed.fileCount);
+    }
     return true;
   } catch (error) {
     console.error(`파일/디렉토리 삭제 오류: ${error}`);
@@ -475,20 +573,174 @@ export async function deleteFileOrDirectoryByPath(
   }
 }
 
+// 사용자 디렉토리 전체 삭제 (계정 삭제 시, 사이트 목록은 기록을 지우기 전에 조회해서 전달)
+export async function deleteUserStorage(
+  userId: string,
+  siteIds: string[]
+): Promise<boolean> {
+  try {
+    for (const siteId of siteIds) {
+      await deleteSiteStorage(siteId);
+    }
+    await rm(getUserHistoryDir(userId), { recursive: true, force: true });
+    await rm(getUserTrashDir(userId), { recursive: true, force: true });
+    await rm(getUserPartialDir(userId), { recursive: true, force: true });
+    return true;
+  } catch (error) {
+    console.error(`사용자 디렉토리 삭제 오류: ${error}`);
+    return false;
+  }
+}
+
+// 사이트 디렉토리와 압축 캐시 삭제 (사용량은 호출하는 쪽에서 반영)
+export async function deleteSiteStorage(siteId: string): Promise<void> {
+  await rm(join(STORAGE_DIR, siteId), { recursive: true, force: true });
+  await rm(getSiteCompressedDir(siteId), { recursive: true, force: true });
+}
+
 // 사용자의 디스크 사용량 계산
 export async function calculateUserDiskUsage(userId: string): Promise<number> {
+  return (await calculateUserStorageUsage(userId)).bytes;
+}
+
+// 사용자의 저장 공간 사용량 조회 (데이터베이스에 누적된 값)
+export async function calculateUserStorageUsage(
+  userId: string
+): Promise<StorageUsage> {
+  await ensureStorageUsage(userId);
+  const record = getStorageUsageRecord(userId);
+  return record
+    ? { bytes: record.bytes, fileCount: record.fileCount }
+    : { bytes: 0, fileCount: 0 };
+}
+
+// 사용량 기록이 없으면 디스크를 한 번 계산하여 생성
+async function ensureStorageUsage(userId: string): Promise<void> {
+  if (getStorageUsageRecord(userId)) {
+    return;
+  }
+
   try {
-    const userDir = await ensureUserDirectory(userId);
-    return calculateDirectorySize(userDir);
+    initializeStorageUsage(userId, await calculateActualUsage(userId));
   } catch (error) {
     console.error(`디스크 사용량 계산 오류:`, error);
-    return 0;
   }
 }
 
-// 디렉토리 크기 계산 (재귀적)
-async function calculateDirectorySize(dirPath: string): Promise<number> {
-  let totalSize = 0;
+// 실제 디스크 사용량 계산 (모든 사이트의 합계, 리비전과 휴지통은 용량에만 포함하고 파일 수에는 포함하지 않음)
+// 진행 중인 업로드는 생성할 때 예약한 전체 크기와 파일 1개로 계산
+async function calculateActualUsage(userId: string): Promise<StorageUsage> {
+  const files: StorageUsage = { bytes: 0, fileCount: 0 };
+  for (const site of getSitesByUserId(userId)) {
+    const siteUsage = await calculateDirectoryUsage(
+      await ensureSiteDirectory(site.id)
+    );
+    files.bytes += siteUsage.bytes;
+    files.fileCount += siteUsage.fileCount;
+  }
+  const history = await calculatePathUsage(getUserHistoryDir(userId));
+  const trash = await calculatePathUsage(getUserTrashDir(userId));
+  const uploads = getUploadSessionsByUserId(userId);
+  return {
+    bytes:
+      files.bytes +
+      history.bytes +
+      trash.bytes +
+      uploads.reduce((sum, session) => sum + session.size, 0),
+    fileCount: files.fileCount + uploads.length,
+  };
+}
+
+// 쓰기 작업 전 요금제 한도 확인 및 사용량 예약 (모든 쓰기 경로에서 사용)
+export async function reserveUserQuota(
+  userId: string,
+  change: StorageChange
+): Promise<QuotaStatus> {
+  await ensureStorageUsage(userId);
+
+  const status = reserveStorageQuota(userId, change);
+  if (!status) {
+    throw new Error("사용자를 찾을 수 없습니다");
+  }
+  return status;
+}
+
+// 경로에 새 내용을 쓸 때의 사용량 변화 계산 (덮어쓰기는 기존 크기와의 차이, 보관할 리비전 크기 포함)
+export async function getWriteChange(
+  path: string,
+  newSize: number,
+  revisionBytes: number = 0
+): Promise<StorageChange> {
+  const existing = await calculatePathUsage(path);
+  return {
+    bytes: newSize - existing.bytes + revisionBytes,
+    fileSizes: [newSize],
+    newFiles: existing.fileCount > 0 ? 0 : 1,
+  };
+}
+
+// 쓰기에 실패한 경우 예약한 사용량 반환
+export function releaseUserQuota(userId: string, change: StorageChange): void {
+  adjustStorageUsage(userId, -change.bytes, -(change.newFiles || 0));
+}
+
+// 누적 사용량을 실제 디스크와 대조하여 보정
+export async function reconcileStorageUsage(): Promise<void> {
+  if (reconciling) return;
+  reconciling = true;
+
+  try {
+    for (const user of getAllUsers()) {
+      const record = getStorageUsageRecord(user.id);
+      if (!record) {
+        await ensureStorageUsage(user.id);
+        continue;
+      }
+
+      // 방금 쓰기가 있었던 사용자는 건너뜀
+      const sinceUpdate = Date.now() - new Date(record.updatedAt).getTime();
+      if (sinceUpdate < USAGE_RECONCILE_QUIET_PERIOD) continue;
+
+      const actual = await calculateActualUsage(user.id);
+      const drifted =
+        actual.bytes !== record.bytes || actual.fileCount !== record.fileCount;
+
+      // 계산하는 동안 사용량이 바뀌었다면 반영하지 않고 다음 보정에서 처리
+      const applied = reconcileStorageUsageRecord(
+        user.id,
+        actual,
+        record.updatedAt
+      );
+      if (applied && drifted) {
+        console.warn(
+          `사용량 보정: ${user.username} ${record.bytes} → ${actual.bytes} bytes, ${record.fileCount} → ${actual.fileCount}개`
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`사용량 보정 오류:`, error);
+  } finally {
+    reconciling = false;
+  }
+}
+
+// 파일 또는 디렉토리가 차지하는 사용량 계산
+export async function calculatePathUsage(path: string): Promise<StorageUsage> {
+  try {
+    const stats = await stat(path);
+    if (stats.isDirectory()) {
+      return calculateDirectoryUsage(path);
+    }
+    return { bytes: stats.size, fileCount: 1 };
+  } catch (error) {
+    // 존재하지 않는 경로
+    return { bytes: 0, fileCount: 0 };
+  }
+}
+
+// 디렉토리 크기와 파일 수 계산 (재귀적)
+async function calculateDirectoryUsage(dirPath: string): Promise<StorageUsage> {
+  const usage: StorageUsage = { bytes: 0, fileCount: 0 };
 
   try {
     const entries = await readdir(dirPath, { withFileTypes: true });
@@ -497,19 +749,119 @@ async function calculateDirectorySize(dirPath: string): Promise<number> {
       const entryPath = join(dirPath, entry.name);
 
       if (entry.isDirectory()) {
-        // 디렉토리인 경우 재귀적으로 크기 계산
-        totalSize += await calculateDirectorySize(entryPath);
+        // 디렉토리인 경우 재귀적으로 계산
+        const subUsage = await calculateDirectoryUsage(entryPath);
+        usage.bytes += subUsage.bytes;
+        usage.fileCount += subUsage.fileCount;
       } else {
         // 파일인 경우 크기 추가
         const stats = await stat(entryPath);
-        totalSize += stats.size;
+        usage.bytes += stats.size;
+        usage.fileCount += 1;
       }
     }
 
-    return totalSize;
+    return usage;
   } catch (error) {
     console.error(`디렉토리 크기 계산 오류 (${dirPath}):`, error);
-    return totalSize; // 오류 발생시 현재까지 계산된 크기 반환
+    return usage; // 오류 발생시 현재까지 계산된 사용량 반환
+  }
+}
+
+// 대상 경로에 같은 이름이 있을 때의 처리 방식
+export type ConflictPolicy = "fail" | "replace" | "keep_both";
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = [
+  "fail",
+  "replace",
+  "keep_both",
+];
+
+// 경로가 다른 경로의 하위에 있는지 확인 (같은 경로 포함)
+export function isSubPath(parent: string, child: string): boolean {
+  return child === parent || child.startsWith(parent + sep);
+}
+
+// 같은 이름이 있으면 "이름 (n).확장자" 형식으로 비어 있는 경로 찾기
+export async function getAvailablePath(path: string): Promise<string> {
+  if (!(await exists(path))) {
+    return path;
+  }
+
+  const dir = dirname(path);
+  const ext = extname(path);
+  const name = basename(path, ext);
+
+  for (let i = 1; ; i++) {
+    const candidate = join(dir, `${name} (${i})${ext}`);
+    if (!(await exists(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+// 파일 시스템 이름 변경 (다른 장치로 옮기는 경우 복사 후 원본 삭제)
+async function movePath(oldPath: string, newPath: string): Promise<void> {
+  try {
+    await rename(oldPath, newPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await cp(oldPath, newPath, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+    });
+    await rm(oldPath, { recursive: true, force: true });
+  }
+}
+
+// 파일 또는 디렉토리 복사 (사용량은 호출하는 쪽에서 예약)
+export async function copyFileOrDirectory(
+  sourcePath: string,
+  targetPath: string
+): Promise<boolean> {
+  let copying = false;
+
+  try {
+    if (!(await exists(sourcePath))) {
+      console.error(`원본 경로가 존재하지 않음: ${sourcePath}`);
+      return false;
+    }
+
+    if (isSubPath(sourcePath, targetPath)) {
+      console.error(
+        `하위 경로로 복사할 수 없음: ${sourcePath} → ${targetPath}`
+      );
+      return false;
+    }
+
+    if (await exists(targetPath)) {
+      console.error(`대상 경로가 이미 존재함: ${targetPath}`);
+      return false;
+    }
+
+    const dirExists = await ensureDirectory(dirname(targetPath));
+    if (!dirExists) {
+      console.error(`대상 디렉토리 생성 실패: ${dirname(targetPath)}`);
+      return false;
+    }
+
+    copying = true;
+    await cp(sourcePath, targetPath, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+    });
+    return true;
+  } catch (error) {
+    console.error(`복사 중 오류 발생: ${error}`);
+    // 중간에 실패하면 일부만 복사된 내용 정리
+    if (copying) {
+      await rm(targetPath, { recursive: true, force: true }).catch(() => {});
+    }
+    return false;
   }
 }
 
@@ -543,9 +895,29 @@ export async function renameFileOrDirectory(
       return false;
     }
 
+    // 폴더를 자기 자신의 하위 폴더로 옮길 수 없음
+    if (isSubPath(oldPath, newPath)) {
+      console.error(`하위 경로로 이동할 수 없음: ${oldPath} → ${newPath}`);
+      return false;
+    }
+
+    // 다른 사용자의 사이트로 옮기는 경우 사용량도 함께 이동
+    const oldOwnerId = getOwnerIdFromPath(oldPath);
+    const newOwnerId = getOwnerIdFromPath(newPath);
+    const moved =
+      oldOwnerId !== newOwnerId ? await calculatePathUsage(oldPath) : null;
+
     // 파일 시스템 이름 변경 작업 실행
-    await Bun.write(newPath, await readFile(oldPath));
-    await rm(oldPath, { recursive: true });
+    await movePath(oldPath, newPath);
+
+    if (moved) {
+      if (oldOwnerId) {
+        adjustStorageUsage(oldOwnerId, -moved.bytes, -moved.fileCount);
+      }
+      if (newOwnerId) {
+        adjustStorageUsage(newOwnerId, moved.bytes, moved.fileCount);
+      }
+    }
 
     console.log(`이름 변경 성공: ${oldPath} → ${newPath}`);
     return true;
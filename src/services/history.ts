@@ -0,0 +1,158 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "path";
+import {
+  adjustStorageUsage,
+  countRevisionsByHash,
+  createFileRevision,
+  deleteFileRevision,
+  getFileRevisions,
+  getFileRevisionsBySiteId,
+  type FileRevision,
+} from "./database";
+import {
+  getSiteIdFromPath,
+  getSiteRelativePath,
+  getUserHistoryDir,
+} from "./fileStorage";
+
+// 파일당 보관할 최대 리비전 수 (환경 변수로 변경 가능)
+const MAX_REVISIONS_PER_FILE = Number(process.env.HISTORY_MAX_REVISIONS) || 20;
+
+// 리비전 보관 기간 (일, 환경 변수로 변경 가능)
+const REVISION_RETENTION_DAYS =
+  Number(process.env.HISTORY_RETENTION_DAYS) || 30;
+
+// 덮어쓰기 전에 읽어 둔 기존 내용 (쓰기가 성공한 뒤 리비전으로 저장)
+export interface PendingRevision {
+  userId: string;
+  siteId: string;
+  path: string;
+  hash: string;
+  size: number;
+  data: Uint8Array;
+  isNewObject: boolean; // 저장소에 같은 내용이 없어 새로 저장해야 하는지 여부
+}
+
+// 내용 해시에 해당하는 저장소 경로 (앞 두 글자로 디렉토리 분산)
+function getObjectPath(userId: string, hash: string): string {
+  return join(getUserHistoryDir(userId), "objects", hash.slice(0, 2), hash);
+}
+
+// 덮어쓸 파일의 현재 내용을 리비전으로 보관할 준비
+export async function prepareRevision(
+  userId: string,
+  fullPath: string
+): Promise<PendingRevision | null> {
+  try {
+    const stats = await stat(fullPath);
+    if (!stats.isFile()) {
+      return null;
+    }
+
+    const data = new Uint8Array(await readFile(fullPath));
+    const hash = createHash("sha256").update(data).digest("hex");
+    const siteId = getSiteIdFromPath(fullPath) ?? userId;
+    const path = getSiteRelativePath(siteId, fullPath);
+
+    // 마지막 리비전과 내용이 같으면 새로 보관하지 않음
+    const [latest] = getFileRevisions(siteId, path);
+    if (latest && latest.hash === hash) {
+      return null;
+    }
+
+    return {
+      userId,
+      siteId,
+      path,
+      hash,
+      size: data.byteLength,
+      data,
+      isNewObject: countRevisionsByHash(userId, hash) === 0,
+    };
+  } catch (error) {
+    // 새 파일이면 보관할 내용이 없음
+    return null;
+  }
+}
+
+// 리비전 보관에 필요한 추가 용량 (이미 저장된 내용이면 0)
+export function getRevisionBytes(pending: PendingRevision | null): number {
+  return pending && pending.isNewObject ? pending.size : 0;
+}
+
+// 준비한 리비전을 저장소와 데이터베이스에 기록 (사용량은 쓰기 전에 예약됨)
+export async function commitRevision(
+  pending: PendingRevision
+): Promise<FileRevision | null> {
+  try {
+    const objectPath = getObjectPath(pending.userId, pending.hash);
+    await mkdir(dirname(objectPath), { recursive: true });
+    await writeFile(objectPath, pending.data);
+
+    const revision = createFileRevision({
+      userId: pending.userId,
+      siteId: pending.siteId,
+      path: pending.path,
+      hash: pending.hash,
+      size: pending.size,
+    });
+
+    await applyRetention(pending.userId, pending.siteId, pending.path);
+    return revision;
+  } catch (error) {
+    console.error(`리비전 저장 오류: ${error}`);
+    return null;
+  }
+}
+
+// 리비전 내용 읽기
+export async function readRevision(
+  revision: FileRevision
+): Promise<Uint8Array | null> {
+  try {
+    const objectPath = getObjectPath(revision.userId, revision.hash);
+    return new Uint8Array(await readFile(objectPath));
+  } catch (error) {
+    console.error(`리비전 읽기 오류: ${error}`);
+    return null;
+  }
+}
+
+// 보관 개수와 기간을 넘은 리비전 정리
+async function applyRetention(
+  userId: string,
+  siteId: string,
+  path: string
+): Promise<void> {
+  const cutoff = Date.now() - REVISION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const expired = getFileRevisions(siteId, path).filter(
+    (revision, index) =>
+      index >= MAX_REVISIONS_PER_FILE ||
+      new Date(revision.createdAt).getTime() < cutoff
+  );
+  await deleteRevisions(userId, expired);
+}
+
+// 리비전 기록 삭제 (더 이상 참조하지 않는 내용은 저장소에서 삭제하고 사용량 반환)
+async function deleteRevisions(
+  userId: string,
+  revisions: FileRevision[]
+): Promise<void> {
+  for (const revision of revisions) {
+    deleteFileRevision(revision.id);
+
+    if (countRevisionsByHash(userId, revision.hash) === 0) {
+      await rm(getObjectPath(userId, revision.hash), { force: true });
+      adjustStorageUsage(userId, -revision.size);
+    }
+  }
+}
+
+// 사이트의 리비전 기록 전체 삭제 (사이트 삭제 시)
+export async function purgeSiteHistory(
+  userId: string,
+  siteId: string
+): Promise<void> {
+  await deleteRevisions(userId, getFileRevisionsBySiteId(siteId));
+}
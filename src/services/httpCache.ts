@@ -0,0 +1,91 @@
+import type { Stats } from "node:fs";
+import { extname } from "path";
+import { readSiteJsonConfig, SITE_CACHE_CONFIG_FILE } from "./siteConfig";
+
+// HTML을 제외한 정적 파일의 기본 캐시 시간 (초, 환경 변수로 변경 가능)
+const STATIC_MAX_AGE = Number(process.env.STATIC_MAX_AGE) || 3600;
+
+// 파일 형식별 기본 Cache-Control (HTML은 항상 재검증하여 수정 사항이 바로 보이도록)
+const DEFAULT_CACHE_CONTROL: Record<string, string> = {
+  html: "no-cache",
+  htm: "no-cache",
+};
+
+// 사이트별 캐시 설정 (_cache.json)
+// { "types": { "css": "public, max-age=86400" }, "paths": { "assets/**": "public, max-age=31536000, immutable" } }
+export interface SiteCacheConfig {
+  types?: Record<string, string>; // 확장자별 Cache-Control
+  paths?: Record<string, string>; // 사이트 기준 경로 glob 패턴별 Cache-Control (확장자 설정보다 우선)
+}
+
+// 조건부 요청 비교에 사용하는 값
+export interface CacheValidators {
+  etag: string;
+  lastModified: string;
+  mtime: Date;
+}
+
+// 파일 정보로 ETag와 Last-Modified 생성 (크기와 수정 시각이 같으면 내용도 같다고 보는 강한 ETag)
+export function getCacheValidators(stats: Stats): CacheValidators {
+  const mtime = Math.floor(stats.mtimeMs * 1000).toString(16);
+  return {
+    etag: `"${stats.size.toString(16)}-${mtime}"`,
+    lastModified: stats.mtime.toUTCString(),
+    mtime: stats.mtime,
+  };
+}
+
+// If-None-Match / If-Modified-Since 조건을 만족하면 true (304 응답 대상)
+export function isNotModified(
+  req: Request,
+  validators: CacheValidators
+): boolean {
+  // If-None-Match가 있으면 If-Modified-Since는 무시 (RFC 9110)
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    if (ifNoneMatch.trim() === "*") {
+      return true;
+    }
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .includes(validators.etag);
+  }
+
+  const ifModifiedSince = req.headers.get("If-Modified-Since");
+  if (ifModifiedSince !== null) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP 날짜는 초 단위이므로 밀리초는 버리고 비교
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(validators.mtime.getTime() / 1000) <= Math.floor(since / 1000)
+    );
+  }
+
+  return false;
+}
+
+// 정적 파일의 Cache-Control 값 결정 (사이트 경로 설정 → 사이트 확장자 설정 → 기본값 순)
+export async function getCacheControl(
+  userId: string,
+  relativePath: string
+): Promise<string> {
+  const config = await readSiteJsonConfig<SiteCacheConfig>(
+    userId,
+    SITE_CACHE_CONFIG_FILE
+  );
+  const ext = extname(relativePath).slice(1).toLowerCase();
+
+  for (const [pattern, value] of Object.entries(config.paths || {})) {
+    if (new Bun.Glob(pattern.replace(/^\//, "")).match(relativePath)) {
+      return value;
+    }
+  }
+
+  const typeValue = config.types?.[ext];
+  if (typeValue) {
+    return typeValue;
+  }
+
+  return DEFAULT_CACHE_CONTROL[ext] || `public, max-age=${STATIC_MAX_AGE}`;
+}
@@ -0,0 +1,146 @@
+import type { BunFile } from "bun";
+import type { CacheValidators } from "./httpCache";
+
+// 요청 하나에서 처리하는 최대 범위 수 (넘으면 범위 요청을 무시하고 전체 파일 응답)
+const MAX_RANGES = 16;
+
+// 파일에서 보낼 바이트 범위 (end 포함)
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Range 헤더 해석 (형식이 잘못되었으면 null로 전체 파일, 만족할 수 있는 범위가 없으면 "unsatisfiable")
+export function parseRangeHeader(
+  header: string,
+  size: number
+): ByteRange[] | "unsatisfiable" | null {
+  const match = /^bytes=(.+)$/i.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const specs = match[1]!.split(",").map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) {
+    return null;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === "" && parts[2] === "")) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (parts[1] === "") {
+      // 마지막 N바이트 (bytes=-500)
+      const suffix = Number(parts[2]);
+      if (suffix === 0) continue;
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === "" ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== "" && Number(parts[2]) < start) {
+        return null;
+      }
+    }
+
+    // 파일 크기를 벗어난 범위는 제외
+    if (start >= size) continue;
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) {
+    return "unsatisfiable";
+  }
+
+  // 겹치거나 이어지는 범위는 합쳐서 같은 바이트를 여러 번 보내지 않음
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]!];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1]!;
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+// If-Range 조건 확인 (파일이 바뀌었으면 false로 전체 파일 응답)
+export function isRangeFresh(
+  req: Request,
+  validators: CacheValidators
+): boolean {
+  const ifRange = req.headers.get("If-Range");
+  if (ifRange === null) {
+    return true;
+  }
+
+  const value = ifRange.trim();
+  // ETag는 강한 비교만 허용 (약한 ETag는 범위 요청에 사용할 수 없음)
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return value === validators.etag;
+  }
+
+  // 날짜는 Last-Modified와 정확히 같아야 함
+  return value === validators.lastModified;
+}
+
+// 여러 범위를 multipart/byteranges 본문으로 생성 (각 범위는 디스크에서 바로 스트리밍)
+export function createMultipartRanges(
+  file: BunFile,
+  ranges: ByteRange[],
+  contentType: string,
+  size: number
+): { body: ReadableStream<Uint8Array>; boundary: string } {
+  const encoder = new TextEncoder();
+  const boundary = crypto.randomUUID().replace(/-/g, "");
+
+  const heads = ranges.map((range, index) =>
+    encoder.encode(
+      `${index === 0 ? "" : "\r\n"}--${boundary}\r\n` +
+        `Content-Type: ${contentType}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+    )
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  async function* generate(): AsyncGenerator<Uint8Array> {
+    for (const [index, range] of ranges.entries()) {
+      yield heads[index]!;
+      for await (const chunk of file
+        .slice(range.start, range.end + 1)
+        .stream()) {
+        yield chunk;
+      }
+    }
+    yield tail;
+  }
+
+  const chunks = generate();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        console.error(`범위 응답 생성 오류: ${error}`);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  return { body, boundary };
+}
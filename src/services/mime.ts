@@ -0,0 +1,274 @@
+// 파일 형식 판별 공용 모듈 (서버와 화면 컴포넌트에서 함께 사용하므로 Node API를 사용하지 않음)
+
+// 형식을 알 수 없는 파일의 기본 MIME 타입
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+// 확장자별 MIME 타입
+const MIME_TYPES: Record<string, string> = {
+  // 웹 문서
+  html: "text/html",
+  htm: "text/html",
+  xhtml: "application/xhtml+xml",
+  css: "text/css",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  cjs: "text/javascript",
+  map: "application/json",
+  json: "application/json",
+  jsonld: "application/ld+json",
+  webmanifest: "application/manifest+json",
+  xml: "application/xml",
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+  wasm: "application/wasm",
+
+  // 텍스트와 소스 코드
+  txt: "text/plain",
+  text: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  ics: "text/calendar",
+  vtt: "text/vtt",
+  srt: "text/plain",
+  yaml: "text/yaml",
+  yml: "text/yaml",
+  toml: "text/plain",
+  ini: "text/plain",
+  ts: "text/plain",
+  tsx: "text/plain",
+  jsx: "text/javascript",
+  py: "text/x-python",
+  sh: "application/x-sh",
+
+  // 이미지
+  png: "image/png",
+  apng: "image/apng",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  jfif: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+
+  // 글꼴
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+
+  // 오디오
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/opus",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  weba: "audio/webm",
+  mid: "audio/midi",
+  midi: "audio/midi",
+
+  // 비디오
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  ogv: "video/ogg",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mpeg: "video/mpeg",
+  mpg: "video/mpeg",
+  mkv: "video/x-matroska",
+  m3u8: "application/vnd.apple.mpegurl",
+
+  // 문서와 압축 파일
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  tar: "application/x-tar",
+  "7z": "application/x-7z-compressed",
+  rar: "application/vnd.rar",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  epub: "application/epub+zip",
+};
+
+// 파일 이름의 확장자 (점 없이 소문자, 확장자가 없으면 빈 문자열)
+export function getExtension(filename: string): string {
+  const name = filename.split("/").pop() || "";
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(index + 1).toLowerCase() : "";
+}
+
+// 파일 이름으로 MIME 타입 조회 (사이트별 확장자 설정이 있으면 우선, 모르면 null)
+export function lookupMimeType(
+  filename: string,
+  overrides: Record<string, string> = {}
+): string | null {
+  const ext = getExtension(filename);
+  if (!ext) {
+    return null;
+  }
+  return overrides[ext] || MIME_TYPES[ext] || null;
+}
+
+// 파일 이름으로 MIME 타입 추측 (모르는 확장자는 기본 타입)
+export function getMimeType(
+  filename: string,
+  overrides: Record<string, string> = {}
+): string {
+  return lookupMimeType(filename, overrides) || DEFAULT_MIME_TYPE;
+}
+
+// 텍스트로 읽을 수 있는 형식인지 확인
+export function isTextMimeType(mimeType: string): boolean {
+  const type = mimeType.split(";")[0]!.trim().toLowerCase();
+  return (
+    type.startsWith("text/") ||
+    type.endsWith("+json") ||
+    type.endsWith("+xml") ||
+    [
+      "application/javascript",
+      "application/json",
+      "application/xml",
+      "application/x-sh",
+    ].includes(type)
+  );
+}
+
+// 응답 헤더용 Content-Type (텍스트 형식에는 UTF-8 문자셋 추가)
+export function getContentType(mimeType: string): string {
+  if (mimeType.includes(";") || !isTextMimeType(mimeType)) {
+    return mimeType;
+  }
+  return `${mimeType}; charset=utf-8`;
+}
+
+// 파일 앞부분의 고정된 바이트로 판별하는 형식
+const SIGNATURES: { bytes: (number | null)[]; mimeType: string }[] = [
+  {
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    mimeType: "image/png",
+  },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif" },
+  // RIFF....WEBP / RIFF....WAVE
+  {
+    bytes: [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      null,
+      null,
+      null,
+      null,
+      0x57,
+      0x45,
+      0x42,
+      0x50,
+    ],
+    mimeType: "image/webp",
+  },
+  {
+    bytes: [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      null,
+      null,
+      null,
+      null,
+      0x57,
+      0x41,
+      0x56,
+      0x45,
+    ],
+    mimeType: "audio/wav",
+  },
+  { bytes: [0x00, 0x00, 0x01, 0x00], mimeType: "image/x-icon" },
+  { bytes: [0x42, 0x4d], mimeType: "image/bmp" },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], mimeType: "application/pdf" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: "application/zip" },
+  { bytes: [0x1f, 0x8b], mimeType: "application/gzip" },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], mimeType: "application/wasm" },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], mimeType: "font/woff2" },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], mimeType: "font/woff" },
+  { bytes: [0x4f, 0x54, 0x54, 0x4f], mimeType: "font/otf" },
+  { bytes: [0x00, 0x01, 0x00, 0x00, 0x00], mimeType: "font/ttf" },
+  // ....ftyp (MP4 계열)
+  {
+    bytes: [null, null, null, null, 0x66, 0x74, 0x79, 0x70],
+    mimeType: "video/mp4",
+  },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], mimeType: "video/webm" },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], mimeType: "audio/ogg" },
+  { bytes: [0x49, 0x44, 0x33], mimeType: "audio/mpeg" },
+  { bytes: [0x66, 0x4c, 0x61, 0x43], mimeType: "audio/flac" },
+];
+
+// 확장자가 없는 파일의 내용으로 형식 추측 (앞부분 512바이트 정도면 충분)
+export function sniffMimeType(data: Uint8Array): string {
+  for (const signature of SIGNATURES) {
+    if (
+      data.length >= signature.bytes.length &&
+      signature.bytes.every(
+        (byte, index) => byte === null || data[index] === byte
+      )
+    ) {
+      return signature.mimeType;
+    }
+  }
+
+  // NUL 문자가 있거나 UTF-8로 해석할 수 없으면 이진 파일
+  if (data.includes(0)) {
+    return DEFAULT_MIME_TYPE;
+  }
+  let text: string;
+  try {
+    // 잘린 마지막 문자는 무시하도록 stream 옵션 사용
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data, {
+      stream: true,
+    });
+  } catch (error) {
+    return DEFAULT_MIME_TYPE;
+  }
+
+  const start = text
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .slice(0, 256)
+    .toLowerCase();
+  if (start.startsWith("<!doctype html") || start.startsWith("<html")) {
+    return "text/html";
+  }
+  if (start.startsWith("<svg")) {
+    return "image/svg+xml";
+  }
+  if (start.startsWith("<?xml")) {
+    return start.includes("<svg") ? "image/svg+xml" : "application/xml";
+  }
+  if (start.startsWith("{") || start.startsWith("[")) {
+    try {
+      JSON.parse(text);
+      return "application/json";
+    } catch (error) {
+      // 잘렸거나 JSON이 아니면 일반 텍스트
+    }
+  }
+  return "text/plain";
+}
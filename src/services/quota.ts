@@ -0,0 +1,145 @@
+import {
+  db,
+  findUserById,
+  findStoragePlanById,
+  getStorageUsageRecord,
+  getTrashBytesByUserId,
+  adjustStorageUsage,
+  DEFAULT_PLAN_ID,
+  DEFAULT_STORAGE_PLANS,
+  type StoragePlan,
+  type StorageUsage,
+} from "./database";
+
+// 쓰기 작업으로 인한 사용량 변화
+export interface StorageChange {
+  bytes: number; // 전체 사용량 증가분 (덮어쓰기는 기존 파일과의 크기 차이)
+  fileSizes?: number[]; // 새로 쓰이는 각 파일의 크기 (파일당 한도 검사용)
+  newFiles?: number; // 새로 생기는 파일 수
+}
+
+// 사용자에게 적용되는 한도 (null이면 무제한)
+export interface UserQuota {
+  plan: StoragePlan;
+  maxTotalBytes: number | null;
+  maxFileBytes: number | null;
+  maxFileCount: number | null;
+}
+
+// 한도 검사 결과
+export type QuotaCheckResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      limit: "total" | "file_size" | "file_count";
+      reason: string;
+    };
+
+// 쓰기 작업 전 한도 확인 결과 (응답에 사용량을 함께 표시하기 위해 보관)
+export interface QuotaStatus {
+  check: QuotaCheckResult;
+  quota: UserQuota;
+  usage: StorageUsage; // 이번 쓰기 작업을 반영하기 전의 사용량
+  trashBytes: number; // 사용량 중 휴지통이 차지하는 용량 (휴지통을 비워야 확보됨)
+}
+
+// 사용자에게 적용되는 요금제 한도 조회 (관리자가 지정한 전체 용량이 있으면 우선)
+export function getUserQuota(userId: string): UserQuota | null {
+  const user = findUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  // 요금제가 삭제된 경우 기본 요금제로 처리
+  const plan =
+    findStoragePlanById(user.planId) ||
+    findStoragePlanById(DEFAULT_PLAN_ID) ||
+    DEFAULT_STORAGE_PLANS[0];
+
+  return {
+    plan,
+    maxTotalBytes: user.storageQuota ?? plan.maxTotalBytes,
+    maxFileBytes: plan.maxFileBytes,
+    maxFileCount: plan.maxFileCount,
+  };
+}
+
+// 쓰기 작업이 한도 안에 있는지 확인
+export function checkStorageQuota(
+  quota: UserQuota,
+  usage: StorageUsage,
+  change: StorageChange
+): QuotaCheckResult {
+  if (quota.maxFileBytes !== null) {
+    const tooLarge = (change.fileSizes || []).some(
+      (size) => size > quota.maxFileBytes!
+    );
+    if (tooLarge) {
+      return {
+        allowed: false,
+        limit: "file_size",
+        reason: "파일 크기가 요금제의 파일당 최대 크기를 초과합니다",
+      };
+    }
+  }
+
+  if (
+    quota.maxFileCount !== null &&
+    (change.newFiles || 0) > 0 &&
+    usage.fileCount + (change.newFiles || 0) > quota.maxFileCount
+  ) {
+    return {
+      allowed: false,
+      limit: "file_count",
+      reason: "파일 개수 초과: 요금제의 최대 파일 수를 넘을 수 없습니다",
+    };
+  }
+
+  if (
+    quota.maxTotalBytes !== null &&
+    change.bytes > 0 &&
+    usage.bytes + change.bytes > quota.maxTotalBytes
+  ) {
+    return {
+      allowed: false,
+      limit: "total",
+      reason: "디스크 용량 초과: 저장 공간이 부족합니다",
+    };
+  }
+
+  return { allowed: true };
+}
+
+// 한도 확인 후 허용되면 사용량을 바로 반영 (트랜잭션으로 처리하여 동시 요청이 함께 통과하지 않도록 함)
+export function reserveStorageQuota(
+  userId: string,
+  change: StorageChange
+): QuotaStatus | null {
+  const quota = getUserQuota(userId);
+  if (!quota) {
+    return null;
+  }
+
+  const reserve = db.transaction((): QuotaStatus | null => {
+    const record = getStorageUsageRecord(userId);
+    if (!record) {
+      return null;
+    }
+
+    const usage = { bytes: record.bytes, fileCount: record.fileCount };
+    const check = checkStorageQuota(quota, usage, change);
+    if (check.allowed) {
+      adjustStorageUsage(userId, change.bytes, change.newFiles || 0);
+    }
+    return { check, quota, usage, trashBytes: getTrashBytesByUserId(userId) };
+  });
+
+  return reserve();
+}
+
+// 사용률 계산 (무제한이면 0)
+export function getUsagePercentage(used: number, limit: number | null): number {
+  if (limit === null) return 0;
+  if (limit === 0) return used > 0 ? 100 : 0;
+  return (used / limit) * 100;
+}
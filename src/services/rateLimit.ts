@@ -0,0 +1,284 @@
+import {
+  createLoginLockout,
+  findActiveLoginLockout,
+  type LoginLockout,
+} from "./database";
+
+// 로그인 실패 집계 구간 (15분)
+const LOGIN_WINDOW = 15 * 60 * 1000;
+
+// IP당 구간 내 최대 로그인 실패 횟수
+const MAX_LOGIN_FAILURES_PER_IP = 20;
+
+// 계정 잠금까지 허용되는 사용자명당 실패 횟수
+const MAX_LOGIN_FAILURES_PER_USER = 5;
+
+// 계정 잠금 시간 (15분)
+const LOCKOUT_DURATION = 15 * 60 * 1000;
+
+// 지연 없이 허용되는 연속 실패 횟수
+const FREE_LOGIN_FAILURES = 2;
+
+// 점진적 지연의 기본값과 상한 (1초부터 2배씩, 최대 30초)
+const BASE_LOGIN_DELAY = 1000;
+const MAX_LOGIN_DELAY = 30 * 1000;
+
+// 회원가입 집계 구간과 IP당 최대 가입 횟수 (1시간에 5회)
+const REGISTER_WINDOW = 60 * 60 * 1000;
+const MAX_REGISTRATIONS_PER_IP = 5;
+
+// 사이트·공유 링크 비밀번호 실패 집계 구간과 IP·대상당 최대 실패 횟수 (15분에 10회)
+const SITE_UNLOCK_WINDOW = 15 * 60 * 1000;
+const MAX_SITE_UNLOCK_FAILURES = 10;
+
+// 제한 확인 결과
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number; reason: string };
+
+// 키별 이벤트 발생 시각 (슬라이딩 윈도우)
+const loginFailuresByIp = new Map<string, number[]>();
+const loginFailuresByUser = new Map<string, number[]>();
+const registrationsByIp = new Map<string, number[]>();
+const siteUnlockFailures = new Map<string, number[]>();
+
+// 윈도우 밖의 기록을 제거하고 남은 기록 반환
+function getRecentHits(
+  store: Map<string, number[]>,
+  key: string,
+  windowMs: number,
+  now: number = Date.now()
+): number[] {
+  const hits = (store.get(key) || []).filter((time) => now - time < windowMs);
+  if (hits.length > 0) {
+    store.set(key, hits);
+  } else {
+    store.delete(key);
+  }
+  return hits;
+}
+
+// 기록 추가
+function recordHit(
+  store: Map<string, number[]>,
+  key: string,
+  windowMs: number,
+  now: number = Date.now()
+): number[] {
+  const hits = getRecentHits(store, key, windowMs, now);
+  hits.push(now);
+  store.set(key, hits);
+  return hits;
+}
+
+// 밀리초를 Retry-After 헤더용 초 단위로 변환
+function toRetryAfterSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+// 사용자명 키 정규화 (대소문자 구분 없이 집계)
+function userKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// 로그인 시도 예약 결과 (허용되면 실패로 미리 기록한 시각 포함)
+export type LoginAttemptResult =
+  | { allowed: true; attemptedAt: number }
+  | { allowed: false; retryAfter: number; reason: string };
+
+// 로그인 시도 허용 여부 확인 후 시도 예약
+// 비밀번호 확인을 기다리는 동안 동시에 들어온 요청도 제한에 걸리도록 미리 실패로 기록하고,
+// 성공하면 cancelLoginAttempt로 되돌림
+export function reserveLoginAttempt(
+  ipAddress: string | null,
+  username: string
+): LoginAttemptResult {
+  const now = Date.now();
+  const ipKey = ipAddress || "unknown";
+
+  // 데이터베이스에 기록된 계정 잠금 확인 (서버 재시작 후에도 유지)
+  const lockout = findActiveLoginLockout(userKey(username));
+  if (lockout) {
+    return {
+      allowed: false,
+      retryAfter: toRetryAfterSeconds(
+        new Date(lockout.lockedUntil).getTime() - now
+      ),
+      reason: "로그인 실패가 반복되어 계정이 일시적으로 잠겼습니다",
+    };
+  }
+
+  // IP 단위 제한
+  const ipHits = getRecentHits(loginFailuresByIp, ipKey, LOGIN_WINDOW, now);
+  if (ipHits.length >= MAX_LOGIN_FAILURES_PER_IP) {
+    return {
+      allowed: false,
+      retryAfter: toRetryAfterSeconds(ipHits[0] + LOGIN_WINDOW - now),
+      reason: "로그인 시도가 너무 많습니다",
+    };
+  }
+
+  // 연속 실패에 따른 점진적 지연
+  const userHits = getRecentHits(
+    loginFailuresByUser,
+    userKey(username),
+    LOGIN_WINDOW,
+    now
+  );
+  if (userHits.length > FREE_LOGIN_FAILURES) {
+    const delay = Math.min(
+      BASE_LOGIN_DELAY * 2 ** (userHits.length - FREE_LOGIN_FAILURES - 1),
+      MAX_LOGIN_DELAY
+    );
+    const waitMs = userHits[userHits.length - 1] + delay - now;
+    if (waitMs > 0) {
+      return {
+        allowed: false,
+        retryAfter: toRetryAfterSeconds(waitMs),
+        reason: "잠시 후 다시 시도하세요",
+      };
+    }
+  }
+
+  recordHit(loginFailuresByIp, ipKey, LOGIN_WINDOW, now);
+  recordHit(loginFailuresByUser, userKey(username), LOGIN_WINDOW, now);
+  return { allowed: true, attemptedAt: now };
+}
+
+// 예약한 로그인 시도 취소 (비밀번호가 맞았거나 실패로 보지 않는 결과)
+export function cancelLoginAttempt(
+  ipAddress: string | null,
+  username: string,
+  attemptedAt: number
+): void {
+  for (const [store, key] of [
+    [loginFailuresByIp, ipAddress || "unknown"],
+    [loginFailuresByUser, userKey(username)],
+  ] as const) {
+    const hits = store.get(key) || [];
+    const index = hits.indexOf(attemptedAt);
+    if (index !== -1) {
+      hits.splice(index, 1);
+    }
+    if (hits.length === 0) {
+      store.delete(key);
+    }
+  }
+}
+
+// 예약한 로그인 시도를 실패로 확정 (한도를 넘으면 계정 잠금을 데이터베이스에 기록)
+export function recordLoginFailure(
+  ipAddress: string | null,
+  username: string
+): LoginLockout | null {
+  const now = Date.now();
+  const key = userKey(username);
+  const userHits = getRecentHits(loginFailuresByUser, key, LOGIN_WINDOW, now);
+
+  if (userHits.length < MAX_LOGIN_FAILURES_PER_USER) {
+    return null;
+  }
+
+  // 잠금 후에는 실패 기록을 초기화하여 해제 후 다시 집계
+  loginFailuresByUser.delete(key);
+
+  const lockout = createLoginLockout({
+    username: key,
+    ipAddress,
+    failedAttempts: userHits.length,
+    lockedAt: new Date(now).toISOString(),
+    lockedUntil: new Date(now + LOCKOUT_DURATION).toISOString(),
+  });
+
+  console.warn(`계정 잠금: ${key} (IP: ${ipAddress || "알 수 없음"})`);
+  return lockout;
+}
+
+// 로그인 성공 시 사용자명 실패 기록 초기화
+export function recordLoginSuccess(username: string): void {
+  loginFailuresByUser.delete(userKey(username));
+}
+
+// 관리자가 잠금을 해제한 경우 메모리상의 실패 기록도 초기화
+export function resetLoginFailures(username: string): void {
+  loginFailuresByUser.delete(userKey(username));
+}
+
+// 회원가입 허용 여부 확인
+export function checkRegisterAllowed(
+  ipAddress: string | null
+): RateLimitResult {
+  const now = Date.now();
+  const hits = getRecentHits(
+    registrationsByIp,
+    ipAddress || "unknown",
+    REGISTER_WINDOW,
+    now
+  );
+
+  if (hits.length >= MAX_REGISTRATIONS_PER_IP) {
+    return {
+      allowed: false,
+      retryAfter: toRetryAfterSeconds(hits[0] + REGISTER_WINDOW - now),
+      reason: "회원가입 요청이 너무 많습니다",
+    };
+  }
+
+  return { allowed: true };
+}
+
+// 회원가입 기록
+export function recordRegistration(ipAddress: string | null): void {
+  recordHit(registrationsByIp, ipAddress || "unknown", REGISTER_WINDOW);
+}
+
+// 사이트 비밀번호 입력 허용 여부 확인 (IP와 사이트 또는 공유 링크별)
+export function checkSiteUnlockAllowed(
+  ipAddress: string | null,
+  targetId: string
+): RateLimitResult {
+  const now = Date.now();
+  const hits = getRecentHits(
+    siteUnlockFailures,
+    `${ipAddress || "unknown"}:${targetId}`,
+    SITE_UNLOCK_WINDOW,
+    now
+  );
+
+  if (hits.length >= MAX_SITE_UNLOCK_FAILURES) {
+    return {
+      allowed: false,
+      retryAfter: toRetryAfterSeconds(hits[0] + SITE_UNLOCK_WINDOW - now),
+      reason: "비밀번호 입력 시도가 너무 많습니다. 잠시 후 다시 시도하세요.",
+    };
+  }
+
+  return { allowed: true };
+}
+
+// 사이트 비밀번호 실패 기록
+export function recordSiteUnlockFailure(
+  ipAddress: string | null,
+  targetId: string
+): void {
+  recordHit(
+    siteUnlockFailures,
+    `${ipAddress || "unknown"}:${targetId}`,
+    SITE_UNLOCK_WINDOW
+  );
+}
+
+// 오래된 기록 정리 (메모리 누수 방지)
+function pruneStore(store: Map<string, number[]>, windowMs: number): void {
+  const now = Date.now();
+  for (const key of store.keys()) {
+    getRecentHits(store, key, windowMs, now);
+  }
+}
+
+setInterval(() => {
+  pruneStore(loginFailuresByIp, LOGIN_WINDOW);
+  pruneStore(loginFailuresByUser, LOGIN_WINDOW);
+  pruneStore(registrationsByIp, REGISTER_WINDOW);
+  pruneStore(siteUnlockFailures, SITE_UNLOCK_WINDOW);
+}, 5 * 60 * 1000).unref();
@@ -0,0 +1,194 @@
+import { randomUUID } from "crypto";
+import { mkdir, open, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "path";
+import {
+  adjustStorageUsage,
+  createUploadSession,
+  deleteUploadSession,
+  getExpiredUploadSessions,
+  updateUploadSessionOffset,
+  type UploadSession,
+} from "./database";
+import {
+  getSiteIdFromPath,
+  getSiteRelativePath,
+  getUserPartialDir,
+} from "./fileStorage";
+
+// 조각을 받지 못한 채 방치된 업로드를 정리하기까지의 시간 (시간, 환경 변수로 변경 가능)
+const UPLOAD_EXPIRY_HOURS = Number(process.env.UPLOAD_EXPIRY_HOURS) || 24;
+
+// 조각 하나의 최대 크기 (MB, 환경 변수로 변경 가능, 업로드 화면은 4MB씩 전송)
+export const MAX_UPLOAD_CHUNK_MB =
+  Number(process.env.MAX_UPLOAD_CHUNK_MB) || 16;
+
+// 방치된 업로드 정리 주기 (1시간)
+const UPLOAD_PURGE_INTERVAL = 60 * 60 * 1000;
+
+// 조각을 쓰고 있는 업로드 ID (같은 업로드에 동시에 조각이 들어오는 것을 방지)
+const activeUploads = new Set<string>();
+
+// 업로드 조각 파일의 저장 위치
+export function getUploadPartPath(session: UploadSession): string {
+  return join(getUserPartialDir(session.userId), session.id);
+}
+
+// 업로드 만료 시각 (마지막으로 조각을 받은 시각 기준)
+export function getUploadExpiresAt(session: UploadSession): string {
+  return new Date(
+    new Date(session.updatedAt).getTime() + UPLOAD_EXPIRY_HOURS * 60 * 60 * 1000
+  ).toISOString();
+}
+
+// 요청 본문에서 조각 읽기 (maxBytes를 넘으면 더 읽지 않고 null, 큰 요청이 메모리를 차지하지 않도록)
+export async function readUploadChunk(
+  req: Request,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  if (req.body) {
+    const reader = req.body.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      length += value.byteLength;
+      if (length > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      parts.push(value);
+    }
+  }
+
+  return Buffer.concat(parts, length);
+}
+
+// 업로드 세션 시작 (사용량은 호출하는 쪽에서 전체 크기로 예약)
+export async function startUpload(
+  userId: string,
+  fullPath: string,
+  size: number
+): Promise<UploadSession | null> {
+  try {
+    const id = randomUUID();
+    await mkdir(getUserPartialDir(userId), { recursive: true });
+    await writeFile(join(getUserPartialDir(userId), id), new Uint8Array(0));
+
+    const siteId = getSiteIdFromPath(fullPath) ?? userId;
+    const session = createUploadSession({
+      id,
+      userId,
+      siteId,
+      path: getSiteRelativePath(siteId, fullPath),
+      size,
+    });
+
+    // 기록에 실패하면 만든 조각 파일 삭제
+    if (!session) {
+      await rm(join(getUserPartialDir(userId), id), { force: true });
+    }
+    return session;
+  } catch (error) {
+    console.error(`업로드 시작 오류: ${error}`);
+    return null;
+  }
+}
+
+// 조각 쓰기 잠금 (이미 쓰는 중이면 false)
+export function lockUpload(id: string): boolean {
+  if (activeUploads.has(id)) {
+    return false;
+  }
+  activeUploads.add(id);
+  return true;
+}
+
+// 조각 쓰기 잠금 해제
+export function unlockUpload(id: string): void {
+  activeUploads.delete(id);
+}
+
+// 받은 위치에 조각 이어 쓰기 (새 위치 반환, 실패하면 null)
+export async function writeUploadChunk(
+  session: UploadSession,
+  chunk: Uint8Array
+): Promise<number | null> {
+  const offset = session.offset + chunk.byteLength;
+
+  try {
+    const handle = await open(getUploadPartPath(session), "r+");
+    try {
+      // 이전 요청이 중간에 끊겨 남은 데이터는 덮어쓰고 잘라냄
+      await handle.write(chunk, 0, chunk.byteLength, session.offset);
+      await handle.truncate(offset);
+    } finally {
+      await handle.close();
+    }
+
+    if (!updateUploadSessionOffset(session.id, offset)) {
+      return null;
+    }
+    return offset;
+  } catch (error) {
+    console.error(`업로드 조각 저장 오류: ${error}`);
+    return null;
+  }
+}
+
+// 다 받은 파일을 저장할 위치로 옮기고 세션 종료 (같은 디스크 안에서 rename으로 한 번에 교체)
+export async function finishUpload(
+  session: UploadSession,
+  fullPath: string
+): Promise<boolean> {
+  try {
+    await mkdir(dirname(fullPath), { recursive: true });
+    await rename(getUploadPartPath(session), fullPath);
+    deleteUploadSession(session.id);
+    return true;
+  } catch (error) {
+    console.error(`업로드 완료 처리 오류: ${error}`);
+    return false;
+  }
+}
+
+// 업로드를 취소하고 예약한 사용량 반환
+export async function cancelUpload(session: UploadSession): Promise<boolean> {
+  try {
+    await rm(getUploadPartPath(session), { force: true });
+    if (deleteUploadSession(session.id)) {
+      adjustStorageUsage(session.userId, -session.size, -1);
+    }
+    return true;
+  } catch (error) {
+    console.error(`업로드 취소 오류: ${error}`);
+    return false;
+  }
+}
+
+// 오랫동안 조각을 받지 못한 업로드 정리
+export async function purgeExpiredUploads(): Promise<void> {
+  const cutoff = new Date(
+    Date.now() - UPLOAD_EXPIRY_HOURS * 60 * 60 * 1000
+  ).toISOString();
+
+  const expired = getExpiredUploadSessions(cutoff).filter(
+    (session) => !activeUploads.has(session.id)
+  );
+  for (const session of expired) {
+    await cancelUpload(session);
+  }
+
+  if (expired.length > 0) {
+    console.log(`업로드 정리: 방치된 업로드 ${expired.length}개 삭제`);
+  }
+}
+
+// 서버가 실행되는 동안 주기적으로 방치된 업로드 정리
+setInterval(() => {
+  purgeExpiredUploads().catch((error) =>
+    console.error(`업로드 정리 오류: ${error}`)
+  );
+}, UPLOAD_PURGE_INTERVAL).unref();
@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  deleteExpiredShareLinks,
+  findShareLinkById,
+  type ShareLink,
+} from "./database";
+import type { UnlockTarget } from "./siteAccess";
+
+// 공유 링크는 /share/<ID>.<서명> 형식 (서명은 링크마다 만든 키로 ID와 만료 시각을 서명)
+
+// 공유 링크 만료 기간 기본값과 상한 (일)
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 365;
+
+// 다운로드 횟수 제한 상한
+export const MAX_SHARE_DOWNLOADS = 10000;
+
+// 만료된 공유 링크 정리 주기 (1시간)
+const SHARE_PURGE_INTERVAL = 60 * 60 * 1000;
+
+// 토큰에 넣는 서명 길이 (HMAC-SHA256을 base64url로 인코딩한 앞 22자, 128비트)
+const SIGNATURE_LENGTH = 22;
+
+// 공유 링크 서명
+function signShareLink(share: ShareLink): string {
+  return createHmac("sha256", share.secret)
+    .update(`${share.id}:${share.expiresAt}`)
+    .digest("base64url")
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+// 공유 링크 토큰
+export function getShareToken(share: ShareLink): string {
+  return `${share.id}.${signShareLink(share)}`;
+}
+
+// 공유 링크 URL 경로
+export function getShareUrl(share: ShareLink): string {
+  return `/share/${getShareToken(share)}`;
+}
+
+// 토큰으로 공유 링크 조회 (서명이 맞지 않으면 null, 만료 여부는 확인하지 않음)
+export function findShareByToken(token: string): ShareLink | null {
+  const [id, signature] = token.split(".");
+  if (!id || !signature) {
+    return null;
+  }
+
+  const share = findShareLinkById(id);
+  if (!share) {
+    return null;
+  }
+
+  const expected = Buffer.from(signShareLink(share));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return share;
+}
+
+// 만료된 공유 링크인지 확인
+export function isShareExpired(share: ShareLink): boolean {
+  return new Date(share.expiresAt) <= new Date();
+}
+
+// 다운로드 횟수를 모두 사용한 공유 링크인지 확인
+export function isShareExhausted(share: ShareLink): boolean {
+  return (
+    share.maxDownloads !== null && share.downloadCount >= share.maxDownloads
+  );
+}
+
+// 비밀번호가 있는 공유 링크의 잠금 해제 대상
+export function getShareUnlockTarget(share: ShareLink): UnlockTarget {
+  return { key: `share:${share.id}`, secret: share.secret };
+}
+
+// 서버가 실행되는 동안 주기적으로 만료된 공유 링크 정리
+setInterval(() => {
+  const count = deleteExpiredShareLinks();
+  if (count > 0) {
+    console.log(`만료된 공유 링크 ${count}개 정리`);
+  }
+}, SHARE_PURGE_INTERVAL).unref();
@@ -0,0 +1,206 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { authenticate, getCookieValue } from "./auth";
+import {
+  findSiteById,
+  getSiteAccessRules,
+  type SiteAccessRule,
+  type SiteVisibility,
+} from "./database";
+
+// 사이트와 폴더의 공개 범위
+//   public   - 누구나 볼 수 있음 (규칙이 없으면 공개)
+//   unlisted - 주소를 아는 사람만 (디렉토리 목록을 보여주지 않고 검색 엔진 색인 제외)
+//   private  - 로그인한 소유자만 (다른 사람에게는 없는 파일처럼 404)
+//   password - 비밀번호 입력 페이지에서 잠금을 풀면 서명한 쿠키로 접근
+
+export const SITE_VISIBILITIES: SiteVisibility[] = [
+  "public",
+  "unlisted",
+  "private",
+  "password",
+];
+
+// 사이트 비밀번호 길이 제한
+export const MIN_SITE_PASSWORD_LENGTH = 4;
+export const MAX_SITE_PASSWORD_LENGTH = 128;
+
+// 잠금 해제 쿠키 유지 시간 (7일)
+const UNLOCK_DURATION = 7 * 24 * 60 * 60 * 1000;
+
+// 보호된 파일 응답에 붙이는 헤더 (공유 캐시에 저장하지 않고 색인하지 않음)
+const PROTECTED_HEADERS: Record<string, string> = {
+  "Cache-Control": "private, no-cache",
+  "X-Robots-Tag": "noindex, nofollow",
+};
+
+// 공개 범위 확인 결과
+export type SiteAccessResult =
+  | {
+      allowed: true;
+      visibility: SiteVisibility;
+      headers: Record<string, string>;
+    }
+  | { allowed: false; rule: SiteAccessRule };
+
+// 사이트 경로에 적용되는 규칙 (경로 자신이나 가장 가까운 상위 폴더의 규칙, 없으면 null)
+export function getEffectiveAccessRule(
+  siteId: string,
+  relativePath: string
+): SiteAccessRule | null {
+  let effective: SiteAccessRule | null = null;
+  for (const rule of getSiteAccessRules(siteId)) {
+    const matches =
+      rule.path === "" ||
+      relativePath === rule.path ||
+      relativePath.startsWith(`${rule.path}/`);
+    if (matches && (!effective || rule.path.length > effective.path.length)) {
+      effective = rule;
+    }
+  }
+  return effective;
+}
+
+// 잠금 해제 대상 (폴더 규칙이나 공유 링크마다 쿠키 이름과 서명 키가 다름)
+export interface UnlockTarget {
+  key: string; // 쿠키 이름과 서명에 쓰는 대상 식별자
+  secret: string | null;
+}
+
+// 공개 범위 규칙의 잠금 해제 대상
+export function getAccessRuleUnlockTarget(rule: SiteAccessRule): UnlockTarget {
+  return { key: `${rule.siteId}:${rule.path}`, secret: rule.secret };
+}
+
+// 대상별 잠금 해제 쿠키 이름 (같은 사이트의 여러 폴더 비밀번호가 겹치지 않도록 구분)
+function getUnlockCookieName(target: UnlockTarget): string {
+  const key = createHash("sha256")
+    .update(target.key)
+    .digest("hex")
+    .slice(0, 16);
+  return `site_unlock_${key}`;
+}
+
+// 잠금 해제 쿠키 서명 (대상의 키로 대상 식별자와 만료 시각 서명)
+function signUnlockToken(target: UnlockTarget, expires: number): string {
+  return createHmac("sha256", target.secret || "")
+    .update(`${target.key}:${expires}`)
+    .digest("base64url");
+}
+
+// 요청에 유효한 잠금 해제 쿠키가 있는지 확인
+export function hasValidUnlockCookie(
+  req: Request,
+  target: UnlockTarget
+): boolean {
+  if (!target.secret) {
+    return false;
+  }
+
+  const value = getCookieValue(
+    req.headers.get("cookie"),
+    getUnlockCookieName(target)
+  );
+  const [expiresText, signature] = (value || "").split(".");
+  const expires = Number(expiresText);
+  if (!signature || !Number.isFinite(expires) || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signUnlockToken(target, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// 잠금 해제 쿠키 생성 (cookiePath는 잠금을 푼 사이트, 폴더나 공유 링크의 URL 경로)
+export function createUnlockCookie(
+  target: UnlockTarget,
+  cookiePath: string
+): string {
+  const expires = Date.now() + UNLOCK_DURATION;
+  const token = `${expires}.${signUnlockToken(target, expires)}`;
+  const maxAge = UNLOCK_DURATION / 1000;
+  const name = getUnlockCookieName(target);
+  return `${name}=${token}; HttpOnly; Path=${cookiePath}; Max-Age=${maxAge}; SameSite=Lax`;
+}
+
+// 사이트 경로 접근 허용 여부 확인 (소유자는 공개 범위와 관계없이 허용)
+export async function checkSiteAccess(
+  req: Request,
+  siteId: string,
+  relativePath: string
+): Promise<SiteAccessResult> {
+  const rule = getEffectiveAccessRule(siteId, relativePath);
+  if (!rule || rule.visibility === "public") {
+    return { allowed: true, visibility: "public", headers: {} };
+  }
+
+  if (rule.visibility === "unlisted") {
+    return {
+      allowed: true,
+      visibility: "unlisted",
+      headers: { "X-Robots-Tag": "noindex, nofollow" },
+    };
+  }
+
+  const user = await authenticate(req);
+  const site = findSiteById(siteId);
+  if (user && site && user.id === site.userId) {
+    return {
+      allowed: true,
+      visibility: rule.visibility,
+      headers: PROTECTED_HEADERS,
+    };
+  }
+
+  if (
+    rule.visibility === "password" &&
+    hasValidUnlockCookie(req, getAccessRuleUnlockTarget(rule))
+  ) {
+    return {
+      allowed: true,
+      visibility: "password",
+      headers: PROTECTED_HEADERS,
+    };
+  }
+
+  return { allowed: false, rule };
+}
+
+// 비밀번호 입력 페이지 (같은 주소로 POST하면 잠금 해제)
+export function renderUnlockPage(error: string | null = null): string {
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex, nofollow">
+  <title>비밀번호가 필요합니다</title>
+  <style>
+    body { font-family: Arial, sans-serif; background: #f3f4f6; color: #111827; margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; }
+    form { background: #fff; padding: 32px; border-radius: 8px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1); width: 100%; max-width: 320px; }
+    h1 { font-size: 20px; margin: 0 0 8px; }
+    p { color: #6b7280; font-size: 14px; margin: 0 0 16px; }
+    input { width: 100%; box-sizing: border-box; padding: 10px 12px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 16px; margin-bottom: 12px; }
+    button { width: 100%; padding: 10px; border: 0; border-radius: 6px; background: #3b82f6; color: #fff; font-size: 16px; cursor: pointer; }
+    button:hover { background: #2563eb; }
+    .error { color: #dc2626; }
+    @media (prefers-color-scheme: dark) {
+      body { background: #111827; color: #f9fafb; }
+      form { background: #1f2937; }
+      p { color: #9ca3af; }
+      input { background: #374151; border-color: #4b5563; color: #f9fafb; }
+    }
+  </style>
+</head>
+<body>
+  <form method="POST">
+    <h1>🔒 비밀번호가 필요합니다</h1>
+    <p${error ? ' class="error"' : ""}>${
+    error || "이 페이지를 보려면 비밀번호를 입력하세요."
+  }</p>
+    <input type="password" name="password" placeholder="비밀번호" autofocus required>
+    <button type="submit">잠금 해제</button>
+  </form>
+</body>
+</html>`;
+}
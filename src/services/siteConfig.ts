@@ -0,0 +1,114 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "path";
+import { resolvePath } from "./fileStorage";
+import { getExtension } from "./mime";
+
+// 사이트 최상위 폴더에 두는 설정 파일 (정적 파일로는 제공하지 않음)
+export const SITE_CACHE_CONFIG_FILE = "_cache.json";
+export const SITE_MIME_CONFIG_FILE = "_mime.json";
+export const SITE_HEADERS_FILE = "_headers";
+export const SITE_REDIRECTS_FILE = "_redirects";
+export const SITE_SETTINGS_FILE = "_site.json";
+
+// 없는 경로에 응답할 사이트의 404 페이지 (사이트 최상위)
+export const SITE_NOT_FOUND_PAGE = "404.html";
+
+const SITE_CONFIG_FILES = [
+  SITE_CACHE_CONFIG_FILE,
+  SITE_MIME_CONFIG_FILE,
+  SITE_SETTINGS_FILE,
+  SITE_HEADERS_FILE,
+  SITE_REDIRECTS_FILE,
+];
+
+// 설정 파일을 매번 읽지 않도록 수정 시각과 함께 보관 (키: 사용자 ID와 파일 이름)
+// 파일마다 해석 결과의 형식이 다르며, 같은 파일은 항상 같은 parse로 읽으므로 꺼낼 때 T로 취급
+const siteConfigCache = new Map<string, { mtimeMs: number; config: unknown }>();
+
+// 사이트 설정 파일인지 확인 (사이트 디렉토리 기준 상대 경로)
+export function isSiteConfigFile(relativePath: string): boolean {
+  return SITE_CONFIG_FILES.includes(relativePath);
+}
+
+// 사이트 설정 파일을 읽어 해석 (수정 시각이 같으면 이전 결과 사용, 없거나 해석할 수 없으면 fallback)
+export async function readSiteConfig<T>(
+  siteId: string,
+  fileName: string,
+  parse: (text: string) => T,
+  fallback: T
+): Promise<T> {
+  const configPath = join(await resolvePath(siteId), fileName);
+  const cacheKey = `${siteId}/${fileName}`;
+
+  try {
+    const stats = await stat(configPath);
+    const cached = siteConfigCache.get(cacheKey);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+      return cached.config as T;
+    }
+
+    const config = parse(await readFile(configPath, "utf-8"));
+    siteConfigCache.set(cacheKey, { mtimeMs: stats.mtimeMs, config });
+    return config;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`사이트 설정 파일 오류 (${cacheKey}): ${error}`);
+    }
+    siteConfigCache.delete(cacheKey);
+    return fallback;
+  }
+}
+
+// 사이트의 JSON 설정 파일 읽기 (없거나 형식이 잘못되었으면 빈 객체)
+export async function readSiteJsonConfig<T extends object>(
+  siteId: string,
+  fileName: string
+): Promise<Partial<T>> {
+  return readSiteConfig<Partial<T>>(
+    siteId,
+    fileName,
+    (text) => {
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    },
+    {}
+  );
+}
+
+// 사이트별 확장자 MIME 타입 설정 (_mime.json, 예: { "md": "text/plain" })
+export async function getSiteMimeOverrides(
+  siteId: string
+): Promise<Record<string, string>> {
+  const config = await readSiteJsonConfig<Record<string, string>>(
+    siteId,
+    SITE_MIME_CONFIG_FILE
+  );
+
+  // 확장자는 점 없이 소문자로 비교
+  const overrides: Record<string, string> = {};
+  for (const [ext, mimeType] of Object.entries(config)) {
+    if (typeof mimeType === "string") {
+      overrides[ext.replace(/^\./, "").toLowerCase()] = mimeType;
+    }
+  }
+  return overrides;
+}
+
+// 사이트 설정 (_site.json)
+export interface SiteSettings {
+  spa: boolean; // 없는 경로를 index.html로 응답 (클라이언트 라우터 사용 사이트)
+}
+
+// 사이트 설정 조회 (없는 값은 기본값)
+export async function getSiteSettings(siteId: string): Promise<SiteSettings> {
+  const config = await readSiteJsonConfig<SiteSettings>(
+    siteId,
+    SITE_SETTINGS_FILE
+  );
+  return { spa: config.spa === true };
+}
+
+// SPA 모드에서 index.html로 응답할 경로인지 확인 (확장자가 있는 파일 요청은 제외)
+export function isSpaRoute(sitePath: string): boolean {
+  return getExtension(sitePath) === "";
+}
@@ -0,0 +1,358 @@
+import {
+  readSiteConfig,
+  SITE_HEADERS_FILE,
+  SITE_REDIRECTS_FILE,
+} from "./siteConfig";
+
+// 사이트 최상위의 _headers, _redirects 파일 처리 (Netlify 형식)
+//
+// _headers: 경로 패턴 줄 다음에 들여쓴 "이름: 값" 줄
+//   /assets/*
+//     Cache-Control: public, max-age=31536000, immutable
+//     Access-Control-Allow-Origin: *
+//
+// _redirects: "원래 경로 대상 [상태 코드][!]" (상태 코드 기본값 301, 200은 주소를 바꾸지 않고 대상 파일 응답)
+//   /old-page      /new-page
+//   /blog/:slug    /posts/:slug  302
+//   /docs/*        https://docs.example.com/:splat  301!
+//   /*             /index.html   200
+
+// 설정 파일 오류 (줄 번호는 1부터)
+export interface SiteRuleError {
+  line: number;
+  message: string;
+}
+
+// 경로 패턴 (:이름은 한 단계 경로, 마지막의 *는 나머지 전체와 일치)
+interface PathPattern {
+  regex: RegExp;
+  names: string[]; // 캡처 순서대로의 자리 표시자 이름 (*는 "splat")
+}
+
+export interface HeaderRule {
+  pattern: PathPattern;
+  headers: Record<string, string>;
+}
+
+export interface RedirectRule {
+  pattern: PathPattern;
+  to: string;
+  status: number;
+  force: boolean; // 같은 경로에 파일이 있어도 적용 (!)
+}
+
+// 일치한 리다이렉트 규칙 (자리 표시자를 채운 대상 경로)
+export interface RedirectMatch {
+  to: string;
+  status: number;
+}
+
+// 허용하는 리다이렉트 상태 코드 (200은 내부 경로 응답)
+const REDIRECT_STATUSES = [200, 301, 302, 303, 307, 308];
+
+// 사이트에서 설정할 수 없는 헤더 (응답 형식을 깨뜨리거나 서비스 로그인 쿠키를 덮어쓸 수 있음)
+// 사이트는 서비스와 같은 출처에서 제공되므로 출처 전체에 영향을 주는 헤더도 막음
+//   access-control-allow-credentials - 다른 출처가 로그인 쿠키를 실어 API 응답을 읽을 수 있음
+//   clear-site-data                  - 방문자의 서비스 로그인 쿠키와 저장소를 지울 수 있음
+//   service-worker-allowed           - 서비스 워커가 사이트 밖(서비스 전체) 요청을 가로챌 수 있음
+const FORBIDDEN_HEADERS = [
+  "access-control-allow-credentials",
+  "clear-site-data",
+  "connection",
+  "content-encoding",
+  "content-length",
+  "content-range",
+  "keep-alive",
+  "service-worker-allowed",
+  "set-cookie",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// HTTP 헤더 이름으로 쓸 수 있는 문자
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// 경로 패턴을 정규식으로 변환 (잘못된 패턴이면 오류 메시지)
+function compilePathPattern(pattern: string): PathPattern | string {
+  if (!pattern.startsWith("/")) {
+    return `경로는 /로 시작해야 합니다: ${pattern}`;
+  }
+
+  const names: string[] = [];
+  const segments = pattern.replace(/\/+$/, "").split("/").slice(1);
+  let source = "";
+
+  for (const [index, segment] of segments.entries()) {
+    if (segment === "*" || (segment.endsWith("*") && segment.length > 1)) {
+      if (index !== segments.length - 1) {
+        return `*는 경로의 마지막에만 사용할 수 있습니다: ${pattern}`;
+      }
+      const prefix = segment.slice(0, -1);
+      if (prefix.includes("*") || prefix.includes(":")) {
+        return `잘못된 경로 패턴입니다: ${pattern}`;
+      }
+      names.push("splat");
+      // /blog/*는 /blog 자체와도 일치
+      source += prefix ? `/${escapeRegex(prefix)}(.*)` : "(?:/(.*))?";
+      continue;
+    }
+
+    if (segment.includes("*")) {
+      return `*는 경로의 마지막에만 사용할 수 있습니다: ${pattern}`;
+    }
+
+    if (segment.startsWith(":")) {
+      const name = segment.slice(1);
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || name === "splat") {
+        return `잘못된 자리 표시자입니다: ${segment}`;
+      }
+      if (names.includes(name)) {
+        return `자리 표시자 이름이 중복되었습니다: ${segment}`;
+      }
+      names.push(name);
+      source += "/([^/]+)";
+      continue;
+    }
+
+    source += `/${escapeRegex(segment)}`;
+  }
+
+  // 끝의 /는 있어도 없어도 같은 경로로 취급
+  return { regex: new RegExp(`^${source}/?$`), names };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// 경로가 패턴과 일치하면 자리 표시자 값, 아니면 null
+function matchPathPattern(
+  pattern: PathPattern,
+  path: string
+): Record<string, string> | null {
+  const match = pattern.regex.exec(path);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  pattern.names.forEach((name, index) => {
+    params[name] = match[index + 1] ?? "";
+  });
+  return params;
+}
+
+// _headers 파일 해석 (잘못된 줄은 건너뛰고 오류 목록에 추가)
+export function parseHeadersFile(text: string): {
+  rules: HeaderRule[];
+  errors: SiteRuleError[];
+} {
+  const rules: HeaderRule[] = [];
+  const errors: SiteRuleError[] = [];
+  let current: HeaderRule | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+
+    // 들여쓰지 않은 줄은 경로 패턴
+    if (!/^\s/.test(raw)) {
+      const pattern = compilePathPattern(trimmed);
+      if (typeof pattern === "string") {
+        errors.push({ line, message: pattern });
+        current = null;
+        return;
+      }
+      current = { pattern, headers: {} };
+      rules.push(current);
+      return;
+    }
+
+    if (!current) {
+      errors.push({ line, message: "헤더 앞에 경로가 필요합니다" });
+      return;
+    }
+
+    const separator = trimmed.indexOf(":");
+    if (separator <= 0) {
+      errors.push({ line, message: "헤더는 '이름: 값' 형식이어야 합니다" });
+      return;
+    }
+
+    const name = trimmed.slice(0, separator).trim();
+    const value = trimmed.slice(separator + 1).trim();
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      errors.push({ line, message: `잘못된 헤더 이름입니다: ${name}` });
+      return;
+    }
+    if (FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+      errors.push({ line, message: `설정할 수 없는 헤더입니다: ${name}` });
+      return;
+    }
+    if (!value) {
+      errors.push({ line, message: `헤더 값이 비어 있습니다: ${name}` });
+      return;
+    }
+
+    // 같은 경로에서 같은 헤더를 여러 번 쓰면 쉼표로 이어 붙임
+    const existing = Object.keys(current.headers).find(
+      (key) => key.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) {
+      current.headers[existing] += `, ${value}`;
+    } else {
+      current.headers[name] = value;
+    }
+  });
+
+  return { rules, errors };
+}
+
+// _redirects 파일 해석 (잘못된 줄은 건너뛰고 오류 목록에 추가)
+export function parseRedirectsFile(text: string): {
+  rules: RedirectRule[];
+  errors: SiteRuleError[];
+} {
+  const rules: RedirectRule[] = [];
+  const errors: SiteRuleError[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+
+    const [from, to, statusText, ...rest] = trimmed.split(/\s+/);
+    if (!from || !to || rest.length > 0) {
+      errors.push({
+        line,
+        message: "'원래 경로 대상 [상태 코드]' 형식이어야 합니다",
+      });
+      return;
+    }
+
+    const pattern = compilePathPattern(from);
+    if (typeof pattern === "string") {
+      errors.push({ line, message: pattern });
+      return;
+    }
+
+    const statusMatch = /^(\d{3})(!?)$/.exec(statusText || "301");
+    const status = statusMatch ? Number(statusMatch[1]) : NaN;
+    if (!statusMatch || !REDIRECT_STATUSES.includes(status)) {
+      errors.push({
+        line,
+        message: `지원하지 않는 상태 코드입니다: ${statusText} (${REDIRECT_STATUSES.join(
+          ", "
+        )})`,
+      });
+      return;
+    }
+
+    const external = /^https?:\/\//i.test(to);
+    if (!external && !to.startsWith("/")) {
+      errors.push({
+        line,
+        message: `대상은 /로 시작하는 경로나 http(s) 주소여야 합니다: ${to}`,
+      });
+      return;
+    }
+    if (external && status === 200) {
+      errors.push({
+        line,
+        message: "200 규칙의 대상은 사이트 안의 경로여야 합니다",
+      });
+      return;
+    }
+
+    // 대상에서 쓰는 자리 표시자는 원래 경로에 있어야 함 (숫자로 시작하는 포트 번호는 자리 표시자가 아님)
+    const missing = [...to.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g)]
+      .map((match) => match[1]!)
+      .filter((name) => !pattern.names.includes(name));
+    if (missing.length > 0) {
+      errors.push({
+        line,
+        message: `원래 경로에 없는 자리 표시자입니다: ${missing
+          .map((name) => `:${name}`)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    rules.push({ pattern, to, status, force: statusMatch[2] === "!" });
+  });
+
+  return { rules, errors };
+}
+
+// 설정 파일 내용 검사 (저장 전 확인용, 해당 파일이 아니면 빈 배열)
+export function validateSiteRulesFile(
+  fileName: string,
+  text: string
+): SiteRuleError[] {
+  if (fileName === SITE_HEADERS_FILE) {
+    return parseHeadersFile(text).errors;
+  }
+  if (fileName === SITE_REDIRECTS_FILE) {
+    return parseRedirectsFile(text).errors;
+  }
+  return [];
+}
+
+// 사이트 경로에 적용할 사용자 지정 헤더 (일치하는 규칙을 순서대로 적용, 뒤의 규칙이 우선)
+export async function getSiteHeaders(
+  siteId: string,
+  path: string
+): Promise<Record<string, string>> {
+  const rules = await readSiteConfig(
+    siteId,
+    SITE_HEADERS_FILE,
+    (text) => parseHeadersFile(text).rules,
+    []
+  );
+
+  const headers: Record<string, string> = {};
+  for (const rule of rules) {
+    if (matchPathPattern(rule.pattern, path)) {
+      Object.assign(headers, rule.headers);
+    }
+  }
+  return headers;
+}
+
+// 사이트 경로에 적용할 리다이렉트 규칙 찾기
+// 요청한 경로에 파일이 있으면 강제(!) 규칙만 적용
+export async function findSiteRedirect(
+  siteId: string,
+  path: string,
+  fileExists: boolean
+): Promise<RedirectMatch | null> {
+  const rules = await readSiteConfig(
+    siteId,
+    SITE_REDIRECTS_FILE,
+    (text) => parseRedirectsFile(text).rules,
+    []
+  );
+
+  for (const rule of rules) {
+    if (fileExists && !rule.force) {
+      continue;
+    }
+
+    const params = matchPathPattern(rule.pattern, path);
+    if (!params) {
+      continue;
+    }
+
+    const to = rule.to.replace(
+      /:([A-Za-z_][A-Za-z0-9_]*)/g,
+      (placeholder, name: string) => params[name] ?? placeholder
+    );
+    return { to, status: rule.status };
+  }
+  return null;
+}
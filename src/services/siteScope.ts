@@ -0,0 +1,10 @@
+// 사용자 파일 API의 대상 사이트 지정 (화면 컴포넌트에서 사용)
+
+// 파일 API 주소에 ?site=<사이트 ID> 추가 (사이트를 지정하지 않으면 서버가 기본 사이트 사용)
+export function withSite(url: string, siteId?: string | null): string {
+  if (!siteId) {
+    return url;
+  }
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}site=${encodeURIComponent(siteId)}`;
+}
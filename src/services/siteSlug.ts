@@ -0,0 +1,81 @@
+import { getCurrentSiteSlug, type Site } from "./database";
+
+// 사이트 주소 형식 (소문자, 숫자, 하이픈 3~32자, 하이픈으로 시작하거나 끝날 수 없음)
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,30})[a-z0-9]$/;
+
+// 서비스 경로나 하위 도메인과 겹치거나 사용자를 속이는 데 쓰일 수 있어 사용할 수 없는 주소
+const RESERVED_SLUGS = new Set([
+  "admin",
+  "administrator",
+  "api",
+  "app",
+  "assets",
+  "auth",
+  "cdn",
+  "dashboard",
+  "dev",
+  "docs",
+  "ftp",
+  "help",
+  "login",
+  "logout",
+  "mail",
+  "register",
+  "root",
+  "security",
+  "settings",
+  "smtp",
+  "static",
+  "status",
+  "support",
+  "system",
+  "uploads",
+  "www",
+]);
+
+// 하위 도메인 방식으로 사이트를 제공할 도메인 (예: localhost → <주소>.localhost, 없으면 사용 안 함)
+export const SITE_DOMAIN = process.env.SITE_DOMAIN?.toLowerCase() || null;
+
+// 하위 도메인 방식 사이트 서버 포트 (앱과 다른 출처가 되도록 별도 포트 사용)
+export const SITE_PORT = Number(process.env.SITE_PORT) || 3001;
+
+// 사이트 주소 검사 (올바르면 null, 아니면 오류 메시지)
+export function validateSiteSlug(slug: string): string | null {
+  if (!SLUG_PATTERN.test(slug)) {
+    return "사이트 주소는 소문자, 숫자, 하이픈으로 3~32자여야 하며 하이픈으로 시작하거나 끝날 수 없습니다";
+  }
+  if (slug.includes("--")) {
+    return "사이트 주소에 하이픈을 연속으로 쓸 수 없습니다";
+  }
+  if (RESERVED_SLUGS.has(slug)) {
+    return "사용할 수 없는 사이트 주소입니다";
+  }
+  return null;
+}
+
+// 사이트의 기본 경로 (주소가 있으면 /s/<주소>, 없으면 기본 사이트는 /static/users/<사용자 ID>, 나머지는 /static/sites/<사이트 ID>)
+export function getSiteBasePath(site: Site): string {
+  const current = getCurrentSiteSlug(site.id);
+  if (current) {
+    return `/s/${current.slug}`;
+  }
+  return site.id === site.userId
+    ? `/static/users/${site.userId}`
+    : `/static/sites/${site.id}`;
+}
+
+// Host 헤더에서 사이트 주소 추출 (<주소>.<SITE_DOMAIN> 형식이 아니면 null)
+export function getSlugFromHost(host: string | null): string | null {
+  if (!SITE_DOMAIN || !host) {
+    return null;
+  }
+
+  const hostname = host.replace(/:\d+$/, "").toLowerCase();
+  const suffix = `.${SITE_DOMAIN}`;
+  if (!hostname.endsWith(suffix)) {
+    return null;
+  }
+
+  const slug = hostname.slice(0, -suffix.length);
+  return slug && !slug.includes(".") ? slug : null;
+}
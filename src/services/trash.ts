@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname, join } from "path";
+import {
+  adjustStorageUsage,
+  createTrashItem,
+  deleteTrashItem,
+  getExpiredTrashItems,
+  getTrashItemsBySiteId,
+  type TrashItem,
+} from "./database";
+import {
+  calculatePathUsage,
+  getSiteIdFromPath,
+  getSiteRelativePath,
+  getUserTrashDir,
+} from "./fileStorage";
+
+// 휴지통 보관 기간 (일, 환경 변수로 변경 가능)
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// 보관 기간이 지난 항목 정리 주기 (1시간)
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+// 휴지통 항목의 실제 저장 위치
+export function getTrashItemPath(item: TrashItem): string {
+  return join(getUserTrashDir(item.userId), item.id);
+}
+
+// 파일/폴더를 휴지통으로 이동 (용량은 그대로 두고 파일 수에서만 제외)
+export async function moveToTrash(
+  userId: string,
+  fullPath: string
+): Promise<TrashItem | null> {
+  try {
+    const stats = await stat(fullPath);
+    const usage = await calculatePathUsage(fullPath);
+    const id = randomUUID();
+    const trashPath = join(getUserTrashDir(userId), id);
+    const siteId = getSiteIdFromPath(fullPath) ?? userId;
+
+    await mkdir(getUserTrashDir(userId), { recursive: true });
+    await rename(fullPath, trashPath);
+
+    const item = createTrashItem({
+      id,
+      userId,
+      siteId,
+      originalPath: getSiteRelativePath(siteId, fullPath),
+      isDirectory: stats.isDirectory(),
+      size: usage.bytes,
+      fileCount: usage.fileCount,
+    });
+
+    // 기록에 실패하면 원래 위치로 되돌림
+    if (!item) {
+      await rename(trashPath, fullPath);
+      return null;
+    }
+
+    adjustStorageUsage(userId, 0, -usage.fileCount);
+    return item;
+  } catch (error) {
+    console.error(`휴지통 이동 오류: ${error}`);
+    return null;
+  }
+}
+
+// 휴지통 항목을 원래 위치로 복원 (파일 수 한도는 호출하는 쪽에서 예약)
+export async function restoreFromTrash(
+  item: TrashItem,
+  fullPath: string
+): Promise<boolean> {
+  try {
+    await mkdir(dirname(fullPath), { recursive: true });
+    await rename(getTrashItemPath(item), fullPath);
+    deleteTrashItem(item.id);
+    return true;
+  } catch (error) {
+    console.error(`휴지통 복원 오류: ${error}`);
+    return false;
+  }
+}
+
+// 휴지통 항목을 영구 삭제하고 용량 반환
+export async function purgeTrashItem(item: TrashItem): Promise<boolean> {
+  try {
+    await rm(getTrashItemPath(item), { recursive: true, force: true });
+    if (deleteTrashItem(item.id)) {
+      adjustStorageUsage(item.userId, -item.size);
+    }
+    return true;
+  } catch (error) {
+    console.error(`휴지통 영구 삭제 오류: ${error}`);
+    return false;
+  }
+}
+
+// 사이트의 휴지통 비우기 (영구 삭제한 항목 수 반환)
+export async function emptyTrash(siteId: string): Promise<number> {
+  let purged = 0;
+  for (const item of getTrashItemsBySiteId(siteId)) {
+    if (await purgeTrashItem(item)) {
+      purged++;
+    }
+  }
+  return purged;
+}
+
+// 보관 기간이 지난 휴지통 항목 영구 삭제
+export async function purgeExpiredTrash(): Promise<void> {
+  const cutoff = new Date(
+    Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const expired = getExpiredTrashItems(cutoff);
+  for (const item of expired) {
+    await purgeTrashItem(item);
+  }
+
+  if (expired.length > 0) {
+    console.log(`휴지통 정리: ${expired.length}개 항목 영구 삭제`);
+  }
+}
+
+// 서버가 실행되는 동안 주기적으로 휴지통 정리
+setInterval(() => {
+  purgeExpiredTrash().catch((error) =>
+    console.error(`휴지통 정리 오류: ${error}`)
+  );
+}, TRASH_PURGE_INTERVAL).unref();
@@ -0,0 +1,406 @@
+import { readFile, stat } from "node:fs/promises";
+import { promisify } from "util";
+import { deflateRaw, inflateRawSync } from "zlib";
+import { join } from "path";
+import { listDirectory } from "./fileStorage";
+
+const deflateRawAsync = promisify(deflateRaw);
+
+// 압축 파일에 담을 항목
+export interface ZipSource {
+  name: string; // 압축 파일 안의 경로 (폴더는 "/"로 끝남)
+  path?: string; // 디스크 경로 (폴더는 생략)
+  size: number; // 파일 크기 (폴더는 0)
+  mtime: Date;
+}
+
+// 압축할 항목을 고르는 glob 패턴 (압축하는 폴더 기준 상대 경로와 비교)
+export interface ZipFilter {
+  include: string[]; // 비어 있으면 모든 파일 포함
+  exclude: string[]; // 일치하는 파일과 폴더(하위 항목 포함)는 제외
+}
+
+// 압축 파일에서 읽은 항목 정보
+export interface ZipEntry {
+  name: string; // 압축 파일 안의 경로 (폴더는 "/"로 끝남)
+  isDirectory: boolean;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number; // 압축을 푼 크기
+  offset: number; // 로컬 파일 헤더 위치
+}
+
+// 중앙 디렉토리 작성을 위해 보관하는 항목 정보
+interface ZipRecord {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+  isDirectory: boolean;
+}
+
+// ZIP 형식은 4GB를 넘는 오프셋과 크기를 ZIP64 확장 없이 표현할 수 없음
+const ZIP_MAX_SIZE = 0xffffffff;
+
+// ZIP64 확장 없이 담을 수 있는 최대 항목 수 (0xffff는 ZIP64 표시로 쓰임)
+const ZIP_MAX_ENTRIES = 0xfffe;
+
+// 압축 파일을 만들 수 없는 경우의 응답 정보
+export interface ZipLimitError {
+  status: 400 | 413;
+  error: string;
+}
+
+// 파일 이름을 UTF-8로 기록했다는 플래그
+const UTF8_FLAG = 0x0800;
+
+// 날짜를 MS-DOS 시간/날짜 형식으로 변환
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// 로컬 파일 헤더 작성
+function createLocalHeader(record: ZipRecord): Uint8Array {
+  const header = new Uint8Array(30 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, record.method, true);
+  view.setUint16(10, record.time, true);
+  view.setUint16(12, record.date, true);
+  view.setUint32(14, record.crc, true);
+  view.setUint32(18, record.compressedSize, true);
+  view.setUint32(22, record.size, true);
+  view.setUint16(26, record.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(record.name, 30);
+  return header;
+}
+
+// 중앙 디렉토리 항목 작성
+function createCentralHeader(record: ZipRecord): Uint8Array {
+  const header = new Uint8Array(46 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, 20, true);
+  view.setUint16(6, 20, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, record.method, true);
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, record.compressedSize, true);
+  view.setUint32(24, record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint16(30, 0, true);
+  view.setUint16(32, 0, true);
+  view.setUint16(34, 0, true);
+  view.setUint16(36, 0, true);
+  view.setUint32(38, record.isDirectory ? 0x10 : 0, true);
+  view.setUint32(42, record.offset, true);
+  header.set(record.name, 46);
+  return header;
+}
+
+// 중앙 디렉토리 끝 레코드 작성
+function createEndRecord(
+  count: number,
+  directorySize: number,
+  directoryOffset: number
+): Uint8Array {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, directorySize, true);
+  view.setUint32(16, directoryOffset, true);
+  return record;
+}
+
+// 항목을 하나씩 읽어 ZIP 데이터를 생성 (압축 파일 전체를 메모리에 두지 않음)
+async function* generateZip(
+  sources: AsyncIterable<ZipSource> | Iterable<ZipSource>
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for await (const source of sources) {
+    const isDirectory = source.name.endsWith("/");
+    const data = source.path
+      ? new Uint8Array(await readFile(source.path))
+      : new Uint8Array(0);
+
+    // 압축해도 작아지지 않으면 그대로 저장 (압축은 스레드 풀에서 처리하여 서버를 멈추지 않음)
+    const deflated =
+      data.length > 0 ? new Uint8Array(await deflateRawAsync(data)) : data;
+    const compressed = deflated.length < data.length ? deflated : data;
+
+    const record: ZipRecord = {
+      name: encoder.encode(source.name),
+      method: compressed === data ? 0 : 8,
+      crc: Bun.hash.crc32(data) >>> 0,
+      compressedSize: compressed.length,
+      size: data.length,
+      ...toDosDateTime(source.mtime),
+      offset,
+      isDirectory,
+    };
+
+    const header = createLocalHeader(record);
+    offset += header.length + compressed.length;
+    if (offset > ZIP_MAX_SIZE) {
+      throw new Error("압축 파일이 너무 큽니다 (최대 4GB)");
+    }
+
+    records.push(record);
+    if (records.length > ZIP_MAX_ENTRIES) {
+      throw new Error("압축 파일에 담을 수 있는 항목 수를 초과했습니다");
+    }
+
+    yield header;
+    if (compressed.length > 0) {
+      yield compressed;
+    }
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const record of records) {
+    const header = createCentralHeader(record);
+    directorySize += header.length;
+    yield header;
+  }
+
+  yield createEndRecord(records.length, directorySize, directoryOffset);
+}
+
+// 압축할 항목을 모두 나열하고 ZIP 형식의 한도 확인
+// 스트리밍을 시작한 뒤에는 오류 응답을 보낼 수 없으므로 응답 전에 확인 (한도를 넘는 즉시 나열 중단)
+export async function prepareZipSources(
+  sources: AsyncIterable<ZipSource> | Iterable<ZipSource>
+): Promise<{ sources: ZipSource[] } | ZipLimitError> {
+  const encoder = new TextEncoder();
+  const collected: ZipSource[] = [];
+  // 압축하지 않고 저장한 경우의 크기 (로컬 헤더, 내용, 중앙 디렉토리 항목, 끝 레코드)
+  let estimatedSize = 22;
+
+  for await (const source of sources) {
+    collected.push(source);
+    if (collected.length > ZIP_MAX_ENTRIES) {
+      return {
+        status: 400,
+        error: `압축 파일에 담을 수 있는 항목 수(${ZIP_MAX_ENTRIES}개)를 초과했습니다`,
+      };
+    }
+
+    const nameLength = encoder.encode(source.name).length;
+    estimatedSize += 30 + nameLength + source.size + 46 + nameLength;
+    if (estimatedSize > ZIP_MAX_SIZE) {
+      return { status: 413, error: "압축 파일이 너무 큽니다 (최대 4GB)" };
+    }
+  }
+
+  return { sources: collected };
+}
+
+// ZIP 압축 파일 스트림 생성
+export function createZipStream(
+  sources: AsyncIterable<ZipSource> | Iterable<ZipSource>
+): ReadableStream<Uint8Array> {
+  const chunks = generateZip(sources);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        console.error(`압축 파일 생성 오류: ${error}`);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// glob 패턴 목록 중 하나라도 일치하는지 확인
+function matchesAny(patterns: Bun.Glob[], path: string): boolean {
+  return patterns.some((pattern) => pattern.match(path));
+}
+
+// 파일 또는 폴더를 압축 항목으로 나열 (폴더는 하위 항목까지 재귀적으로)
+export async function* collectZipSources(
+  fullPath: string,
+  name: string,
+  filter?: ZipFilter
+): AsyncGenerator<ZipSource> {
+  const include = (filter?.include || []).map((p) => new Bun.Glob(p));
+  const exclude = (filter?.exclude || []).map((p) => new Bun.Glob(p));
+
+  async function* collect(
+    currentPath: string,
+    relativePath: string
+  ): AsyncGenerator<ZipSource> {
+    const stats = await stat(currentPath);
+    const entryName = relativePath ? `${name}/${relativePath}` : name;
+
+    if (relativePath && matchesAny(exclude, relativePath)) {
+      return;
+    }
+
+    if (!stats.isDirectory()) {
+      if (
+        !relativePath ||
+        include.length === 0 ||
+        matchesAny(include, relativePath)
+      ) {
+        yield {
+          name: entryName,
+          path: currentPath,
+          size: stats.size,
+          mtime: stats.mtime,
+        };
+      }
+      return;
+    }
+
+    // 포함 패턴이 있으면 빈 폴더가 남지 않도록 폴더 항목은 생략 (파일 경로로 복원됨)
+    if (include.length === 0) {
+      yield { name: `${entryName}/`, size: 0, mtime: stats.mtime };
+    }
+    for (const entry of await listDirectory(currentPath)) {
+      yield* collect(
+        join(currentPath, entry.name),
+        relativePath ? `${relativePath}/${entry.name}` : entry.name
+      );
+    }
+  }
+
+  yield* collect(fullPath, "");
+}
+
+// 다운로드 응답에 사용할 Content-Disposition 헤더 (한글 파일 이름 지원)
+export function getAttachmentHeader(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    filename
+  )}`;
+}
+
+// 중앙 디렉토리 끝 레코드 위치 찾기 (뒤에 주석이 붙을 수 있어 끝에서부터 검색)
+function findEndRecord(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      return offset;
+    }
+  }
+  throw new Error("올바른 ZIP 파일이 아닙니다");
+}
+
+// 압축 파일의 항목 목록 읽기 (중앙 디렉토리 기준, 내용은 풀지 않음)
+export function readZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = findEndRecord(view);
+
+  const count = view.getUint16(endOffset + 10, true);
+  const directoryOffset = view.getUint32(endOffset + 16, true);
+  if (count === 0xffff || directoryOffset === ZIP_MAX_SIZE) {
+    throw new Error("ZIP64 형식은 지원하지 않습니다");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > data.byteLength ||
+      view.getUint32(offset, true) !== 0x02014b50
+    ) {
+      throw new Error("ZIP 파일의 중앙 디렉토리가 손상되었습니다");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+
+    // UTF-8 플래그가 없어도 대부분의 도구가 UTF-8로 기록하므로 그대로 해석
+    const name = decoder.decode(nameBytes).replace(/\\/g, "/");
+
+    if (flags & 0x1) {
+      throw new Error(`암호화된 항목은 지원하지 않습니다: ${name}`);
+    }
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith("/"),
+      method: view.getUint16(offset + 10, true),
+      crc: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// 압축 파일에서 항목 하나의 내용 풀기 (선언된 크기보다 커지지 않도록 제한)
+export function extractZipEntry(data: Uint8Array, entry: ZipEntry): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (
+    entry.offset + 30 > data.byteLength ||
+    view.getUint32(entry.offset, true) !== 0x04034b50
+  ) {
+    throw new Error(`ZIP 항목이 손상되었습니다: ${entry.name}`);
+  }
+
+  const nameLength = view.getUint16(entry.offset + 26, true);
+  const extraLength = view.getUint16(entry.offset + 28, true);
+  const start = entry.offset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  let content: Uint8Array;
+  if (entry.method === 0) {
+    content = compressed;
+  } else if (entry.method === 8) {
+    content = new Uint8Array(
+      inflateRawSync(compressed, { maxOutputLength: Math.max(entry.size, 1) })
+    );
+  } else {
+    throw new Error(`지원하지 않는 압축 방식입니다: ${entry.name}`);
+  }
+
+  if (
+    content.length !== entry.size ||
+    Bun.hash.crc32(content) >>> 0 !== entry.crc
+  ) {
+    throw new Error(`ZIP 항목의 내용이 올바르지 않습니다: ${entry.name}`);
+  }
+  return content;
+}
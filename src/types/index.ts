@@ -2,7 +2,7 @@
 export interface User {
   id: string;
   username: string;
-  password: string; // 실제 환경에서는 해싱된 비밀번호를 저장해야 함
+  password: string; // 해시된 비밀번호
   createdAt: Date;
 }
 
@@ -23,4 +23,7 @@ export interface Session {
   userId: string;
   createdAt: Date;
   expiresAt: Date;
+  lastSeenAt: Date | null;
+  ipAddress: string | null;
+  userAgent: string | null;
 }